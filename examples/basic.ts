@@ -1,15 +1,13 @@
 import { ForecastLeverageSDK } from '@forecast-protocol/leverage-sdk';
 
 // Initialize SDK
-const sdk = new ForecastLeverageSDK(
-  process.env.RPC_URL!,
-  process.env.PRIVATE_KEY!,
-  process.env.PROTOCOL_ADDRESS!,
-  '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', // USDC (Polygon)
-  '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045', // CTF (Polygon)
-  JSON.parse(process.env.POLYMARKET_CREDS!),
-  process.env.POLYMARKET_FUNDER!
-);
+const sdk = new ForecastLeverageSDK({
+  network: 'polygon', // USDC, CTF and protocol addresses
+  rpcUrl: process.env.RPC_URL,
+  signer: process.env.PRIVATE_KEY!,
+  apiCreds: JSON.parse(process.env.POLYMARKET_CREDS!),
+  polymarketFunderAddress: process.env.POLYMARKET_FUNDER!,
+});
 
 async function main() {
   // Define position parameters
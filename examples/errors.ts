@@ -1,5 +1,6 @@
 import {
   ForecastLeverageSDK,
+  ForecastError,
   ValidationError,
   PolymarketError,
   ProtocolError
@@ -33,9 +34,9 @@ async function openPositionWithErrorHandling(params: any) {
         return position;
 
       } catch (error) {
-        // Retry on Polymarket errors (transient issues)
-        if (error instanceof PolymarketError && retries < 2) {
-          console.log('Polymarket error, retrying in 2s...');
+        // Retry transient failures (thin book, paused protocol, RPC issues)
+        if (error instanceof ForecastError && error.retryable && retries < 2) {
+          console.log(`${error.code}, retrying in 2s...`);
           await new Promise(resolve => setTimeout(resolve, 2000));
           retries++;
           continue;
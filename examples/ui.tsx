@@ -5,7 +5,8 @@ import {
   PolymarketError,
   ProtocolError,
   type TargetPositionParams,
-  type LeveragePosition
+  type LeveragePosition,
+  type OpenProgressEvent
 } from '@forecast-protocol/leverage-sdk';
 
 export function LeverageTrader({ sdk }: { sdk: ForecastLeverageSDK }) {
@@ -23,6 +24,7 @@ export function LeverageTrader({ sdk }: { sdk: ForecastLeverageSDK }) {
   const [position, setPosition] = useState<LeveragePosition | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [steps, setSteps] = useState<string[]>([]);
 
   // Preview position
   const handlePreview = async () => {
@@ -43,13 +45,33 @@ export function LeverageTrader({ sdk }: { sdk: ForecastLeverageSDK }) {
     }
   };
 
+  // Describe a loop step for the tracker
+  const describeStep = (event: OpenProgressEvent): string | null => {
+    switch (event.type) {
+      case 'approvals': return 'Approvals sent';
+      case 'loopStarted': return `Loop ${event.loop + 1}/${event.loops}: buying with $${event.usdcAmount.toFixed(2)}`;
+      case 'orderRetry': return `Order failed (${event.error}), retrying`;
+      case 'orderFilled': return `Filled ${event.size.toFixed(2)} tokens @ ${event.avgPrice.toFixed(4)}`;
+      case 'legOpened': return `Leg ${event.legId} opened (${event.txHash.slice(0, 10)}…)`;
+      case 'partialStop': return `Stopped after ${event.legsOpened} legs: ${event.reason}`;
+      case 'completed': return 'Position opened';
+      default: return null;
+    }
+  };
+
   // Execute position
   const handleExecute = async () => {
     setLoading(true);
     setError(null);
+    setSteps([]);
 
     try {
-      const result = await sdk.openTargetPosition(params);
+      const result = await sdk.openTargetPosition(params, {
+        onProgress: event => {
+          const step = describeStep(event);
+          if (step) setSteps(previous => [...previous, step]);
+        }
+      });
       setPosition(result);
       setPreview(null);
     } catch (err) {
@@ -166,6 +188,13 @@ export function LeverageTrader({ sdk }: { sdk: ForecastLeverageSDK }) {
         </div>
       )}
 
+      {/* Live Step Tracker */}
+      {steps.length > 0 && (
+        <ol className="steps">
+          {steps.map((step, i) => <li key={i}>{step}</li>)}
+        </ol>
+      )}
+
       {/* Preview Display */}
       {preview && (
         <div className="preview">
@@ -0,0 +1,200 @@
+import { ethers } from "ethers";
+import { ValidationError } from "./errors";
+import { GasTokenPriceSource, chainlinkGasTokenPrice, fixedGasTokenPrice } from "./gas";
+import { MarketMetadataSource, gammaMarketMetadata } from "./metadata";
+
+/**
+ * Network configuration
+ *
+ * Named presets fill in the chain, RPC, CLOB host and contract addresses
+ * for a network; every field can be overridden. resolveNetworkConfig
+ * checks the result up front, so a bad address or missing field fails in
+ * the constructor instead of at the first transaction.
+ */
+
+export type NetworkName = 'polygon' | 'amoy' | 'local';
+
+/**
+ * Polymarket order signature type: 0 = EOA, 1 = Polymarket proxy wallet,
+ * 2 = Polymarket Gnosis safe
+ */
+export type ClobSignatureType = 0 | 1 | 2;
+
+export interface ClobApiCredentials {
+  key: string;
+  secret: string;
+  passphrase: string;
+}
+
+export interface NetworkPreset {
+  chainId: number;
+  rpcUrl: string;
+  clobHost?: string;               // Polymarket CLOB API (no public CLOB on local chains)
+  protocolAddress?: string;        // ForecastProtocol deployment, where published
+  usdcAddress?: string;
+  ctfAddress?: string;
+  gasTokenPriceFeed?: string;      // Chainlink gas-token/USD feed (none: gas is priced at $0, as on testnets)
+  gammaHost?: string;              // Polymarket Gamma API for market metadata (none: no end dates)
+}
+
+export const NETWORKS: Record<NetworkName, NetworkPreset> = {
+  polygon: {
+    chainId: 137,
+    rpcUrl: 'https://polygon-rpc.com',
+    clobHost: 'https://clob.polymarket.com',
+    protocolAddress: '0x363Ef3131969aC9C0EE3Bd4a67ce47865d37BE71',
+    usdcAddress: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+    ctfAddress: '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045',
+    gasTokenPriceFeed: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0', // POL/USD
+    gammaHost: 'https://gamma-api.polymarket.com',
+  },
+  amoy: {
+    chainId: 80002,
+    rpcUrl: 'https://rpc-amoy.polygon.technology',
+    usdcAddress: '0x9c4e1703476e875070ee25b56a58b008cfb8fa78',
+    ctfAddress: '0x69308FB512518e39F9b16112fA8d994F4e2Bf8bB',
+  },
+  local: {
+    chainId: 31337,
+    rpcUrl: 'http://127.0.0.1:8545',
+  },
+};
+
+/**
+ * Network fields of the constructor config; anything omitted comes from the preset
+ */
+export interface NetworkConfig {
+  network?: NetworkName;           // Preset (default: 'polygon')
+  rpcUrl?: string;                 // Ignored when `provider` is given
+  provider?: ethers.providers.Provider; // Existing provider for reads and receipts
+  chainId?: number;                // Chain ID for CLOB order signing
+  protocolAddress?: string;
+  usdcAddress?: string;
+  ctfAddress?: string;
+  clobHost?: string;
+  signatureType?: ClobSignatureType; // Default: 1 (Polymarket proxy wallet)
+  apiCreds?: ClobApiCredentials;   // Existing CLOB API key (default: created or derived on setup)
+  polymarketFunderAddress?: string; // Wallet holding the Polymarket funds (required unless signatureType is 0)
+  gasTokenPrice?: GasTokenPriceSource | number; // USD per gas token for fee reports (default: the preset's feed)
+  marketMetadata?: MarketMetadataSource; // Market end dates for eligibility checks (default: the preset's Gamma API)
+}
+
+export interface ResolvedNetworkConfig {
+  network: NetworkName;
+  provider: ethers.providers.Provider;
+  chainId: number;
+  protocolAddress: string;
+  usdcAddress: string;
+  ctfAddress: string;
+  clobHost: string;
+  signatureType: ClobSignatureType;
+  apiCreds?: ClobApiCredentials;
+  polymarketFunderAddress: string;
+  gasTokenPrice: GasTokenPriceSource;
+  marketMetadata: MarketMetadataSource | null;
+}
+
+/**
+ * Merge `config` over its network preset and validate the result.
+ * Contract addresses are only required when the SDK builds its own
+ * protocol backend (`needsContracts`), and CLOB fields only when it builds
+ * its own exchange adapter (`needsClob`).
+ *
+ * @throws {ValidationError} Listing every invalid or missing field
+ */
+export function resolveNetworkConfig(
+  config: NetworkConfig,
+  needs: { needsContracts: boolean; needsClob: boolean }
+): ResolvedNetworkConfig {
+  const network = config.network || 'polygon';
+  const preset = NETWORKS[network];
+  if (!preset) {
+    throw new ValidationError(`Invalid config: unknown network '${network}' (expected ${Object.keys(NETWORKS).join(', ')})`);
+  }
+
+  const problems: string[] = [];
+  const requireAddress = (field: 'protocolAddress' | 'usdcAddress' | 'ctfAddress' | 'polymarketFunderAddress', value?: string) => {
+    if (!value) {
+      problems.push(`${field} is required (no default for network '${network}')`);
+    } else if (!ethers.utils.isAddress(value)) {
+      problems.push(`${field} is not an address: ${value}`);
+    }
+  };
+
+  const chainId = config.chainId ?? preset.chainId;
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    problems.push(`chainId must be a positive integer, got ${chainId}`);
+  }
+
+  const rpcUrl = config.rpcUrl || preset.rpcUrl;
+  if (!config.provider && !/^https?:\/\//.test(rpcUrl)) {
+    problems.push(`rpcUrl must be an http(s) URL, got ${rpcUrl}`);
+  }
+
+  const addresses = {
+    protocolAddress: config.protocolAddress || preset.protocolAddress,
+    usdcAddress: config.usdcAddress || preset.usdcAddress,
+    ctfAddress: config.ctfAddress || preset.ctfAddress,
+  };
+  if (needs.needsContracts) {
+    requireAddress('protocolAddress', addresses.protocolAddress);
+    requireAddress('usdcAddress', addresses.usdcAddress);
+    requireAddress('ctfAddress', addresses.ctfAddress);
+  }
+
+  const clobHost = config.clobHost || preset.clobHost;
+  const signatureType = config.signatureType ?? 1;
+  if (needs.needsClob) {
+    if (!clobHost) {
+      problems.push(`clobHost is required (no Polymarket CLOB for network '${network}'; pass clobHost or an exchange adapter)`);
+    } else if (!/^https?:\/\//.test(clobHost)) {
+      problems.push(`clobHost must be an http(s) URL, got ${clobHost}`);
+    }
+    if (![0, 1, 2].includes(signatureType)) {
+      problems.push(`signatureType must be 0 (EOA), 1 (proxy) or 2 (safe), got ${signatureType}`);
+    }
+    if (signatureType !== 0) {
+      requireAddress('polymarketFunderAddress', config.polymarketFunderAddress);
+    } else if (config.polymarketFunderAddress && !ethers.utils.isAddress(config.polymarketFunderAddress)) {
+      problems.push(`polymarketFunderAddress is not an address: ${config.polymarketFunderAddress}`);
+    }
+    if (config.apiCreds && !(['key', 'secret', 'passphrase'] as const).every(field => typeof config.apiCreds![field] === 'string' && config.apiCreds![field].length > 0)) {
+      problems.push('apiCreds needs non-empty key, secret and passphrase');
+    }
+  }
+
+  const gasTokenPrice = config.gasTokenPrice;
+  const validGasTokenPrice = gasTokenPrice === undefined || (typeof gasTokenPrice === 'number'
+    ? Number.isFinite(gasTokenPrice) && gasTokenPrice >= 0
+    : typeof gasTokenPrice?.getPriceUSD === 'function');
+  if (!validGasTokenPrice) {
+    problems.push('gasTokenPrice must be a non-negative number or a GasTokenPriceSource');
+  }
+
+  if (config.marketMetadata !== undefined && typeof config.marketMetadata?.getMarket !== 'function') {
+    problems.push('marketMetadata must be a MarketMetadataSource');
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError(`Invalid config: ${problems.join('; ')}`);
+  }
+
+  const provider = config.provider || new ethers.providers.JsonRpcProvider(rpcUrl);
+  return {
+    network,
+    provider,
+    chainId,
+    protocolAddress: addresses.protocolAddress || ethers.constants.AddressZero,
+    usdcAddress: addresses.usdcAddress || ethers.constants.AddressZero,
+    ctfAddress: addresses.ctfAddress || ethers.constants.AddressZero,
+    clobHost: clobHost || '',
+    signatureType,
+    apiCreds: config.apiCreds,
+    polymarketFunderAddress: config.polymarketFunderAddress || ethers.constants.AddressZero,
+    gasTokenPrice: typeof gasTokenPrice === 'number' ? fixedGasTokenPrice(gasTokenPrice)
+      : gasTokenPrice ? gasTokenPrice
+      : preset.gasTokenPriceFeed ? chainlinkGasTokenPrice(preset.gasTokenPriceFeed, provider)
+      : fixedGasTokenPrice(0),
+    marketMetadata: config.marketMetadata || (preset.gammaHost ? gammaMarketMetadata(preset.gammaHost) : null),
+  };
+}
@@ -0,0 +1,103 @@
+import { OrderBook } from "./exchange";
+import { MarketMetadata } from "./metadata";
+import { EligibilityCheck, EligibilityStatus } from "./types";
+
+/**
+ * Market eligibility
+ *
+ * Pre-trade checks on a market, each reported as pass, warn, fail or
+ * skipped with a reason: the protocol's verifyMarket checks (run as a
+ * call), resolution on the CTF, order book depth for the token to buy,
+ * and the scheduled close from market metadata. A market is eligible when
+ * no check fails; warnings are left to the integrator.
+ */
+
+const SEVERITY: EligibilityStatus[] = ['skipped', 'pass', 'warn', 'fail'];
+
+/**
+ * Asks to buy into and bids to sell back to. Depth counts the asks priced
+ * up to `maxSlippageBps` above the best ask.
+ */
+export function assessOrderBook(
+  book: OrderBook,
+  tokenId: string,
+  maxSlippageBps: number,
+  capitalUSDC?: number
+): { check: EligibilityCheck; bestAsk: number | null; bestBid: number | null; askDepthUSDC: number } {
+  const asks = book.asks || [];
+  const bids = book.bids || [];
+  const bestAsk = asks.length > 0 ? asks[0].price : null;
+  const bestBid = bids.length > 0 ? bids[0].price : null;
+  const limit = (bestAsk ?? 0) * (1 + maxSlippageBps / 10_000) + 1e-12;
+  const askDepthUSDC = asks
+    .filter(level => level.price <= limit)
+    .reduce((total, level) => total + level.price * level.size, 0);
+
+  const issues: { status: EligibilityStatus; reason: string }[] = [];
+  if (bestAsk === null) {
+    issues.push({ status: 'fail', reason: `no asks for token ${tokenId}` });
+  } else if (capitalUSDC !== undefined && askDepthUSDC < capitalUSDC) {
+    issues.push({
+      status: 'fail',
+      reason: `$${askDepthUSDC.toFixed(2)} of asks within ${maxSlippageBps}bps of ${bestAsk}, need $${capitalUSDC.toFixed(2)}`,
+    });
+  }
+  if (bestBid === null) {
+    issues.push({ status: 'warn', reason: `no bids for token ${tokenId}: the position could not be sold back or valued` });
+  }
+  return { check: combine('orderBook', issues), bestAsk, bestBid, askDepthUSDC };
+}
+
+/**
+ * Whether the market still trades and the term ends before it closes
+ */
+export function assessMarketClose(
+  metadata: MarketMetadata | null,
+  now: number,
+  timeframeSeconds: number
+): EligibilityCheck {
+  if (!metadata) {
+    return { name: 'marketClose', status: 'skipped', reason: 'no market metadata' };
+  }
+  if (metadata.closed) {
+    return { name: 'marketClose', status: 'fail', reason: 'market is closed for trading' };
+  }
+  if (metadata.active === false) {
+    return { name: 'marketClose', status: 'fail', reason: 'market is not active' };
+  }
+  if (metadata.endDate === undefined) {
+    return { name: 'marketClose', status: 'skipped', reason: 'market metadata has no end date' };
+  }
+
+  const endDate = new Date(metadata.endDate * 1000).toISOString();
+  if (metadata.endDate <= now) {
+    return { name: 'marketClose', status: 'fail', reason: `market closed at ${endDate}` };
+  }
+  const overrun = now + timeframeSeconds - metadata.endDate;
+  if (overrun > 0) {
+    return {
+      name: 'marketClose',
+      status: 'warn',
+      reason: `timeframeSeconds runs ${formatHours(overrun)} past market close at ${endDate}`,
+    };
+  }
+  return { name: 'marketClose', status: 'pass' };
+}
+
+/**
+ * One check from several findings: the worst status, every reason
+ */
+function combine(name: EligibilityCheck['name'], issues: { status: EligibilityStatus; reason: string }[]): EligibilityCheck {
+  if (issues.length === 0) {
+    return { name, status: 'pass' };
+  }
+  const status = issues.reduce<EligibilityStatus>(
+    (worst, issue) => SEVERITY.indexOf(issue.status) > SEVERITY.indexOf(worst) ? issue.status : worst,
+    'pass'
+  );
+  return { name, status, reason: issues.map(issue => issue.reason).join('; ') };
+}
+
+function formatHours(seconds: number): string {
+  return seconds >= 3600 ? `${(seconds / 3600).toFixed(1)}h` : `${Math.max(1, Math.round(seconds / 60))}m`;
+}
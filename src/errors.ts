@@ -1,20 +1,111 @@
-export class ValidationError extends Error {
-  constructor(message: string) {
+/**
+ * SDK errors
+ *
+ * Every error the SDK throws on purpose is a ForecastError subclass with a
+ * stable `code`, a `retryable` hint (the same call may succeed later,
+ * unchanged), the underlying `cause`, and `context` describing what had
+ * already executed when it failed. Integrators branch on `code`, never on
+ * the message text.
+ */
+
+export type ErrorCode =
+  | 'INVALID_PARAMS'               // Bad input; fix it and resubmit
+  | 'INSUFFICIENT_BALANCE'         // Wallet USDC (or gas) too low
+  | 'INSUFFICIENT_ALLOWANCE'       // Protocol not approved to move the wallet's USDC or tokens
+  | 'MARKET_INVALID'               // Market unknown, unverified or resolved
+  | 'NO_BOOK_LIQUIDITY'            // No asks/bids to trade against
+  | 'INVALID_ORDER'                // Order price/size refused before posting
+  | 'ORDER_REJECTED'               // Exchange refused the order
+  | 'ORDER_NOT_FOUND'
+  | 'FILL_TIMEOUT'                 // Buy did not fill in time
+  | 'SLIPPAGE_EXCEEDED'            // Sale could not fill above the slippage limit
+  | 'PROTOCOL_PAUSED'
+  | 'INSUFFICIENT_POOL_LIQUIDITY'  // Senior/junior pools cannot fund the leg
+  | 'LEG_NOT_FOUND'
+  | 'REVERTED'                     // Transaction reverted or failed
+  | 'RPC_ERROR'                    // Network or provider failure
+  | 'UNKNOWN';
+
+const RETRYABLE_CODES: ErrorCode[] = [
+  'NO_BOOK_LIQUIDITY',
+  'ORDER_REJECTED',
+  'FILL_TIMEOUT',
+  'SLIPPAGE_EXCEEDED',
+  'PROTOCOL_PAUSED',
+  'INSUFFICIENT_POOL_LIQUIDITY',
+  'RPC_ERROR',
+];
+
+export interface ErrorContext {
+  executionId?: string;            // PositionStore record of the run that failed
+  legIdsOpened?: bigint[];         // Legs already open on-chain when it failed
+  usdcBorrowed?: number;           // USDC borrowed by those legs
+  legId?: bigint;                  // Leg being opened or closed
+  orderId?: string;
+  tokenId?: string;
+}
+
+export interface ForecastErrorOptions {
+  code?: ErrorCode;
+  retryable?: boolean;             // Default: derived from code
+  cause?: unknown;                 // Underlying error (revert, RPC, exchange)
+  context?: ErrorContext;
+}
+
+export class ForecastError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+  context: ErrorContext;
+
+  constructor(message: string, options: ForecastErrorOptions = {}, defaultCode: ErrorCode = 'UNKNOWN') {
     super(message);
+    this.name = 'ForecastError';
+    this.code = options.code || defaultCode;
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(this.code);
+    this.cause = options.cause;
+    this.context = { ...options.context };
+  }
+}
+
+export class ValidationError extends ForecastError {
+  constructor(message: string, options: ForecastErrorOptions = {}) {
+    super(message, options, 'INVALID_PARAMS');
     this.name = 'ValidationError';
   }
 }
 
-export class PolymarketError extends Error {
-  constructor(message: string) {
-    super(message);
+export class PolymarketError extends ForecastError {
+  constructor(message: string, options: ForecastErrorOptions = {}) {
+    super(message, options, 'ORDER_REJECTED');
     this.name = 'PolymarketError';
   }
 }
 
-export class ProtocolError extends Error {
-  constructor(message: string) {
-    super(message);
+export class ProtocolError extends ForecastError {
+  constructor(message: string, options: ForecastErrorOptions = {}) {
+    super(message, options, 'REVERTED');
     this.name = 'ProtocolError';
   }
 }
+
+/**
+ * Code for a raw contract or RPC failure (ethers error, revert string)
+ */
+export function classifyRevert(error: any): ErrorCode {
+  if (['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR'].includes(error?.code)) {
+    return 'RPC_ERROR';
+  }
+  if (error?.code === 'INSUFFICIENT_FUNDS') {
+    return 'INSUFFICIENT_BALANCE';
+  }
+
+  const reason = `${error?.reason || ''} ${error?.message || ''}`.toLowerCase();
+  if (reason.includes('paused')) return 'PROTOCOL_PAUSED';
+  // ERC20/ERC1155 reverts: OpenZeppelin 4 strings and 5 custom error names
+  if (/exceeds allowance|insufficient ?allowance|missing ?approval|not (token )?owner (nor|or) approved/.test(reason)) return 'INSUFFICIENT_ALLOWANCE';
+  if (/exceeds balance|insufficient ?balance|insufficient funds/.test(reason)) return 'INSUFFICIENT_BALANCE';
+  if (/insufficient (senior|junior) liquidity/.test(reason)) return 'INSUFFICIENT_POOL_LIQUIDITY';
+  if (reason.includes('not verified') || reason.includes('resolved') || reason.includes('not prepared')) return 'MARKET_INVALID';
+  return 'REVERTED';
+}
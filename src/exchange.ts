@@ -0,0 +1,271 @@
+import { ClobClient, OrderType, Side } from "@polymarket/clob-client";
+import { Wallet } from "@ethersproject/wallet";
+import { TypedDataSigner } from "./signer";
+import { ClobApiCredentials, ClobSignatureType } from "./config";
+import { PolymarketError } from "./errors";
+
+/**
+ * Exchange adapter
+ *
+ * The SDK never talks to an order book directly. Every read and write
+ * goes through an ExchangeAdapter, so the leverage loop can run against
+ * the live Polymarket CLOB (ClobExchangeAdapter, the default) or a
+ * scripted book (InMemoryExchange) in tests and staging.
+ */
+
+export type OrderSide = 'BUY' | 'SELL';
+export type ExchangeOrderType = 'FOK' | 'GTC' | 'GTD';
+export type ExchangeOrderStatus = 'LIVE' | 'MATCHED' | 'CANCELLED' | 'REJECTED';
+
+export interface OrderBookLevel {
+  price: number;                   // Price per token (0.40 = 40¢)
+  size: number;                    // Tokens available at this price
+}
+
+export interface OrderBook {
+  tokenId: string;
+  bids: OrderBookLevel[];          // Best (highest) bid first
+  asks: OrderBookLevel[];          // Best (lowest) ask first
+}
+
+export interface OrderRequest {
+  tokenId: string;
+  side: OrderSide;
+  price: number;                   // Limit price
+  size: number;                    // Size in tokens
+  orderType: ExchangeOrderType;
+}
+
+export interface ExchangeOrder {
+  orderId: string;
+  tokenId: string;
+  side: OrderSide;
+  price: number;                   // Limit price
+  originalSize: number;            // Size requested in tokens
+  sizeMatched: number;             // Size filled so far in tokens
+  avgFillPrice: number;            // Average execution price (limit price if unknown)
+  status: ExchangeOrderStatus;
+}
+
+export interface ExchangeAdapter {
+  /** One-time initialization (API keys, sessions). Must be idempotent. */
+  setup(): Promise<void>;
+  getOrderBook(tokenId: string): Promise<OrderBook>;
+  /** Posts a limit order and returns its order ID. */
+  postOrder(request: OrderRequest): Promise<string>;
+  getOrder(orderId: string): Promise<ExchangeOrder>;
+  cancelOrder(orderId: string): Promise<void>;
+  /** Sells tokens into the bid side, never below `minPrice`. Returns the resulting order. */
+  sell(tokenId: string, size: number, minPrice: number): Promise<ExchangeOrder>;
+}
+
+const SELL_FILL_TIMEOUT_MS = 10_000; // Time a sell may rest before the remainder is cancelled
+const ORDER_POLL_INTERVAL_MS = 1000;
+
+export interface BookWalk {
+  filled: number;                  // Tokens bought (asks) or sold (bids)
+  notional: number;                // USDC paid (asks) or received (bids)
+  avgPrice: number;                // Depth-weighted execution price (0 if nothing filled)
+  worstPrice: number;              // Deepest level touched (0 if nothing filled)
+  unfilled: number;                // Amount the book could not absorb, in input units
+  levels: OrderBookLevel[];        // Book side left after the walk
+}
+
+/**
+ * Walk one side of the book without mutating it.
+ *
+ * - Asks: `amount` is USDC to spend, `filled` is tokens bought
+ * - Bids: `amount` is tokens to sell, `filled` is tokens sold
+ */
+export function walkBook(levels: OrderBookLevel[], amount: number, side: 'asks' | 'bids'): BookWalk {
+  const remainingLevels = levels.map(level => ({ ...level }));
+  let remaining = amount;
+  let filled = 0;
+  let notional = 0;
+  let worstPrice = 0;
+
+  while (remaining > 1e-9 && remainingLevels.length > 0) {
+    const level = remainingLevels[0];
+    const levelCapacity = side === 'asks' ? level.size * level.price : level.size;
+    const taken = Math.min(remaining, levelCapacity);
+    const tokens = side === 'asks' ? taken / level.price : taken;
+
+    filled += tokens;
+    notional += tokens * level.price;
+    worstPrice = level.price;
+    remaining -= taken;
+    level.size -= tokens;
+    if (level.size <= 1e-9) {
+      remainingLevels.shift();
+    }
+  }
+
+  return {
+    filled,
+    notional,
+    avgPrice: filled > 0 ? notional / filled : 0,
+    worstPrice,
+    unfilled: Math.max(0, remaining),
+    levels: remainingLevels,
+  };
+}
+
+/**
+ * Default adapter backed by the Polymarket CLOB client.
+ */
+export class ClobExchangeAdapter implements ExchangeAdapter {
+  private client: ClobClient | null = null;
+
+  constructor(
+    private host: string,
+    private chainId: number,
+    private signer: TypedDataSigner,
+    private funderAddress: string,
+    private signatureType: ClobSignatureType = 1,
+    private creds?: ClobApiCredentials
+  ) {}
+
+  /**
+   * Create or derive API credentials (unless given) and initialize the authenticated client.
+   */
+  async setup(): Promise<void> {
+    if (this.client) {
+      return; // Already set up
+    }
+
+    // clob-client is typed for Wallet/JsonRpcSigner but only calls getAddress() and _signTypedData()
+    const signer = this.signer as Wallet;
+
+    // Create or derive API key
+    const creds = this.creds || await new ClobClient(
+      this.host,
+      this.chainId,
+      signer
+    ).createOrDeriveApiKey();
+
+    // Initialize authenticated client
+    this.client = new ClobClient(
+      this.host,
+      this.chainId,
+      signer,
+      creds,
+      this.signatureType,
+      this.funderAddress
+    );
+  }
+
+  async getOrderBook(tokenId: string): Promise<OrderBook> {
+    const book = await this.getClient().getOrderBook(tokenId);
+    const toLevel = (level: { price: string; size: string }): OrderBookLevel => ({
+      price: parseFloat(level.price),
+      size: parseFloat(level.size),
+    });
+
+    return {
+      tokenId,
+      bids: (book.bids || []).map(toLevel).sort((a, b) => b.price - a.price),
+      asks: (book.asks || []).map(toLevel).sort((a, b) => a.price - b.price),
+    };
+  }
+
+  async postOrder(request: OrderRequest): Promise<string> {
+    // Note: FOK exists in runtime but not in createAndPostOrder's types as of clob-client v4.22.7
+    // We use GTC for FOK as it's the most compatible option
+    const pmOrderType = request.orderType === 'GTD' ? OrderType.GTD : OrderType.GTC;
+
+    const order = await this.getClient().createAndPostOrder(
+      {
+        tokenID: request.tokenId,
+        price: request.price,
+        side: request.side === 'BUY' ? Side.BUY : Side.SELL,
+        size: request.size,
+        feeRateBps: 0,
+      },
+      { tickSize: "0.001", negRisk: false },
+      pmOrderType
+    );
+
+    if (!order || !order.orderID) {
+      throw new PolymarketError('Failed to create order: no order ID returned');
+    }
+
+    return order.orderID;
+  }
+
+  async getOrder(orderId: string): Promise<ExchangeOrder> {
+    const order: any = await this.getClient().getOrder(orderId);
+    const originalSize = parseFloat(order.original_size || order.size || '0');
+    const sizeMatched = parseFloat(order.size_matched || '0');
+    const price = parseFloat(order.price || '0');
+
+    let status: ExchangeOrderStatus = 'LIVE';
+    if (order.status === 'MATCHED' ||
+        order.associate_trades?.some((t: any) => t.status === 'CONFIRMED')) {
+      status = 'MATCHED';
+    } else if (order.status === 'CANCELLED' || order.status === 'CANCELED') {
+      status = 'CANCELLED';
+    } else if (order.status === 'REJECTED') {
+      status = 'REJECTED';
+    }
+
+    return {
+      orderId,
+      tokenId: order.asset_id,
+      side: order.side === 'SELL' ? 'SELL' : 'BUY',
+      price,
+      originalSize,
+      // A matched order without a reported size is treated as fully filled
+      sizeMatched: status === 'MATCHED' && sizeMatched === 0 ? originalSize : sizeMatched,
+      avgFillPrice: price,
+      status,
+    };
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    await this.getClient().cancelOrder({ orderID: orderId });
+  }
+
+  /**
+   * postOrder sends FOK as GTC, so the sale is polled until it matches or
+   * `timeoutMs` passes and any remainder is cancelled: no sell is left
+   * resting on the book. Returns the order with its final `sizeMatched`.
+   */
+  async sell(tokenId: string, size: number, minPrice: number, timeoutMs: number = SELL_FILL_TIMEOUT_MS): Promise<ExchangeOrder> {
+    const orderId = await this.postOrder({
+      tokenId,
+      side: 'SELL',
+      price: minPrice,
+      size,
+      orderType: 'FOK',
+    });
+
+    const deadline = Date.now() + timeoutMs;
+    let order = await this.getOrder(orderId);
+    while (order.status === 'LIVE' && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, ORDER_POLL_INTERVAL_MS));
+      order = await this.getOrder(orderId);
+    }
+    if (order.status !== 'LIVE') {
+      return order;
+    }
+
+    try {
+      await this.cancelOrder(orderId);
+    } catch (error: any) {
+      throw new PolymarketError(`Failed to cancel unfilled sell order ${orderId}: ${error.message}`, {
+        cause: error,
+        context: { orderId, tokenId },
+      });
+    }
+    // Fills that landed before the cancel still count
+    const cancelled = await this.getOrder(orderId);
+    return { ...cancelled, status: 'CANCELLED' };
+  }
+
+  private getClient(): ClobClient {
+    if (!this.client) {
+      throw new PolymarketError('Polymarket client not initialized. Call setupPolymarket() first.');
+    }
+    return this.client;
+  }
+}
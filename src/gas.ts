@@ -0,0 +1,101 @@
+import { ethers } from "ethers";
+import { ValidationError } from "./errors";
+import { GasAction } from "./protocol";
+
+/**
+ * Gas pricing
+ *
+ * Fee reports price gas from gas units (estimateGas before a transaction,
+ * the receipt after it) times the gas price, which gives the cost in the
+ * chain's gas token (POL on Polygon). A GasTokenPriceSource converts that
+ * to USD: a fixed price, a Chainlink feed, or any callback.
+ */
+
+export interface GasTokenPriceSource {
+  /** USD per whole gas token */
+  getPriceUSD(): Promise<number>;
+}
+
+/**
+ * Gas units assumed when estimateGas reverts, e.g. for an open simulated
+ * before its tokens are bought, or a close the wallet cannot fund yet
+ */
+export const DEFAULT_GAS_UNITS: Record<GasAction, number> = {
+  approveUsdc: 60_000,
+  approveCtf: 50_000,
+  open: 500_000,
+  close: 200_000,
+  deposit: 120_000,
+  withdraw: 110_000,
+  redeem: 110_000,
+  depositJunior: 120_000,
+  withdrawJunior: 110_000,
+  claimJuniorRewards: 100_000,
+};
+
+const CHAINLINK_AGGREGATOR_ABI = [
+  "function decimals() external view returns (uint8)",
+  "function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+/**
+ * Always the same price, e.g. 0 on testnets or a price the app already tracks
+ */
+export function fixedGasTokenPrice(priceUSD: number): GasTokenPriceSource {
+  if (!Number.isFinite(priceUSD) || priceUSD < 0) {
+    throw new ValidationError(`Invalid gas token price: ${priceUSD} (must be a non-negative number)`);
+  }
+  return { getPriceUSD: async () => priceUSD };
+}
+
+/**
+ * Price from a callback (price API, app cache); called once per fee report
+ */
+export function callbackGasTokenPrice(callback: () => number | Promise<number>): GasTokenPriceSource {
+  return {
+    getPriceUSD: async () => {
+      const price = await callback();
+      if (!Number.isFinite(price) || price < 0) {
+        throw new Error(`Gas token price callback returned ${price}`);
+      }
+      return price;
+    },
+  };
+}
+
+/**
+ * Price from a Chainlink gas-token/USD aggregator. Answers older than
+ * `maxAgeSeconds` are rejected rather than reported as current.
+ */
+export function chainlinkGasTokenPrice(
+  feedAddress: string,
+  provider: ethers.providers.Provider,
+  maxAgeSeconds: number = 3600
+): GasTokenPriceSource {
+  const feed = new ethers.Contract(feedAddress, CHAINLINK_AGGREGATOR_ABI, provider);
+  let decimals: number | undefined;
+
+  return {
+    getPriceUSD: async () => {
+      if (decimals === undefined) {
+        decimals = Number(await feed.decimals());
+      }
+      const round = await feed.latestRoundData();
+      if (round.answer.lte(0)) {
+        throw new Error(`Chainlink feed ${feedAddress} returned ${round.answer.toString()}`);
+      }
+      const age = Date.now() / 1000 - round.updatedAt.toNumber();
+      if (age > maxAgeSeconds) {
+        throw new Error(`Chainlink feed ${feedAddress} is stale (updated ${Math.round(age)}s ago)`);
+      }
+      return parseFloat(ethers.utils.formatUnits(round.answer, decimals));
+    },
+  };
+}
+
+/**
+ * Wei to whole gas tokens
+ */
+export function toGasToken(wei: bigint): number {
+  return parseFloat(ethers.utils.formatEther(wei));
+}
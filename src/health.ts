@@ -0,0 +1,236 @@
+import { ValidationError } from "./errors";
+import { LegData } from "./protocol";
+import { Logger } from "./logger";
+import {
+  HealthMonitorOptions,
+  HealthStatus,
+  HealthThresholds,
+  LegHealth,
+  PositionHealth,
+} from "./types";
+
+/**
+ * Position health
+ *
+ * A leg owes its principal (F per set) plus senior and junior interest
+ * accruing at R = rS + rJ, against $1 of collateral per set (the escrowed
+ * long and short tokens merge for $1). Two clocks run down: the term,
+ * after which anyone can auto-close the leg, and the runway,
+ * (1 - F) / (F * R) * year from opening, after which the interest would
+ * exceed the collateral.
+ */
+
+const YEAR = 365 * 24 * 3600;
+const SEVERITY: HealthStatus[] = ['healthy', 'warning', 'critical', 'expired'];
+
+/**
+ * Fill in default thresholds and check they are ordered
+ *
+ * @throws {ValidationError} If a threshold is out of range
+ */
+export function resolveHealthThresholds(thresholds: HealthThresholds = {}): Required<HealthThresholds> {
+  const resolved = {
+    warningTimeLeft: thresholds.warningTimeLeft ?? 0.25,
+    criticalTimeLeft: thresholds.criticalTimeLeft ?? 0.10,
+    warningEquityUSD: thresholds.warningEquityUSD ?? 0,
+    criticalEquityUSD: thresholds.criticalEquityUSD ?? -Infinity,
+  };
+
+  if (!(resolved.criticalTimeLeft >= 0 && resolved.criticalTimeLeft <= resolved.warningTimeLeft && resolved.warningTimeLeft <= 1)) {
+    throw new ValidationError(
+      `Invalid time thresholds: critical ${resolved.criticalTimeLeft}, warning ${resolved.warningTimeLeft} (must be 0 <= critical <= warning <= 1)`
+    );
+  }
+  if (!(resolved.criticalEquityUSD <= resolved.warningEquityUSD)) {
+    throw new ValidationError(
+      `Invalid equity thresholds: critical $${resolved.criticalEquityUSD}, warning $${resolved.warningEquityUSD} (critical must not exceed warning)`
+    );
+  }
+  return resolved;
+}
+
+/**
+ * What closing a leg at chain time `now` repays: principal plus interest
+ * so far, which stops accruing at the end of the term
+ */
+export function legDebt(leg: LegData, now: number): { principal: number; accruedInterest: number } {
+  const principal = Number(leg.sets) * Number(leg.F_e18) / 1e18;
+  const R = (Number(leg.rS_e18) + Number(leg.rJ_e18)) / 1e18;
+  const elapsed = Math.min(Math.max(0, now - leg.opened), leg.term);
+  return { principal, accruedInterest: principal * R * elapsed / YEAR };
+}
+
+/**
+ * Health of one leg at chain time `now`, with its tokens marked at `mark`
+ */
+export function assessLeg(
+  legId: bigint,
+  leg: LegData,
+  now: number,
+  mark: number,
+  thresholds: Required<HealthThresholds>
+): { health: LegHealth; reason?: string } {
+  const sets = Number(leg.sets);
+  const F = Number(leg.F_e18) / 1e18;
+  const R = (Number(leg.rS_e18) + Number(leg.rJ_e18)) / 1e18;
+  const elapsed = Math.max(0, now - leg.opened);
+
+  const { principal, accruedInterest } = legDebt(leg, now);
+  const debt = principal + accruedInterest;
+  const runway = F > 0 && R > 0 ? (1 - F) / (F * R) * YEAR : Infinity;
+
+  const health: LegHealth = {
+    legId,
+    sets,
+    principal,
+    accruedInterest,
+    debt,
+    collateralUsed: sets > 0 ? debt / sets : 0,
+    timeToAutoClose: Math.max(0, leg.opened + leg.term - now),
+    runwayRemaining: Math.max(0, runway - elapsed),
+    equity: sets * mark - debt,
+    status: 'healthy',
+  };
+
+  if (health.timeToAutoClose === 0) {
+    health.status = 'expired';
+    return { health, reason: `leg ${legId} is past its term and can be auto-closed` };
+  }
+
+  const runwayFirst = health.runwayRemaining < health.timeToAutoClose;
+  const timeLeft = Math.min(health.timeToAutoClose, health.runwayRemaining);
+  if (timeLeft <= thresholds.criticalTimeLeft * leg.term) {
+    health.status = 'critical';
+  } else if (timeLeft <= thresholds.warningTimeLeft * leg.term) {
+    health.status = 'warning';
+  } else {
+    return { health };
+  }
+  const reason = runwayFirst
+    ? `leg ${legId} runs out of collateral runway in ${formatDuration(timeLeft)}`
+    : `leg ${legId} auto-closes in ${formatDuration(timeLeft)}`;
+  return { health, reason };
+}
+
+/**
+ * Aggregate leg readings into a position reading
+ */
+export function summarizeHealth(
+  legs: { health: LegHealth; reason?: string }[],
+  closedLegIds: bigint[],
+  timestamp: number,
+  mark: number,
+  carriedLoan: number,
+  thresholds: Required<HealthThresholds>
+): PositionHealth {
+  const sum = (pick: (leg: LegHealth) => number) => legs.reduce((total, leg) => total + pick(leg.health), 0);
+  const reasons = legs.filter(leg => leg.reason).map(leg => leg.reason!);
+  let status = legs.reduce<HealthStatus>((worst, leg) => worse(worst, leg.health.status), 'healthy');
+
+  const equity = sum(leg => leg.equity) + carriedLoan;
+  if (legs.length > 0 && equity <= thresholds.criticalEquityUSD) {
+    status = worse(status, 'critical');
+    reasons.push(`equity $${equity.toFixed(2)} at or below $${thresholds.criticalEquityUSD}`);
+  } else if (legs.length > 0 && equity < thresholds.warningEquityUSD) {
+    status = worse(status, 'warning');
+    reasons.push(`equity $${equity.toFixed(2)} below $${thresholds.warningEquityUSD}`);
+  }
+
+  return {
+    legs: legs.map(leg => leg.health),
+    closedLegIds,
+    timestamp,
+    mark,
+    accruedInterest: sum(leg => leg.accruedInterest),
+    debt: sum(leg => leg.debt),
+    carriedLoan,
+    equity,
+    timeToAutoClose: legs.length > 0 ? Math.min(...legs.map(leg => leg.health.timeToAutoClose)) : 0,
+    runwayRemaining: legs.length > 0 ? Math.min(...legs.map(leg => leg.health.runwayRemaining)) : 0,
+    status,
+    reasons,
+  };
+}
+
+/**
+ * Polls a position's health and reports status changes. The first reading
+ * is taken immediately; the monitor stops by itself once every leg is closed.
+ */
+export class HealthMonitor {
+  /** Most recent successful reading */
+  last?: PositionHealth;
+  private status: HealthStatus | null = null;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = true;
+
+  constructor(
+    private check: () => Promise<PositionHealth>,
+    private options: HealthMonitorOptions,
+    private logger: Logger
+  ) {
+    this.schedule(0);
+  }
+
+  get stopped(): boolean {
+    return !this.running;
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.running) {
+      this.timer = setTimeout(() => this.poll(), delayMs);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const health = await this.check();
+      if (!this.running) return;
+
+      this.last = health;
+      this.notify('onHealth', () => this.options.onHealth?.(health));
+      if (health.status !== this.status && (this.status !== null || health.status !== 'healthy')) {
+        const previous = this.status;
+        this.logger.info(`Health ${previous ?? 'unknown'} → ${health.status}`, { component: 'Health', reasons: health.reasons });
+        this.notify('onAlert', () => this.options.onAlert?.({ status: health.status, previous, health }));
+      }
+      this.status = health.status;
+
+      if (health.legs.length === 0) {
+        this.logger.info('All legs closed, stopping health monitor', { component: 'Health' });
+        this.stop();
+        return;
+      }
+    } catch (error: any) {
+      this.logger.warn('Health check failed', { component: 'Health', error: error.message });
+      this.notify('onError', () => this.options.onError?.(error));
+    }
+    this.schedule(this.options.intervalMs ?? 60_000);
+  }
+
+  /**
+   * Run a listener; a throwing listener never stops the monitor
+   */
+  private notify(listener: string, call: () => void): void {
+    try {
+      call();
+    } catch (error: any) {
+      this.logger.warn(`${listener} threw`, { component: 'Health', error: error.message });
+    }
+  }
+}
+
+function worse(a: HealthStatus, b: HealthStatus): HealthStatus {
+  return SEVERITY.indexOf(a) >= SEVERITY.indexOf(b) ? a : b;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds >= 3600) {
+    return `${(seconds / 3600).toFixed(1)}h`;
+  }
+  return `${Math.max(1, Math.round(seconds / 60))}m`;
+}
@@ -1,3 +1,124 @@
 export { ForecastLeverageSDK } from './sdk';
-export type { TargetPositionParams, LeveragePosition, LeverageParams } from './types';
-export { ValidationError, PolymarketError, ProtocolError } from './errors';
+export type { ForecastLeverageSDKOptions, ForecastLeverageSDKConfig } from './sdk';
+export { NETWORKS, resolveNetworkConfig } from './config';
+export type {
+  ClobApiCredentials,
+  ClobSignatureType,
+  NetworkConfig,
+  NetworkName,
+  NetworkPreset,
+  ResolvedNetworkConfig,
+} from './config';
+export type {
+  TargetPositionParams,
+  LeveragePositionParams,
+  RiskBudgetParams,
+  RiskSizing,
+  LeveragePosition,
+  LeverageParams,
+  SimulatedLoop,
+  DepthSimulation,
+  ReduceOptions,
+  ExecutionStatus,
+  ExecutionSummary,
+  ResumeOptions,
+  OpenOptions,
+  OpenProgressEvent,
+  OrderProgressEvent,
+  PositionQueryOptions,
+  RecoveredLeg,
+  RecoveredPosition,
+  UnwindOptions,
+  UnwoundLeg,
+  UnwindReport,
+  GasFees,
+  HealthStatus,
+  HealthThresholds,
+  LegHealth,
+  PositionHealth,
+  HealthAlert,
+  HealthMonitorOptions,
+  ExitRule,
+  ExitTriggers,
+  ExitTriggerEvent,
+  PositionExit,
+  ExitMonitorOptions,
+  ValuationOptions,
+  MarkValuation,
+  PositionValuation,
+  KeeperOptions,
+  KeeperClosedLeg,
+  KeeperFailedLeg,
+  KeeperRunReport,
+  SeniorVaultStats,
+  SeniorVaultPosition,
+  VaultTransaction,
+  JuniorStakePosition,
+  JuniorStakeTransaction,
+  JuniorRewardClaim,
+  JuniorYieldOptions,
+  JuniorYieldReport,
+  MarketEligibilityParams,
+  EligibilityCheckName,
+  EligibilityStatus,
+  EligibilityCheck,
+  MarketEligibilityReport,
+} from './types';
+export { HealthMonitor } from './health';
+export { ExitMonitor } from './triggers';
+export { Keeper } from './keeper';
+export { SeniorVault, JuniorStaking } from './lender';
+export { DEFAULT_GAS_UNITS, fixedGasTokenPrice, callbackGasTokenPrice, chainlinkGasTokenPrice } from './gas';
+export type { GasTokenPriceSource } from './gas';
+export { staticMarketMetadata, callbackMarketMetadata, gammaMarketMetadata } from './metadata';
+export type { MarketMetadata, MarketMetadataSource } from './metadata';
+export { RemoteSigner } from './signer';
+export type { Eip1193Provider, EthersV6Signer, SignerInput } from './signer';
+export { ForecastError, ValidationError, PolymarketError, ProtocolError, classifyRevert } from './errors';
+export type { ErrorCode, ErrorContext, ForecastErrorOptions } from './errors';
+export { ClobExchangeAdapter, walkBook } from './exchange';
+export type {
+  BookWalk,
+  ExchangeAdapter,
+  ExchangeOrder,
+  ExchangeOrderStatus,
+  ExchangeOrderType,
+  OrderBook,
+  OrderBookLevel,
+  OrderRequest,
+  OrderSide,
+} from './exchange';
+export { InMemoryExchange } from './memoryExchange';
+export type { InMemoryExchangeOptions } from './memoryExchange';
+export { ContractProtocolBackend } from './protocol';
+export type {
+  ProtocolBackend,
+  ProtocolQuote,
+  LegData,
+  LegEvent,
+  OpenLegResult,
+  GasAction,
+  GasCall,
+  ApprovalKind,
+  ApprovalTx,
+  VaultTotals,
+  VaultLimits,
+  VaultPreview,
+  VaultTxResult,
+  JuniorPoolTotals,
+  JuniorStake,
+} from './protocol';
+export { InMemoryProtocol } from './memoryProtocol';
+export type { InMemoryProtocolConfig, InMemoryMarketConfig, InMemoryProtocolEvent } from './memoryProtocol';
+export { InMemoryLedger } from './memoryLedger';
+export { InMemoryPositionStore, JsonFilePositionStore } from './positionStore';
+export type {
+  PositionStore,
+  PositionRecord,
+  PositionRecordStatus,
+  LegRecord,
+  OrderFillRecord,
+  OpenCheckpoint,
+} from './positionStore';
+export { silentLogger, consoleLogger } from './logger';
+export type { Logger, LogLevel, LogFields } from './logger';
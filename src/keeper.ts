@@ -0,0 +1,278 @@
+import { ethers } from "ethers";
+import { ForecastError, ProtocolError, ValidationError, classifyRevert } from "./errors";
+import { LegData, ProtocolBackend } from "./protocol";
+import { Logger } from "./logger";
+import { toGasToken } from "./gas";
+import { KeeperOptions, KeeperRunReport } from "./types";
+
+/**
+ * Keeper
+ *
+ * Once a leg's term has passed or its market has resolved, anyone may
+ * close it: the escrowed set is merged for $1, the pools are repaid and
+ * the surplus goes to the borrower. The Keeper tracks open legs from
+ * LegOpened/LegClosed logs, for one borrower or protocol-wide, and closes
+ * the ones that are due in batches bounded by leg count and estimated gas.
+ * A leg whose close fails is retried with exponential backoff.
+ *
+ * runOnce() does a single pass (for cron jobs); start() keeps running
+ * every `intervalMs` as a long-lived process.
+ */
+
+interface DueLeg {
+  legId: bigint;
+  leg: LegData;
+  reason: 'expired' | 'resolved';
+}
+
+type KeeperSettings = Required<Omit<KeeperOptions, 'borrower' | 'maxGasPriceGwei' | 'onReport' | 'onError'>>;
+
+export class Keeper {
+  private settings: KeeperSettings;
+  private borrower?: string;
+  private maxGasPrice?: bigint;
+  private openLegs = new Map<bigint, LegData>();
+  private failures = new Map<bigint, { attempts: number; retryAt: number }>();
+  private nextBlock: number;
+  private inFlight?: Promise<KeeperRunReport>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  private failedRuns = 0;
+
+  /**
+   * @throws {ValidationError} If an option is out of range
+   */
+  constructor(
+    private protocol: ProtocolBackend,
+    private logger: Logger,
+    private options: KeeperOptions = {},
+    private onLegClosed: (legId: bigint, txHash: string) => Promise<void> = async () => undefined
+  ) {
+    this.settings = {
+      fromBlock: options.fromBlock ?? 0,
+      blockRange: options.blockRange ?? 10_000,
+      intervalMs: options.intervalMs ?? 60_000,
+      maxLegsPerBatch: options.maxLegsPerBatch ?? 20,
+      maxGasPerBatch: options.maxGasPerBatch ?? 5_000_000,
+      gasLimitMultiplier: options.gasLimitMultiplier ?? 1.2,
+      retryBackoffMs: options.retryBackoffMs ?? 60_000,
+      maxBackoffMs: options.maxBackoffMs ?? 3_600_000,
+    };
+
+    const problems: string[] = [];
+    const { fromBlock, blockRange, intervalMs, maxLegsPerBatch, maxGasPerBatch, gasLimitMultiplier, retryBackoffMs, maxBackoffMs } = this.settings;
+    if (!Number.isInteger(fromBlock) || fromBlock < 0) problems.push(`fromBlock must be a block number, got ${fromBlock}`);
+    if (!Number.isInteger(blockRange) || blockRange < 1) problems.push(`blockRange must be >= 1, got ${blockRange}`);
+    if (!(intervalMs > 0)) problems.push(`intervalMs must be > 0, got ${intervalMs}`);
+    if (!Number.isInteger(maxLegsPerBatch) || maxLegsPerBatch < 1) problems.push(`maxLegsPerBatch must be >= 1, got ${maxLegsPerBatch}`);
+    if (!(maxGasPerBatch > 0)) problems.push(`maxGasPerBatch must be > 0, got ${maxGasPerBatch}`);
+    if (!(gasLimitMultiplier >= 1)) problems.push(`gasLimitMultiplier must be >= 1, got ${gasLimitMultiplier}`);
+    if (!(retryBackoffMs >= 0 && maxBackoffMs >= retryBackoffMs)) problems.push(`backoff must satisfy 0 <= retryBackoffMs <= maxBackoffMs`);
+    if (options.maxGasPriceGwei !== undefined && !(options.maxGasPriceGwei > 0)) problems.push(`maxGasPriceGwei must be > 0, got ${options.maxGasPriceGwei}`);
+    if (options.borrower !== undefined && !ethers.utils.isAddress(options.borrower)) problems.push(`borrower is not an address: ${options.borrower}`);
+    if (problems.length > 0) {
+      throw new ValidationError(`Invalid keeper options: ${problems.join('; ')}`);
+    }
+
+    this.borrower = options.borrower?.toLowerCase();
+    this.maxGasPrice = options.maxGasPriceGwei !== undefined
+      ? BigInt(Math.round(options.maxGasPriceGwei * 1e9))
+      : undefined;
+    this.nextBlock = fromBlock;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Run every `intervalMs` until stop(); failed runs are reported to
+   * `onError` and the next run is backed off
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  /**
+   * Scan new leg events, then close the legs that are due, up to the
+   * batch limits. Concurrent calls share one pass.
+   *
+   * @throws {ProtocolError} If log, leg or chain reads fail (failed closes are reported, not thrown)
+   */
+  async runOnce(): Promise<KeeperRunReport> {
+    if (!this.inFlight) {
+      this.inFlight = this.run().finally(() => { this.inFlight = undefined; });
+    }
+    return this.inFlight;
+  }
+
+  private async run(): Promise<KeeperRunReport> {
+    let report: KeeperRunReport;
+    let due: DueLeg[];
+    try {
+      const toBlock = await this.protocol.getBlockNumber();
+      await this.scan(toBlock);
+      const timestamp = await this.protocol.getBlockTimestamp();
+      due = await this.findDue(timestamp);
+      report = { timestamp, scannedToBlock: toBlock, tracked: this.openLegs.size, due: due.length, closed: [], failed: [], deferred: [] };
+
+      if (due.length > 0 && this.maxGasPrice !== undefined) {
+        const gasPrice = await this.protocol.getGasPrice();
+        if (gasPrice > this.maxGasPrice) {
+          report.deferred = due.map(entry => entry.legId);
+          report.skippedReason = `gas price ${ethers.utils.formatUnits(gasPrice, 'gwei')} gwei is above ${this.options.maxGasPriceGwei} gwei`;
+          this.logger.info(`Holding ${due.length} closes: ${report.skippedReason}`, { component: 'Keeper' });
+          return report;
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof ForecastError) {
+        throw error;
+      }
+      throw new ProtocolError(`Keeper scan failed: ${error.message}`, { code: classifyRevert(error), cause: error });
+    }
+
+    await this.closeBatch(due, report);
+    if (report.due > 0) {
+      this.logger.info(`Closed ${report.closed.length} of ${report.due} due legs (${report.failed.length} failed, ${report.deferred.length} deferred)`, { component: 'Keeper' });
+    }
+    return report;
+  }
+
+  /**
+   * Track LegOpened/LegClosed logs up to `toBlock`, one page at a time
+   */
+  private async scan(toBlock: number): Promise<void> {
+    for (let start = this.nextBlock; start <= toBlock; start += this.settings.blockRange) {
+      const end = Math.min(toBlock, start + this.settings.blockRange - 1);
+      for (const event of await this.protocol.getLegEvents(start, end)) {
+        if (event.name === 'LegOpened') {
+          const leg = await this.protocol.legs(event.legId);
+          if (!this.borrower || leg.borrower.toLowerCase() === this.borrower) {
+            this.openLegs.set(event.legId, leg);
+          }
+        } else {
+          this.openLegs.delete(event.legId);
+          this.failures.delete(event.legId);
+        }
+      }
+      // Progress survives a failed page
+      this.nextBlock = end + 1;
+    }
+  }
+
+  /**
+   * Open legs past their term or on a resolved market, earliest expiry first
+   */
+  private async findDue(timestamp: number): Promise<DueLeg[]> {
+    const resolved = new Map<string, boolean>();
+    const due: DueLeg[] = [];
+
+    for (const [legId, leg] of this.openLegs) {
+      if (leg.opened + leg.term <= timestamp) {
+        due.push({ legId, leg, reason: 'expired' });
+        continue;
+      }
+      const conditionId = leg.conditionId.toLowerCase();
+      if (!resolved.has(conditionId)) {
+        resolved.set(conditionId, await this.protocol.isResolved(leg.conditionId));
+      }
+      if (resolved.get(conditionId)) {
+        due.push({ legId, leg, reason: 'resolved' });
+      }
+    }
+
+    return due.sort((a, b) => (a.leg.opened + a.leg.term) - (b.leg.opened + b.leg.term));
+  }
+
+  /**
+   * Close due legs until the leg or gas budget of the run is used up
+   */
+  private async closeBatch(due: DueLeg[], report: KeeperRunReport): Promise<void> {
+    const multiplier = BigInt(Math.round(this.settings.gasLimitMultiplier * 100));
+    let batchGas = 0n;
+
+    for (const { legId, leg, reason } of due) {
+      const failure = this.failures.get(legId);
+      const attempted = report.closed.length + report.failed.length;
+      if ((failure && failure.retryAt > Date.now()) || attempted >= this.settings.maxLegsPerBatch) {
+        report.deferred.push(legId);
+        continue;
+      }
+
+      try {
+        const estimate = await this.protocol.estimateGas({ action: 'close', legId });
+        if (attempted > 0 && batchGas + estimate > BigInt(this.settings.maxGasPerBatch)) {
+          report.deferred.push(legId);
+          continue;
+        }
+        batchGas += estimate;
+
+        const txHash = await this.protocol.close(legId, estimate * multiplier / 100n);
+        this.openLegs.delete(legId);
+        this.failures.delete(legId);
+
+        let gasCost: number | undefined;
+        try {
+          gasCost = toGasToken(await this.protocol.getTransactionCost(txHash));
+        } catch (error: any) {
+          this.logger.warn(`No receipt for ${txHash}`, { component: 'Keeper', legId, error: error.message });
+        }
+        report.closed.push({ legId, borrower: leg.borrower, conditionId: leg.conditionId, reason, txHash, gasCost });
+        this.logger.info(`Closed ${reason} leg ${legId}`, { component: 'Keeper', legId, txHash });
+
+        try {
+          await this.onLegClosed(legId, txHash);
+        } catch (error: any) {
+          this.logger.warn(`Failed to record close of leg ${legId}`, { component: 'Keeper', legId, error: error.message });
+        }
+      } catch (error: any) {
+        const attempts = (failure?.attempts ?? 0) + 1;
+        const delayMs = Math.min(this.settings.maxBackoffMs, this.settings.retryBackoffMs * 2 ** (attempts - 1));
+        const retryAt = Date.now() + delayMs;
+        this.failures.set(legId, { attempts, retryAt });
+        report.failed.push({ legId, reason, code: classifyRevert(error), message: error.message, attempts, retryAt });
+        this.logger.warn(`Failed to close leg ${legId} (attempt ${attempts}), retrying in ${Math.round(delayMs / 1000)}s`, { component: 'Keeper', legId, error: error.message });
+      }
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.running) {
+      this.timer = setTimeout(() => this.tick(), delayMs);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    let delayMs = this.settings.intervalMs;
+    try {
+      const report = await this.runOnce();
+      this.failedRuns = 0;
+      this.notify('onReport', () => this.options.onReport?.(report));
+    } catch (error: any) {
+      this.failedRuns++;
+      delayMs = Math.min(this.settings.maxBackoffMs, this.settings.intervalMs * 2 ** this.failedRuns);
+      this.logger.warn(`Keeper run failed, next run in ${Math.round(delayMs / 1000)}s`, { component: 'Keeper', error: error.message });
+      this.notify('onError', () => this.options.onError?.(error));
+    }
+    this.schedule(delayMs);
+  }
+
+  /**
+   * Run a listener; a throwing listener never stops the keeper
+   */
+  private notify(listener: string, call: () => void): void {
+    try {
+      call();
+    } catch (error: any) {
+      this.logger.warn(`${listener} threw`, { component: 'Keeper', error: error.message });
+    }
+  }
+}
@@ -0,0 +1,444 @@
+import { ForecastError, PolymarketError, ProtocolError, ValidationError, classifyRevert } from "./errors";
+import { ExchangeAdapter } from "./exchange";
+import { ProtocolBackend, VaultTotals } from "./protocol";
+import { Logger } from "./logger";
+import {
+  JuniorRewardClaim,
+  JuniorStakePosition,
+  JuniorStakeTransaction,
+  JuniorYieldOptions,
+  JuniorYieldReport,
+  SeniorVaultPosition,
+  SeniorVaultStats,
+  VaultTransaction,
+} from "./types";
+
+/**
+ * Lender pools
+ *
+ * The senior pool is an ERC4626 vault on the protocol contract: lenders
+ * deposit USDC and receive fUSDC shares, borrowers' legs draw on the USDC
+ * it holds, and repaid interest raises the share price. Withdrawals are
+ * limited to the USDC not lent out.
+ *
+ * Junior pools hold staked outcome tokens, one pool per position ID, and
+ * lend them as the short side of borrowers' legs: staked YES tokens back
+ * LONG NO legs and vice versa. Junior interest is paid to stakers as fUSDC,
+ * pro rata to their stake.
+ *
+ * Amounts are whole USDC, fUSDC and outcome tokens (all 6 decimals on-chain).
+ */
+
+export class SeniorVault {
+  constructor(
+    private protocol: ProtocolBackend,
+    private account: () => Promise<string>,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Pool size, share price and utilization
+   *
+   * @throws {ProtocolError} If the vault cannot be read
+   */
+  async getStats(): Promise<SeniorVaultStats> {
+    return lenderCall('read senior vault', async () => vaultStats(await this.protocol.vaultTotals()));
+  }
+
+  /**
+   * USDC per fUSDC share
+   */
+  async sharePrice(): Promise<number> {
+    return (await this.getStats()).sharePrice;
+  }
+
+  /**
+   * Share of the pool's USDC lent to borrowers (0-1)
+   */
+  async utilization(): Promise<number> {
+    return (await this.getStats()).utilization;
+  }
+
+  /**
+   * fUSDC held by `account` (default: the signer), its value at the share
+   * price and how much can be taken out now
+   *
+   * @throws {ProtocolError} If the vault cannot be read
+   */
+  async getPosition(account?: string): Promise<SeniorVaultPosition> {
+    return lenderCall('read senior vault position', async () => {
+      const owner = account || await this.account();
+      const [shares, totals, limits] = await Promise.all([
+        this.protocol.vaultSharesOf(owner),
+        this.protocol.vaultTotals(),
+        this.protocol.vaultLimits(owner),
+      ]);
+      const { sharePrice } = vaultStats(totals);
+      return {
+        account: owner,
+        shares: fromUnits(shares),
+        value: fromUnits(shares) * sharePrice,
+        sharePrice,
+        maxWithdraw: fromUnits(limits.maxWithdraw),
+        maxRedeem: fromUnits(limits.maxRedeem),
+      };
+    });
+  }
+
+  /**
+   * fUSDC a deposit of `usdc` would mint
+   *
+   * @throws {ValidationError} If the amount is not positive
+   */
+  async previewDeposit(usdc: number): Promise<number> {
+    const assets = toUnits(usdc, 'usdc');
+    return lenderCall('preview deposit', async () => fromUnits(await this.protocol.previewVault('deposit', assets)));
+  }
+
+  /**
+   * fUSDC a withdrawal of `usdc` would burn
+   *
+   * @throws {ValidationError} If the amount is not positive
+   */
+  async previewWithdraw(usdc: number): Promise<number> {
+    const assets = toUnits(usdc, 'usdc');
+    return lenderCall('preview withdrawal', async () => fromUnits(await this.protocol.previewVault('withdraw', assets)));
+  }
+
+  /**
+   * USDC redeeming `shares` fUSDC would pay out
+   *
+   * @throws {ValidationError} If the amount is not positive
+   */
+  async previewRedeem(shares: number): Promise<number> {
+    const amount = toUnits(shares, 'shares');
+    return lenderCall('preview redemption', async () => fromUnits(await this.protocol.previewVault('redeem', amount)));
+  }
+
+  /**
+   * Deposit USDC for fUSDC, approving the protocol first if its allowance
+   * is too low
+   *
+   * @throws {ValidationError} If the amount is not positive or exceeds the wallet's USDC (INSUFFICIENT_BALANCE)
+   * @throws {ProtocolError} If the approval or deposit fails
+   */
+  async deposit(usdc: number): Promise<VaultTransaction> {
+    const assets = toUnits(usdc, 'usdc');
+    return lenderCall('deposit into senior vault', async () => {
+      const owner = await this.account();
+      const balance = await this.protocol.usdcBalanceOf(owner);
+      if (balance < assets) {
+        throw new ValidationError(
+          `Insufficient USDC balance: have $${fromUnits(balance).toFixed(2)}, need $${usdc.toFixed(2)}`,
+          { code: 'INSUFFICIENT_BALANCE' }
+        );
+      }
+
+      let approvalTxHashes: string[] = [];
+      if (await this.protocol.usdcAllowance(owner) < assets) {
+        approvalTxHashes = (await this.protocol.setupApprovals(['approveUsdc'])).map(approval => approval.txHash);
+      }
+
+      const result = await this.protocol.depositSenior(assets);
+      this.logger.info(`Deposited $${fromUnits(result.assets).toFixed(2)} for ${fromUnits(result.shares).toFixed(6)} fUSDC`, { component: 'Lender', txHash: result.txHash });
+      return { txHash: result.txHash, assets: fromUnits(result.assets), shares: fromUnits(result.shares), approvalTxHashes };
+    });
+  }
+
+  /**
+   * Withdraw exactly `usdc` USDC, burning the shares it takes
+   *
+   * @throws {ValidationError} If the amount is not positive or exceeds the position's value (INSUFFICIENT_BALANCE)
+   * @throws {ProtocolError} If the vault lacks idle USDC (INSUFFICIENT_POOL_LIQUIDITY) or the withdrawal fails
+   */
+  async withdraw(usdc: number): Promise<VaultTransaction> {
+    const assets = toUnits(usdc, 'usdc');
+    return lenderCall('withdraw from senior vault', async () => {
+      await this.checkExit(assets, 'withdraw');
+      const result = await this.protocol.withdrawSenior(assets);
+      this.logger.info(`Withdrew $${fromUnits(result.assets).toFixed(2)} for ${fromUnits(result.shares).toFixed(6)} fUSDC`, { component: 'Lender', txHash: result.txHash });
+      return { txHash: result.txHash, assets: fromUnits(result.assets), shares: fromUnits(result.shares), approvalTxHashes: [] };
+    });
+  }
+
+  /**
+   * Redeem exactly `shares` fUSDC for USDC at the share price
+   *
+   * @throws {ValidationError} If the amount is not positive or exceeds the shares held (INSUFFICIENT_BALANCE)
+   * @throws {ProtocolError} If the vault lacks idle USDC (INSUFFICIENT_POOL_LIQUIDITY) or the redemption fails
+   */
+  async redeem(shares: number): Promise<VaultTransaction> {
+    const amount = toUnits(shares, 'shares');
+    return lenderCall('redeem from senior vault', async () => {
+      await this.checkExit(amount, 'redeem');
+      const result = await this.protocol.redeemSenior(amount);
+      this.logger.info(`Redeemed ${fromUnits(result.shares).toFixed(6)} fUSDC for $${fromUnits(result.assets).toFixed(2)}`, { component: 'Lender', txHash: result.txHash });
+      return { txHash: result.txHash, assets: fromUnits(result.assets), shares: fromUnits(result.shares), approvalTxHashes: [] };
+    });
+  }
+
+  /**
+   * Tell a shortfall in the owner's shares apart from one in idle USDC
+   */
+  private async checkExit(amount: bigint, action: 'withdraw' | 'redeem'): Promise<void> {
+    const owner = await this.account();
+    const limits = await this.protocol.vaultLimits(owner);
+    if (amount <= (action === 'withdraw' ? limits.maxWithdraw : limits.maxRedeem)) {
+      return;
+    }
+
+    const shares = await this.protocol.vaultSharesOf(owner);
+    const held = action === 'withdraw' ? await this.protocol.previewVault('redeem', shares) : shares;
+    const unit = action === 'withdraw' ? 'USDC' : 'fUSDC';
+    if (amount > held) {
+      throw new ValidationError(
+        `Cannot ${action} ${fromUnits(amount)} ${unit}: position holds ${fromUnits(held)} ${unit}`,
+        { code: 'INSUFFICIENT_BALANCE' }
+      );
+    }
+    const available = action === 'withdraw' ? limits.maxWithdraw : limits.maxRedeem;
+    throw new ProtocolError(
+      `Cannot ${action} ${fromUnits(amount)} ${unit}: the vault can pay out ${fromUnits(available)} ${unit} until loans are repaid`,
+      { code: 'INSUFFICIENT_POOL_LIQUIDITY' }
+    );
+  }
+
+}
+
+export class JuniorStaking {
+  constructor(
+    private protocol: ProtocolBackend,
+    private exchange: ExchangeAdapter,
+    private account: () => Promise<string>,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Tokens `account` (default: the signer) has staked in a market's YES or
+   * NO pool and the rewards it can claim
+   *
+   * @throws {ProtocolError} If the market is unknown (MARKET_INVALID) or the pool cannot be read
+   */
+  async getStake(conditionId: string, stakeYes: boolean, account?: string): Promise<JuniorStakePosition> {
+    return lenderCall('read junior stake', async () => {
+      const owner = account || await this.account();
+      const positionId = await this.positionId(conditionId, stakeYes);
+      const [stake, totals] = await Promise.all([
+        this.protocol.juniorStakeOf(positionId, owner),
+        this.protocol.vaultTotals(),
+      ]);
+      const pendingRewards = fromUnits(stake.pendingRewards);
+      return {
+        conditionId,
+        stakeYes,
+        positionId,
+        account: owner,
+        staked: fromUnits(stake.staked),
+        pendingRewards,
+        pendingRewardsValue: pendingRewards * vaultStats(totals).sharePrice,
+      };
+    });
+  }
+
+  /**
+   * Stake YES or NO tokens of a market, granting the protocol CTF
+   * approval first if it does not have it
+   *
+   * @throws {ValidationError} If the amount is not positive or exceeds the wallet's tokens (INSUFFICIENT_BALANCE)
+   * @throws {ProtocolError} If the market is unknown (MARKET_INVALID), or the approval or deposit fails
+   */
+  async stake(conditionId: string, stakeYes: boolean, tokens: number): Promise<JuniorStakeTransaction> {
+    const amount = toUnits(tokens, 'tokens');
+    return lenderCall('stake junior tokens', async () => {
+      const owner = await this.account();
+      const positionId = await this.positionId(conditionId, stakeYes);
+      const balance = await this.protocol.ctfBalanceOf(owner, positionId);
+      if (balance < amount) {
+        throw new ValidationError(
+          `Insufficient ${stakeYes ? 'YES' : 'NO'} tokens: have ${fromUnits(balance)}, need ${tokens}`,
+          { code: 'INSUFFICIENT_BALANCE', context: { tokenId: positionId } }
+        );
+      }
+
+      let approvalTxHashes: string[] = [];
+      if (!await this.protocol.isCtfApproved(owner)) {
+        approvalTxHashes = (await this.protocol.setupApprovals(['approveCtf'])).map(approval => approval.txHash);
+      }
+
+      const txHash = await this.protocol.depositJunior(positionId, amount);
+      this.logger.info(`Staked ${tokens} ${stakeYes ? 'YES' : 'NO'} tokens`, { component: 'Lender', conditionId, txHash });
+      return { txHash, positionId, tokens, approvalTxHashes };
+    });
+  }
+
+  /**
+   * Withdraw staked tokens. Tokens escrowed in open legs come back as the
+   * legs close.
+   *
+   * @throws {ValidationError} If the amount is not positive or exceeds the stake (INSUFFICIENT_BALANCE)
+   * @throws {ProtocolError} If too many of the pool's tokens are lent out (INSUFFICIENT_POOL_LIQUIDITY) or the withdrawal fails
+   */
+  async withdraw(conditionId: string, stakeYes: boolean, tokens: number): Promise<JuniorStakeTransaction> {
+    const amount = toUnits(tokens, 'tokens');
+    return lenderCall('withdraw junior tokens', async () => {
+      const owner = await this.account();
+      const positionId = await this.positionId(conditionId, stakeYes);
+      const [stake, pool] = await Promise.all([
+        this.protocol.juniorStakeOf(positionId, owner),
+        this.protocol.juniorPool(positionId),
+      ]);
+      if (amount > stake.staked) {
+        throw new ValidationError(
+          `Cannot withdraw ${tokens} tokens: ${fromUnits(stake.staked)} staked`,
+          { code: 'INSUFFICIENT_BALANCE', context: { tokenId: positionId } }
+        );
+      }
+      if (amount > pool.available) {
+        throw new ProtocolError(
+          `Cannot withdraw ${tokens} tokens: the pool holds ${fromUnits(pool.available)} not lent out`,
+          { code: 'INSUFFICIENT_POOL_LIQUIDITY', context: { tokenId: positionId } }
+        );
+      }
+
+      const txHash = await this.protocol.withdrawJunior(positionId, amount);
+      this.logger.info(`Withdrew ${tokens} staked ${stakeYes ? 'YES' : 'NO'} tokens`, { component: 'Lender', conditionId, txHash });
+      return { txHash, positionId, tokens, approvalTxHashes: [] };
+    });
+  }
+
+  /**
+   * Claim rewards as fUSDC senior vault shares
+   *
+   * @throws {ValidationError} If there is nothing to claim
+   * @throws {ProtocolError} If the claim fails
+   */
+  async claimRewards(conditionId: string, stakeYes: boolean): Promise<JuniorRewardClaim> {
+    return lenderCall('claim junior rewards', async () => {
+      const owner = await this.account();
+      const positionId = await this.positionId(conditionId, stakeYes);
+      const { pendingRewards } = await this.protocol.juniorStakeOf(positionId, owner);
+      if (pendingRewards === 0n) {
+        throw new ValidationError(`No junior rewards to claim for position ${positionId}`, { context: { tokenId: positionId } });
+      }
+
+      const { txHash, shares } = await this.protocol.claimJuniorRewards(positionId);
+      const value = fromUnits(shares) * vaultStats(await this.protocol.vaultTotals()).sharePrice;
+      this.logger.info(`Claimed ${fromUnits(shares).toFixed(6)} fUSDC ($${value.toFixed(2)})`, { component: 'Lender', conditionId, txHash });
+      return { txHash, positionId, shares: fromUnits(shares), value };
+    });
+  }
+
+  /**
+   * Estimated yield of a market's YES or NO pool. A staked token lent
+   * into a leg earns F * rJ a year (junior interest on the leg's
+   * principal), so at the pool's utilization it earns F * rJ * utilization,
+   * taken against the token's price. F and rJ are quoted for a one-set leg
+   * drawing on the pool and move with utilization; the estimate assumes
+   * they hold.
+   *
+   * @throws {ValidationError} If an option is out of range
+   * @throws {PolymarketError} If the token has no bids and no tokenPrice is given (NO_BOOK_LIQUIDITY)
+   * @throws {ProtocolError} If the market is unknown (MARKET_INVALID) or the quote fails
+   */
+  async getYieldReport(conditionId: string, stakeYes: boolean, options: JuniorYieldOptions = {}): Promise<JuniorYieldReport> {
+    const termSeconds = options.termSeconds ?? 30 * 24 * 3600;
+    if (!Number.isInteger(termSeconds) || termSeconds <= 0) {
+      throw new ValidationError(`Invalid termSeconds: ${termSeconds} (must be a positive whole number)`);
+    }
+    if (options.tokenPrice !== undefined && !(options.tokenPrice > 0 && options.tokenPrice < 1)) {
+      throw new ValidationError(`Invalid tokenPrice: ${options.tokenPrice} (must be between 0 and 1)`);
+    }
+
+    return lenderCall('read junior pool yield', async () => {
+      const positionId = await this.positionId(conditionId, stakeYes);
+      // Staked tokens are the short side, so legs drawing on this pool are long the other outcome
+      const [pool, quote] = await Promise.all([
+        this.protocol.juniorPool(positionId),
+        this.protocol.quote(1, termSeconds, conditionId, !stakeYes),
+      ]);
+      const tokenPrice = options.tokenPrice ?? await this.bestBid(positionId);
+
+      const staked = fromUnits(pool.staked);
+      const lent = Math.max(0, staked - fromUnits(pool.available));
+      const utilization = staked > 0 ? lent / staked : 0;
+      const F = Number(quote.F) / 1e18;
+      const rJ = Number(quote.rJ) / 1e18;
+      const rewardPerTokenYear = F * rJ * utilization;
+
+      return {
+        conditionId,
+        stakeYes,
+        positionId,
+        staked,
+        lent,
+        utilization,
+        F,
+        rJ,
+        termSeconds,
+        rewardPerTokenYear,
+        tokenPrice,
+        apr: rewardPerTokenYear / tokenPrice,
+        maxApr: F * rJ / tokenPrice,
+      };
+    });
+  }
+
+  private async positionId(conditionId: string, stakeYes: boolean): Promise<string> {
+    return stakeYes ? this.protocol.yesPositionId(conditionId) : this.protocol.noPositionId(conditionId);
+  }
+
+  private async bestBid(positionId: string): Promise<number> {
+    const orderbook = await this.exchange.getOrderBook(positionId);
+    if (!orderbook.bids || orderbook.bids.length === 0) {
+      throw new PolymarketError(`No bids available for token ${positionId}; pass tokenPrice`, {
+        code: 'NO_BOOK_LIQUIDITY',
+        context: { tokenId: positionId },
+      });
+    }
+    return orderbook.bids[0].price;
+  }
+}
+
+/**
+ * Run a pool call, surfacing raw contract failures as ProtocolError
+ */
+async function lenderCall<T>(action: string, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error: any) {
+    if (error instanceof ForecastError) {
+      throw error;
+    }
+    throw new ProtocolError(`Failed to ${action}: ${error.message}`, { code: classifyRevert(error), cause: error });
+  }
+}
+
+function vaultStats(totals: VaultTotals): SeniorVaultStats {
+  const totalAssets = fromUnits(totals.totalAssets);
+  const totalSupply = fromUnits(totals.totalSupply);
+  const idle = fromUnits(totals.idle);
+  const borrowed = Math.max(0, totalAssets - idle);
+  return {
+    totalAssets,
+    totalSupply,
+    idle,
+    borrowed,
+    sharePrice: totalSupply > 0 ? totalAssets / totalSupply : 1,
+    utilization: totalAssets > 0 ? borrowed / totalAssets : 0,
+  };
+}
+
+/**
+ * @throws {ValidationError} If the amount is not a positive number
+ */
+function toUnits(amount: number, name: string): bigint {
+  const units = Math.round(amount * 1e6);
+  if (!Number.isFinite(amount) || units <= 0) {
+    throw new ValidationError(`Invalid ${name}: ${amount} (must be at least 0.000001)`);
+  }
+  return BigInt(units);
+}
+
+function fromUnits(amount: bigint): number {
+  return Number(amount) / 1e6;
+}
@@ -0,0 +1,67 @@
+/**
+ * Logger
+ *
+ * Everything the SDK reports while it works (orders placed, retries, legs
+ * unwound, store failures) goes through the Logger passed to the
+ * constructor. The default is silent; consoleLogger() prints the familiar
+ * `[Polymarket] ...` lines, and any object with the four level methods can
+ * forward entries to an observability stack.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogFields {
+  component?: string;              // SDK area: Simulation, Polymarket, Resume, Unwind, Reduce, Store, ...
+  orderId?: string;
+  legId?: bigint;
+  attempt?: number;                // 1-based order attempt
+  tokenId?: string;
+  conditionId?: string;
+  error?: string;                  // Message of the error being reported
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Default logger: drops everything
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger printing `[component] message {fields}` to the console,
+ * skipping entries below `minLevel`
+ */
+export function consoleLogger(minLevel: LogLevel = 'info'): Logger {
+  const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(minLevel)) return;
+
+    const { component, ...rest } = fields;
+    const line = component ? `[${component}] ${message}` : message;
+    const output = level === 'debug' || level === 'info' ? console.log : level === 'warn' ? console.warn : console.error;
+    if (Object.keys(rest).length > 0) {
+      output(line, rest);
+    } else {
+      output(line);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
@@ -0,0 +1,334 @@
+import { PolymarketError } from "./errors";
+import { InMemoryLedger } from "./memoryLedger";
+import {
+  ExchangeAdapter,
+  ExchangeOrder,
+  OrderBook,
+  OrderBookLevel,
+  OrderRequest,
+  OrderSide,
+} from "./exchange";
+
+/**
+ * In-memory order book
+ *
+ * Deterministic price-time priority matching engine implementing
+ * ExchangeAdapter. Liquidity is scripted per token with setOrderBook()
+ * or addLiquidity(), rejects with rejectNextOrder(). Orders fill at the
+ * resting level price, so buys walk the ask ladder exactly like a
+ * marketable limit order on the CLOB.
+ *
+ * - FOK orders fill completely or are cancelled without touching the book
+ * - GTC/GTD orders fill what crosses and rest the remainder (partial fills)
+ * - Resting orders are matched when crossing liquidity is added later
+ *
+ * With a ledger and account, orders are placed on behalf of that account:
+ * placement requires USDC (buys) or tokens (sells) to cover the order, and
+ * every fill moves USDC and CTF balances. Scripted liquidity is the counterparty.
+ */
+
+const EPSILON = 1e-9;
+
+interface BookEntry {
+  price: number;
+  size: number;
+  orderId?: string;                // Set when the entry is a resting order
+}
+
+interface TokenBook {
+  bids: BookEntry[];               // Sorted best first, then by time
+  asks: BookEntry[];
+}
+
+export interface InMemoryExchangeOptions {
+  ledger?: InMemoryLedger;         // Settle fills against this ledger
+  account?: string;                // Account trading (required with ledger)
+}
+
+interface OrderState extends ExchangeOrder {
+  notionalMatched: number;         // Sum of price * size over all fills
+}
+
+export class InMemoryExchange implements ExchangeAdapter {
+  private books = new Map<string, TokenBook>();
+  private orders = new Map<string, OrderState>();
+  private rejections: string[] = [];
+  private nextOrderId = 1;
+
+  constructor(private options: InMemoryExchangeOptions = {}) {
+    if (options.ledger && !options.account) {
+      throw new PolymarketError('InMemoryExchange: account is required when settling against a ledger');
+    }
+  }
+
+  /**
+   * Replace the scripted liquidity for a token. Resting orders are kept.
+   */
+  setOrderBook(tokenId: string, book: { bids?: OrderBookLevel[]; asks?: OrderBookLevel[] }): void {
+    const current = this.getBook(tokenId);
+    current.bids = current.bids.filter(entry => entry.orderId);
+    current.asks = current.asks.filter(entry => entry.orderId);
+
+    for (const level of book.bids || []) {
+      this.addLiquidity(tokenId, 'BUY', level.price, level.size);
+    }
+    for (const level of book.asks || []) {
+      this.addLiquidity(tokenId, 'SELL', level.price, level.size);
+    }
+  }
+
+  /**
+   * Add scripted liquidity: side 'SELL' adds an ask, 'BUY' adds a bid.
+   * Crossing resting orders are matched first.
+   */
+  addLiquidity(tokenId: string, side: OrderSide, price: number, size: number): void {
+    this.validateLevel(price, size);
+
+    const remaining = this.match(tokenId, side, price, size, null);
+    if (remaining > EPSILON) {
+      this.insert(tokenId, side, { price, size: remaining });
+    }
+  }
+
+  /**
+   * Make the next postOrder() call fail with the given reason.
+   */
+  rejectNextOrder(reason: string = 'Order rejected by exchange'): void {
+    this.rejections.push(reason);
+  }
+
+  /**
+   * All orders seen by the exchange, in submission order.
+   */
+  getOrders(): ExchangeOrder[] {
+    return Array.from(this.orders.values()).map(order => this.toExchangeOrder(order));
+  }
+
+  async setup(): Promise<void> {
+    // Nothing to initialize
+  }
+
+  async getOrderBook(tokenId: string): Promise<OrderBook> {
+    const book = this.getBook(tokenId);
+    return {
+      tokenId,
+      bids: this.aggregate(book.bids),
+      asks: this.aggregate(book.asks),
+    };
+  }
+
+  async postOrder(request: OrderRequest): Promise<string> {
+    const rejection = this.rejections.shift();
+    if (rejection !== undefined) {
+      throw new PolymarketError(rejection);
+    }
+    this.validateLevel(request.price, request.size);
+    this.requireBalance(request);
+
+    const orderId = `order-${this.nextOrderId++}`;
+    const order: OrderState = {
+      orderId,
+      tokenId: request.tokenId,
+      side: request.side,
+      price: request.price,
+      originalSize: request.size,
+      sizeMatched: 0,
+      avgFillPrice: request.price,
+      status: 'LIVE',
+      notionalMatched: 0,
+    };
+    this.orders.set(orderId, order);
+
+    if (request.orderType === 'FOK' &&
+        this.crossingSize(request.tokenId, request.side, request.price) + EPSILON < request.size) {
+      order.status = 'CANCELLED';
+      return orderId;
+    }
+
+    const remaining = this.match(request.tokenId, request.side, request.price, request.size, order);
+    if (remaining <= EPSILON) {
+      order.status = 'MATCHED';
+    } else if (request.orderType === 'FOK') {
+      order.status = 'CANCELLED';
+    } else {
+      this.insert(request.tokenId, request.side, { price: request.price, size: remaining, orderId });
+    }
+
+    return orderId;
+  }
+
+  async getOrder(orderId: string): Promise<ExchangeOrder> {
+    return this.toExchangeOrder(this.getOrderState(orderId));
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    const order = this.getOrderState(orderId);
+    if (order.status !== 'LIVE') {
+      return;
+    }
+
+    const book = this.getBook(order.tokenId);
+    const side = order.side === 'BUY' ? 'bids' : 'asks';
+    book[side] = book[side].filter(entry => entry.orderId !== orderId);
+    order.status = 'CANCELLED';
+  }
+
+  async sell(tokenId: string, size: number, minPrice: number): Promise<ExchangeOrder> {
+    const orderId = await this.postOrder({
+      tokenId,
+      side: 'SELL',
+      price: minPrice,
+      size,
+      orderType: 'FOK',
+    });
+    return this.getOrder(orderId);
+  }
+
+  /**
+   * Match an incoming order against the opposite side of the book.
+   * Returns the unfilled size.
+   */
+  private match(
+    tokenId: string,
+    side: OrderSide,
+    limitPrice: number,
+    size: number,
+    taker: OrderState | null
+  ): number {
+    const book = this.getBook(tokenId);
+    const opposite = side === 'BUY' ? book.asks : book.bids;
+    let remaining = size;
+
+    while (remaining > EPSILON && opposite.length > 0 && this.crosses(side, limitPrice, opposite[0].price)) {
+      const maker = opposite[0];
+      const filled = Math.min(remaining, maker.size);
+
+      if (taker) {
+        this.recordFill(taker, maker.price, filled);
+      }
+      if (maker.orderId) {
+        const makerOrder = this.getOrderState(maker.orderId);
+        this.recordFill(makerOrder, maker.price, filled);
+        if (makerOrder.originalSize - makerOrder.sizeMatched <= EPSILON) {
+          makerOrder.status = 'MATCHED';
+        }
+      }
+
+      maker.size -= filled;
+      remaining -= filled;
+      if (maker.size <= EPSILON) {
+        opposite.shift();
+      }
+    }
+
+    return remaining;
+  }
+
+  private crossingSize(tokenId: string, side: OrderSide, limitPrice: number): number {
+    const book = this.getBook(tokenId);
+    const opposite = side === 'BUY' ? book.asks : book.bids;
+    return opposite
+      .filter(entry => this.crosses(side, limitPrice, entry.price))
+      .reduce((sum, entry) => sum + entry.size, 0);
+  }
+
+  private crosses(side: OrderSide, limitPrice: number, restingPrice: number): boolean {
+    return side === 'BUY'
+      ? restingPrice <= limitPrice + EPSILON
+      : restingPrice >= limitPrice - EPSILON;
+  }
+
+  private insert(tokenId: string, side: OrderSide, entry: BookEntry): void {
+    const book = this.getBook(tokenId);
+    const entries = side === 'BUY' ? book.bids : book.asks;
+    const better = (a: number, b: number) => (side === 'BUY' ? a > b : a < b);
+
+    // Price priority, then time priority within a level
+    let index = entries.findIndex(existing => better(entry.price, existing.price));
+    if (index === -1) index = entries.length;
+    entries.splice(index, 0, entry);
+  }
+
+  private recordFill(order: OrderState, price: number, size: number): void {
+    order.sizeMatched += size;
+    order.notionalMatched += price * size;
+    order.avgFillPrice = order.notionalMatched / order.sizeMatched;
+    this.settle(order, price, size);
+  }
+
+  private requireBalance(request: OrderRequest): void {
+    const { ledger, account } = this.options;
+    if (!ledger || !account) return;
+
+    const sufficient = request.side === 'BUY'
+      ? ledger.usdcBalanceOf(account) >= toUnits(request.price * request.size)
+      : ledger.ctfBalanceOf(account, request.tokenId) >= toUnits(request.size);
+    if (!sufficient) {
+      throw new PolymarketError('not enough balance / allowance');
+    }
+  }
+
+  private settle(order: OrderState, price: number, size: number): void {
+    const { ledger, account } = this.options;
+    if (!ledger || !account) return;
+
+    const usdc = toUnits(price * size);
+    const tokens = toUnits(size);
+    if (order.side === 'BUY') {
+      ledger.burnUsdc(account, usdc);
+      ledger.mintCtf(account, order.tokenId, tokens);
+    } else {
+      ledger.burnCtf(account, order.tokenId, tokens);
+      ledger.mintUsdc(account, usdc);
+    }
+  }
+
+  private aggregate(entries: BookEntry[]): OrderBookLevel[] {
+    const levels: OrderBookLevel[] = [];
+    for (const entry of entries) {
+      const last = levels[levels.length - 1];
+      if (last && Math.abs(last.price - entry.price) < EPSILON) {
+        last.size += entry.size;
+      } else {
+        levels.push({ price: entry.price, size: entry.size });
+      }
+    }
+    return levels;
+  }
+
+  private validateLevel(price: number, size: number): void {
+    if (!(price > 0 && price < 1)) {
+      throw new PolymarketError(`Invalid order price: ${price} (must be between 0 and 1)`, { code: 'INVALID_ORDER' });
+    }
+    if (!(size > 0)) {
+      throw new PolymarketError(`Invalid order size: ${size} (must be > 0)`, { code: 'INVALID_ORDER' });
+    }
+  }
+
+  private getBook(tokenId: string): TokenBook {
+    let book = this.books.get(tokenId);
+    if (!book) {
+      book = { bids: [], asks: [] };
+      this.books.set(tokenId, book);
+    }
+    return book;
+  }
+
+  private getOrderState(orderId: string): OrderState {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new PolymarketError(`Unknown order: ${orderId}`, { code: 'ORDER_NOT_FOUND', context: { orderId } });
+    }
+    return order;
+  }
+
+  private toExchangeOrder(order: OrderState): ExchangeOrder {
+    const { notionalMatched, ...exchangeOrder } = order;
+    return { ...exchangeOrder };
+  }
+}
+
+function toUnits(amount: number): bigint {
+  // Round down so rounding never spends more than the order covers
+  return BigInt(Math.floor(amount * 1e6 + EPSILON));
+}
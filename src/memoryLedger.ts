@@ -0,0 +1,106 @@
+import { ethers } from "ethers";
+
+/**
+ * In-memory ledger
+ *
+ * Shared chain state for the offline stand-ins: USDC and CTF balances,
+ * approvals, a block clock and transaction hashes. InMemoryProtocol and
+ * InMemoryExchange settle against the same ledger, so the SDK sees
+ * consistent balances across buys, opens and closes.
+ *
+ * Amounts are 6-decimal base units (1 USDC = 1 token = 1_000_000).
+ */
+
+export class InMemoryLedger {
+  timestamp: number;               // Current block timestamp (seconds)
+  blockNumber: number = 1;
+
+  private usdc = new Map<string, bigint>();
+  private ctf = new Map<string, bigint>();
+  private usdcApprovals = new Set<string>();
+  private ctfApprovals = new Set<string>();
+  private txCount = 0;
+
+  constructor(timestamp: number = Math.floor(Date.now() / 1000)) {
+    this.timestamp = timestamp;
+  }
+
+  /**
+   * Move the clock forward (mines one block).
+   */
+  advanceTime(seconds: number): void {
+    this.timestamp += seconds;
+    this.blockNumber++;
+  }
+
+  /**
+   * Record a transaction: mines a block and returns a deterministic hash.
+   */
+  nextTx(): string {
+    this.blockNumber++;
+    return ethers.utils.id(`tx-${++this.txCount}`);
+  }
+
+  usdcBalanceOf(account: string): bigint {
+    return this.usdc.get(account.toLowerCase()) || 0n;
+  }
+
+  ctfBalanceOf(account: string, positionId: string): bigint {
+    return this.ctf.get(this.ctfKey(account, positionId)) || 0n;
+  }
+
+  mintUsdc(account: string, amount: bigint): void {
+    this.usdc.set(account.toLowerCase(), this.usdcBalanceOf(account) + amount);
+  }
+
+  burnUsdc(account: string, amount: bigint): void {
+    const balance = this.usdcBalanceOf(account);
+    if (balance < amount) {
+      throw new Error(`ERC20: transfer amount exceeds balance (${account})`);
+    }
+    this.usdc.set(account.toLowerCase(), balance - amount);
+  }
+
+  transferUsdc(from: string, to: string, amount: bigint): void {
+    this.burnUsdc(from, amount);
+    this.mintUsdc(to, amount);
+  }
+
+  mintCtf(account: string, positionId: string, amount: bigint): void {
+    const key = this.ctfKey(account, positionId);
+    this.ctf.set(key, this.ctfBalanceOf(account, positionId) + amount);
+  }
+
+  burnCtf(account: string, positionId: string, amount: bigint): void {
+    const balance = this.ctfBalanceOf(account, positionId);
+    if (balance < amount) {
+      throw new Error(`ERC1155: transfer amount exceeds balance (${account})`);
+    }
+    this.ctf.set(this.ctfKey(account, positionId), balance - amount);
+  }
+
+  transferCtf(from: string, to: string, positionId: string, amount: bigint): void {
+    this.burnCtf(from, positionId, amount);
+    this.mintCtf(to, positionId, amount);
+  }
+
+  approveUsdc(owner: string, spender: string): void {
+    this.usdcApprovals.add(`${owner.toLowerCase()}:${spender.toLowerCase()}`);
+  }
+
+  setApprovalForAll(owner: string, operator: string): void {
+    this.ctfApprovals.add(`${owner.toLowerCase()}:${operator.toLowerCase()}`);
+  }
+
+  isUsdcApproved(owner: string, spender: string): boolean {
+    return this.usdcApprovals.has(`${owner.toLowerCase()}:${spender.toLowerCase()}`);
+  }
+
+  isCtfApproved(owner: string, operator: string): boolean {
+    return this.ctfApprovals.has(`${owner.toLowerCase()}:${operator.toLowerCase()}`);
+  }
+
+  private ctfKey(account: string, positionId: string): string {
+    return `${account.toLowerCase()}:${positionId}`;
+  }
+}
@@ -0,0 +1,897 @@
+import { ethers } from "ethers";
+import { InMemoryLedger } from "./memoryLedger";
+import {
+  ApprovalKind,
+  ApprovalTx,
+  GasAction,
+  GasCall,
+  JuniorPoolTotals,
+  JuniorStake,
+  LegData,
+  LegEvent,
+  OpenLegResult,
+  ProtocolBackend,
+  ProtocolQuote,
+  VaultLimits,
+  VaultPreview,
+  VaultTotals,
+  VaultTxResult,
+} from "./protocol";
+
+/**
+ * In-memory ForecastProtocol
+ *
+ * Offline stand-in for the protocol contract used to test the full
+ * borrower lifecycle without a Polygon deployment.
+ *
+ * Model:
+ * - Senior pool lends F USDC per set; rS follows a kinked utilization curve
+ * - The senior pool is an ERC4626 vault: fUSDC shares claim the USDC it
+ *   holds plus what is lent out, so repaid interest raises the share price.
+ *   The initial liquidity is held as shares by the protocol address.
+ * - Junior pools hold staked outcome tokens, one per position ID, and lend
+ *   them as the opposite side of each leg; rJ rises with usage. Junior
+ *   interest is deposited into the senior vault and paid to stakers as
+ *   fUSDC, pro rata to their stake. Initial stakes are the protocol's own.
+ * - F is the largest value keeping debt at expiry inside the collateral:
+ *   F * (1 + (rS + rJ) * term / year) <= 1 - runwayBuffer (iterated with the rates)
+ * - F never exceeds the long token's price less a haircut, so the junior
+ *   pool's short tokens stay covered and the leverage loop converges
+ * - open() escrows the borrower's long tokens with junior short tokens and lends USDC
+ * - close() before expiry: borrower repays principal + accrued interest, gets tokens back
+ * - close() after expiry or resolution (anyone): the set is merged for $1, senior is
+ *   paid first, then junior, and the surplus goes to the borrower
+ * - Every transaction uses a fixed number of gas units per action at the
+ *   configured gas price; estimateGas rejects calls that would revert
+ *
+ * Use connect(account) to get a ProtocolBackend acting as that account.
+ */
+
+const YEAR = 365 * 24 * 3600;
+const E18 = 10n ** 18n;
+
+export interface InMemoryProtocolConfig {
+  ledger?: InMemoryLedger;         // Shared chain state (default: new ledger)
+  address?: string;                // Protocol address
+  seniorLiquidityUSDC?: number;    // Initial senior pool deposits (default: $1,000,000)
+  maxF?: number;                   // Cap on capital efficiency (default: 0.95)
+  runwayBuffer?: number;           // Collateral kept free at expiry (default: 0.01)
+  priceHaircut?: number;           // Discount on the long price when capping F (default: 0.05)
+  seniorBaseRate?: number;         // rS at 0% utilization (default: 2%)
+  seniorSlope?: number;            // rS increase up to the kink (default: 10%)
+  seniorKink?: number;             // Utilization kink (default: 80%)
+  seniorJumpSlope?: number;        // rS increase past the kink (default: 100%)
+  juniorBaseRate?: number;         // rJ at 0% utilization (default: 5%)
+  juniorSlope?: number;            // rJ increase up to 100% utilization (default: 20%)
+  gasPriceGwei?: number;           // Reported gas price (default: 30 gwei)
+  gasUnits?: Partial<Record<GasAction, number>>; // Gas used per transaction (default: approvals 46k, open 310k, close 170k, vault calls 90k)
+  maxLogBlockRange?: number;       // Reject wider log queries, like a limited RPC (default: unlimited)
+}
+
+export interface InMemoryMarketConfig {
+  yesPositionId?: string;          // Default: derived from conditionId
+  noPositionId?: string;
+  juniorYes?: number;              // YES tokens staked by the protocol (default: 1,000,000)
+  juniorNo?: number;               // NO tokens staked by the protocol (default: 1,000,000)
+  outcomeSlotCount?: number;       // Default: 2 (binary)
+  yesPrice?: number;               // Oracle YES price used to cap F (default: 0.50)
+}
+
+export interface InMemoryProtocolEvent extends LegEvent {
+  borrower: string;
+  conditionId: string;
+  timestamp: number;
+}
+
+interface MarketState {
+  yesPositionId: string;
+  noPositionId: string;
+  outcomeSlotCount: number;
+  yesPrice: number;
+  verified: boolean;
+  resolved: boolean;
+}
+
+interface JuniorPoolState {
+  staked: bigint;                  // Tokens staked (6 decimals)
+  rewardPerToken: bigint;          // fUSDC shares earned per staked unit (1e18)
+  stakers: Map<string, { staked: bigint; rewardDebt: bigint; owed: bigint }>;
+}
+
+interface LegState extends LegData {
+  principal: bigint;               // USDC lent (6 decimals)
+  isOpen: boolean;
+}
+
+export class InMemoryProtocol {
+  readonly ledger: InMemoryLedger;
+  readonly address: string;
+  paused: boolean = false;
+  /** Holds junior rewards as fUSDC until stakers claim them */
+  readonly juniorRewardsAccount: string;
+
+  private config: Required<Omit<InMemoryProtocolConfig, 'ledger' | 'address' | 'seniorLiquidityUSDC' | 'gasUnits'>>;
+  private gasUnits: Record<GasAction, number>;
+  private receipts = new Map<string, { gasUsed: bigint; gasPrice: bigint }>();
+  private markets = new Map<string, MarketState>();
+  private juniorPools = new Map<string, JuniorPoolState>();
+  private legStore = new Map<bigint, LegState>();
+  private events: InMemoryProtocolEvent[] = [];
+  private seniorBorrowed = 0n;
+  private shares = new Map<string, bigint>();
+  private totalShares = 0n;
+  private nextLegId = 1n;
+
+  constructor(config: InMemoryProtocolConfig = {}) {
+    this.ledger = config.ledger || new InMemoryLedger();
+    this.address = config.address || '0x000000000000000000000000000000000000f0ec';
+    this.juniorRewardsAccount = deriveEscrow(this.address, 0n); // Leg IDs start at 1
+    this.config = {
+      maxF: config.maxF ?? 0.95,
+      runwayBuffer: config.runwayBuffer ?? 0.01,
+      priceHaircut: config.priceHaircut ?? 0.05,
+      seniorBaseRate: config.seniorBaseRate ?? 0.02,
+      seniorSlope: config.seniorSlope ?? 0.10,
+      seniorKink: config.seniorKink ?? 0.8,
+      seniorJumpSlope: config.seniorJumpSlope ?? 1.0,
+      juniorBaseRate: config.juniorBaseRate ?? 0.05,
+      juniorSlope: config.juniorSlope ?? 0.20,
+      gasPriceGwei: config.gasPriceGwei ?? 30,
+      maxLogBlockRange: config.maxLogBlockRange ?? Infinity,
+    };
+    this.gasUnits = { approveUsdc: 46_000, approveCtf: 46_000, open: 310_000, close: 170_000,
+      deposit: 90_000, withdraw: 90_000, redeem: 90_000,
+      depositJunior: 90_000, withdrawJunior: 90_000, claimJuniorRewards: 70_000, ...config.gasUnits,
+    };
+
+    this.addSeniorLiquidity(config.seniorLiquidityUSDC ?? 1_000_000);
+  }
+
+  /**
+   * Returns a ProtocolBackend that sends calls as `account`.
+   */
+  connect(account: string): ProtocolBackend {
+    return new InMemoryProtocolBackend(this, account);
+  }
+
+  /**
+   * Register a binary market and stake its junior pools.
+   */
+  addMarket(conditionId: string, config: InMemoryMarketConfig = {}): void {
+    const market: MarketState = {
+      yesPositionId: config.yesPositionId || derivePositionId(conditionId, 1),
+      noPositionId: config.noPositionId || derivePositionId(conditionId, 2),
+      outcomeSlotCount: config.outcomeSlotCount ?? 2,
+      yesPrice: config.yesPrice ?? 0.5,
+      verified: false,
+      resolved: false,
+    };
+    this.markets.set(conditionId.toLowerCase(), market);
+
+    for (const [positionId, tokens] of [
+      [market.yesPositionId, toUnits(config.juniorYes ?? 1_000_000)],
+      [market.noPositionId, toUnits(config.juniorNo ?? 1_000_000)],
+    ] as const) {
+      this.juniorPools.set(positionId, { staked: 0n, rewardPerToken: 0n, stakers: new Map() });
+      this.ledger.mintCtf(this.address, positionId, tokens);
+      this.stake(this.address, positionId, tokens);
+    }
+  }
+
+  /**
+   * Update the oracle YES price (NO = 1 - YES) used to cap F.
+   */
+  setMarketPrice(conditionId: string, yesPrice: number): void {
+    this.getMarket(conditionId).yesPrice = yesPrice;
+  }
+
+  /**
+   * Report a payout for the market. Legs on it become closable by anyone.
+   */
+  resolveMarket(conditionId: string): void {
+    this.getMarket(conditionId).resolved = true;
+  }
+
+  /**
+   * Deposit USDC into the senior pool; the shares go to the protocol address.
+   */
+  addSeniorLiquidity(amountUSDC: number): void {
+    const assets = toUnits(amountUSDC);
+    this.mintShares(this.address, this.convertToShares(assets, false));
+    this.ledger.mintUsdc(this.address, assets);
+  }
+
+  /**
+   * Senior pool utilization (0-1).
+   */
+  seniorUtilization(): number {
+    const available = this.ledger.usdcBalanceOf(this.address);
+    const total = available + this.seniorBorrowed;
+    return total === 0n ? 1 : Number(this.seniorBorrowed) / Number(total);
+  }
+
+  vaultTotals(): VaultTotals {
+    const idle = this.ledger.usdcBalanceOf(this.address);
+    return { totalAssets: idle + this.seniorBorrowed, totalSupply: this.totalShares, idle };
+  }
+
+  sharesOf(account: string): bigint {
+    return this.shares.get(account.toLowerCase()) || 0n;
+  }
+
+  previewVault(action: VaultPreview, amount: bigint): bigint {
+    return action === 'redeem' ? this.convertToAssets(amount) : this.convertToShares(amount, action === 'withdraw');
+  }
+
+  /**
+   * Withdrawals are limited by the owner's shares and the USDC not lent out
+   */
+  vaultLimits(owner: string): VaultLimits {
+    const { idle } = this.vaultTotals();
+    const shares = this.sharesOf(owner);
+    return {
+      maxWithdraw: min(this.convertToAssets(shares), idle),
+      maxRedeem: min(shares, this.convertToShares(idle, false)),
+    };
+  }
+
+  deposit(sender: string, assets: bigint): VaultTxResult {
+    this.requireNotPaused();
+    if (!this.ledger.isUsdcApproved(sender, this.address)) {
+      throw new Error('ERC20: transfer amount exceeds allowance');
+    }
+    const shares = this.convertToShares(assets, false);
+    if (shares === 0n) throw new Error('ERC4626: zero shares');
+
+    this.ledger.transferUsdc(sender, this.address, assets);
+    this.mintShares(sender, shares);
+    return { txHash: this.recordTx('deposit'), assets, shares };
+  }
+
+  withdraw(sender: string, assets: bigint): VaultTxResult {
+    this.requireNotPaused();
+    if (assets > this.vaultLimits(sender).maxWithdraw) {
+      throw new Error(this.ledger.usdcBalanceOf(this.address) < assets
+        ? 'ForecastProtocol: insufficient senior liquidity'
+        : 'ERC4626: withdraw more than max');
+    }
+    const shares = this.convertToShares(assets, true);
+    this.burnShares(sender, shares);
+    this.ledger.transferUsdc(this.address, sender, assets);
+    return { txHash: this.recordTx('withdraw'), assets, shares };
+  }
+
+  redeem(sender: string, shares: bigint): VaultTxResult {
+    this.requireNotPaused();
+    if (shares > this.vaultLimits(sender).maxRedeem) {
+      throw new Error(shares <= this.sharesOf(sender)
+        ? 'ForecastProtocol: insufficient senior liquidity'
+        : 'ERC4626: redeem more than max');
+    }
+    const assets = this.convertToAssets(shares);
+    this.burnShares(sender, shares);
+    this.ledger.transferUsdc(this.address, sender, assets);
+    return { txHash: this.recordTx('redeem'), assets, shares };
+  }
+
+  juniorPoolTotals(positionId: string): JuniorPoolTotals {
+    return {
+      staked: this.getJuniorPool(positionId).staked,
+      available: this.ledger.ctfBalanceOf(this.address, positionId),
+    };
+  }
+
+  juniorStakeOf(positionId: string, account: string): JuniorStake {
+    const pool = this.getJuniorPool(positionId);
+    const staker = pool.stakers.get(account.toLowerCase());
+    if (!staker) return { staked: 0n, pendingRewards: 0n };
+    return {
+      staked: staker.staked,
+      pendingRewards: staker.owed + staker.staked * pool.rewardPerToken / E18 - staker.rewardDebt,
+    };
+  }
+
+  depositJunior(sender: string, positionId: string, amount: bigint): string {
+    this.requireNotPaused();
+    this.getJuniorPool(positionId);
+    if (amount <= 0n) throw new Error('ForecastProtocol: zero amount');
+    if (!this.ledger.isCtfApproved(sender, this.address)) {
+      throw new Error('ERC1155: caller is not token owner or approved');
+    }
+    this.ledger.transferCtf(sender, this.address, positionId, amount);
+    this.stake(sender, positionId, amount);
+    return this.recordTx('depositJunior');
+  }
+
+  /**
+   * Only tokens not escrowed in open legs can be withdrawn
+   */
+  withdrawJunior(sender: string, positionId: string, amount: bigint): string {
+    this.requireNotPaused();
+    if (amount <= 0n || amount > this.juniorStakeOf(positionId, sender).staked) {
+      throw new Error('ForecastProtocol: withdraw exceeds stake');
+    }
+    if (this.ledger.ctfBalanceOf(this.address, positionId) < amount) {
+      throw new Error('ForecastProtocol: insufficient junior liquidity');
+    }
+    this.stake(sender, positionId, -amount);
+    this.ledger.transferCtf(this.address, sender, positionId, amount);
+    return this.recordTx('withdrawJunior');
+  }
+
+  claimJuniorRewards(sender: string, positionId: string): { txHash: string; shares: bigint } {
+    this.requireNotPaused();
+    const staker = this.settle(this.getJuniorPool(positionId), sender);
+    const shares = staker.owed;
+    staker.owed = 0n;
+    this.burnShares(this.juniorRewardsAccount, shares);
+    this.mintShares(sender, shares);
+    return { txHash: this.recordTx('claimJuniorRewards'), shares };
+  }
+
+  /**
+   * LegOpened / LegClosed events in emission order.
+   */
+  getEvents(): InMemoryProtocolEvent[] {
+    return this.events.map(event => ({ ...event }));
+  }
+
+  /**
+   * Event logs in a block range, as an RPC getLogs would return them.
+   */
+  getLegEvents(fromBlock: number, toBlock: number): LegEvent[] {
+    if (toBlock - fromBlock + 1 > this.config.maxLogBlockRange) {
+      throw new Error(`query exceeds max block range ${this.config.maxLogBlockRange}`);
+    }
+    return this.events
+      .filter(event => event.blockNumber >= fromBlock && event.blockNumber <= toBlock)
+      .map(({ name, legId, blockNumber, txHash, autoClose }) => ({
+        name,
+        legId,
+        blockNumber,
+        txHash,
+        ...(name === 'LegClosed' ? { autoClose } : {}),
+      }));
+  }
+
+  quote(sets: number, term: number, conditionId: string, longYes: boolean): ProtocolQuote {
+    const market = this.getMarket(conditionId);
+    const available = this.ledger.usdcBalanceOf(this.address);
+    const seniorTotal = Number(available + this.seniorBorrowed);
+    const juniorTotal = Number(this.getJuniorPool(longYes ? market.noPositionId : market.yesPositionId).staked);
+    const juniorAvailable = Number(this.ledger.ctfBalanceOf(
+      this.address,
+      longYes ? market.noPositionId : market.yesPositionId
+    ));
+    const tau = term / YEAR;
+    const longPrice = longYes ? market.yesPrice : 1 - market.yesPrice;
+    const maxF = Math.min(this.config.maxF, longPrice * (1 - this.config.priceHaircut));
+
+    // Solve F and rates together: rates depend on usdcNeeded, which depends on F
+    let F = maxF;
+    let rS = 0;
+    let rJ = 0;
+    let converged = false;
+
+    for (let i = 0; i < 64; i++) {
+      const usdcNeeded = sets * F * 1e6;
+      const seniorUtil = seniorTotal > 0 ? Math.min(1, (Number(this.seniorBorrowed) + usdcNeeded) / seniorTotal) : 1;
+      const juniorUtil = juniorTotal > 0 ? Math.min(1, (juniorTotal - juniorAvailable + sets * 1e6) / juniorTotal) : 1;
+
+      rS = this.seniorRate(seniorUtil);
+      rJ = this.config.juniorBaseRate + this.config.juniorSlope * juniorUtil;
+
+      const nextF = Math.min(maxF, (1 - this.config.runwayBuffer) / (1 + (rS + rJ) * tau));
+      if (Math.abs(nextF - F) < 1e-12) {
+        F = nextF;
+        converged = true;
+        break;
+      }
+      F = nextF;
+    }
+
+    return {
+      F: toE18(F),
+      rS: toE18(rS),
+      rJ: toE18(rJ),
+      usdcNeeded: BigInt(Math.floor(sets * F * 1e6)),
+      converged,
+    };
+  }
+
+  open(sender: string, sets: number, term: number, conditionId: string, longYes: boolean): OpenLegResult {
+    const { quote, longPositionId, shortPositionId, tokens } = this.checkOpen(sender, sets, term, conditionId, longYes);
+
+    const legId = this.nextLegId++;
+    const escrow = deriveEscrow(this.address, legId);
+
+    this.ledger.transferCtf(sender, escrow, longPositionId, tokens);
+    this.ledger.transferCtf(this.address, escrow, shortPositionId, tokens);
+    this.ledger.transferUsdc(this.address, sender, quote.usdcNeeded);
+    this.seniorBorrowed += quote.usdcNeeded;
+
+    this.legStore.set(legId, {
+      sets: BigInt(sets),
+      F_e18: quote.F,
+      rS_e18: quote.rS,
+      rJ_e18: quote.rJ,
+      opened: this.ledger.timestamp,
+      term,
+      borrower: sender,
+      escrow,
+      longPositionId: BigInt(longPositionId),
+      shortPositionId: BigInt(shortPositionId),
+      conditionId,
+      principal: quote.usdcNeeded,
+      isOpen: true,
+    });
+
+    const txHash = this.recordTx('open');
+    this.emit('LegOpened', legId, sender, conditionId, txHash);
+    return { legId, txHash };
+  }
+
+  close(sender: string, legId: bigint, gasLimit?: bigint): string {
+    const { leg, autoClose, seniorInterest, juniorInterest } = this.checkClose(sender, legId);
+    if (gasLimit !== undefined && gasLimit < BigInt(this.gasUnits.close)) {
+      throw new Error('Transaction ran out of gas');
+    }
+    const longPositionId = leg.longPositionId.toString();
+    const shortPositionId = leg.shortPositionId.toString();
+    const tokens = toUnits(Number(leg.sets));
+    let juniorPaid = juniorInterest;
+
+    if (!autoClose) {
+      // Borrower repays principal + accrued interest and takes the long tokens back
+      this.ledger.transferUsdc(sender, this.address, leg.principal + seniorInterest + juniorInterest);
+      this.ledger.transferCtf(leg.escrow, sender, longPositionId, tokens);
+      this.ledger.transferCtf(leg.escrow, this.address, shortPositionId, tokens);
+    } else {
+      // Merge the escrowed set for $1 each: senior first, then junior, surplus to borrower
+      this.ledger.burnCtf(leg.escrow, longPositionId, tokens);
+      this.ledger.burnCtf(leg.escrow, shortPositionId, tokens);
+
+      let remaining = tokens;
+      const seniorPaid = min(remaining, leg.principal + seniorInterest);
+      remaining -= seniorPaid;
+      juniorPaid = min(remaining, juniorInterest);
+      remaining -= juniorPaid;
+
+      this.ledger.mintUsdc(this.address, seniorPaid + juniorPaid);
+      this.ledger.mintUsdc(leg.borrower, remaining);
+    }
+
+    this.seniorBorrowed -= leg.principal;
+    leg.isOpen = false;
+    this.distributeJuniorRewards(shortPositionId, juniorPaid);
+
+    const txHash = this.recordTx('close');
+    this.emit('LegClosed', legId, leg.borrower, leg.conditionId, txHash, autoClose);
+    return txHash;
+  }
+
+  legs(legId: bigint): LegData {
+    const leg = this.legStore.get(legId);
+    if (!leg) {
+      // Unknown legs read as an empty struct, like a Solidity mapping
+      return {
+        sets: 0n, F_e18: 0n, rS_e18: 0n, rJ_e18: 0n, opened: 0, term: 0,
+        borrower: ethers.constants.AddressZero, escrow: ethers.constants.AddressZero,
+        longPositionId: 0n, shortPositionId: 0n, conditionId: ethers.constants.HashZero,
+      };
+    }
+    const { principal, isOpen, ...data } = leg;
+    return { ...data };
+  }
+
+  yesPositionId(conditionId: string): string {
+    return this.getMarket(conditionId).yesPositionId;
+  }
+
+  noPositionId(conditionId: string): string {
+    return this.getMarket(conditionId).noPositionId;
+  }
+
+  isResolved(conditionId: string): boolean {
+    return this.getMarket(conditionId).resolved;
+  }
+
+  /**
+   * Structural check only: binary and unresolved. Re-verifying is a no-op.
+   */
+  verifyMarket(conditionId: string): void {
+    this.checkMarket(conditionId);
+    this.getMarket(conditionId).verified = true;
+  }
+
+  /**
+   * Revert checks of verifyMarket()
+   */
+  checkMarket(conditionId: string): void {
+    const market = this.getMarket(conditionId);
+    if (market.outcomeSlotCount !== 2) throw new Error('ForecastProtocol: market not binary');
+    if (market.resolved) throw new Error('ForecastProtocol: market resolved');
+  }
+
+  gasPrice(): bigint {
+    return BigInt(Math.round(this.config.gasPriceGwei * 1e9));
+  }
+
+  /**
+   * Gas units for `call` sent by `sender`; throws the revert reason the
+   * transaction would fail with
+   */
+  estimateGas(sender: string, call: GasCall): bigint {
+    if (call.action === 'open') {
+      const { longPositionId, tokens } = this.checkOpen(sender, call.sets, call.term, call.conditionId, call.longYes);
+      if (this.ledger.ctfBalanceOf(sender, longPositionId) < tokens) {
+        throw new Error(`ERC1155: transfer amount exceeds balance (${sender})`);
+      }
+    } else if (call.action === 'close') {
+      const { leg, autoClose, seniorInterest, juniorInterest } = this.checkClose(sender, call.legId);
+      if (!autoClose && this.ledger.usdcBalanceOf(sender) < leg.principal + seniorInterest + juniorInterest) {
+        throw new Error(`ERC20: transfer amount exceeds balance (${sender})`);
+      }
+    }
+    return BigInt(this.gasUnits[call.action]);
+  }
+
+  /**
+   * gasUsed * gasPrice of a transaction sent through this protocol
+   */
+  transactionCost(txHash: string): bigint {
+    const receipt = this.receipts.get(txHash);
+    if (!receipt) throw new Error(`Unknown transaction ${txHash}`);
+    return receipt.gasUsed * receipt.gasPrice;
+  }
+
+  /**
+   * Mine a transaction for `action` at the current gas price
+   */
+  recordTx(action: GasAction): string {
+    const txHash = this.ledger.nextTx();
+    this.receipts.set(txHash, { gasUsed: BigInt(this.gasUnits[action]), gasPrice: this.gasPrice() });
+    return txHash;
+  }
+
+  /**
+   * Revert checks of open(), shared with estimateGas
+   */
+  private checkOpen(sender: string, sets: number, term: number, conditionId: string, longYes: boolean) {
+    this.requireNotPaused();
+    const market = this.getMarket(conditionId);
+    if (!market.verified) throw new Error('ForecastProtocol: market not verified');
+    if (market.resolved) throw new Error('ForecastProtocol: market resolved');
+    if (sets <= 0 || term <= 0) throw new Error('ForecastProtocol: zero sets or term');
+    if (!this.ledger.isCtfApproved(sender, this.address)) {
+      throw new Error('ERC1155: caller is not token owner or approved');
+    }
+
+    const quote = this.quote(sets, term, conditionId, longYes);
+    const longPositionId = longYes ? market.yesPositionId : market.noPositionId;
+    const shortPositionId = longYes ? market.noPositionId : market.yesPositionId;
+    const tokens = toUnits(sets);
+
+    if (this.ledger.usdcBalanceOf(this.address) < quote.usdcNeeded) {
+      throw new Error('ForecastProtocol: insufficient senior liquidity');
+    }
+    if (this.ledger.ctfBalanceOf(this.address, shortPositionId) < tokens) {
+      throw new Error('ForecastProtocol: insufficient junior liquidity');
+    }
+
+    return { quote, longPositionId, shortPositionId, tokens };
+  }
+
+  /**
+   * Revert checks and accrued interest of close(), shared with estimateGas
+   */
+  private checkClose(sender: string, legId: bigint) {
+    this.requireNotPaused();
+    const leg = this.legStore.get(legId);
+    if (!leg || !leg.isOpen) throw new Error(`ForecastProtocol: leg ${legId} not open`);
+
+    const market = this.getMarket(leg.conditionId);
+    const elapsed = Math.max(0, this.ledger.timestamp - leg.opened);
+    const expired = elapsed >= leg.term;
+    const autoClose = expired || market.resolved;
+    const tau = Math.min(elapsed, leg.term) / YEAR;
+    const seniorInterest = BigInt(Math.floor(Number(leg.principal) * fromE18(leg.rS_e18) * tau));
+    const juniorInterest = BigInt(Math.floor(Number(leg.principal) * fromE18(leg.rJ_e18) * tau));
+
+    if (!autoClose) {
+      if (sender.toLowerCase() !== leg.borrower.toLowerCase()) {
+        throw new Error('ForecastProtocol: only borrower can close before expiry');
+      }
+      if (!this.ledger.isUsdcApproved(sender, this.address)) {
+        throw new Error('ERC20: transfer amount exceeds allowance');
+      }
+    }
+
+    return { leg, autoClose, seniorInterest, juniorInterest };
+  }
+
+  /**
+   * Shares worth `assets` at the current share price (1:1 while the vault is empty)
+   */
+  private convertToShares(assets: bigint, roundUp: boolean): bigint {
+    const { totalAssets, totalSupply } = this.vaultTotals();
+    if (totalSupply === 0n || totalAssets === 0n) return assets;
+    const product = assets * totalSupply;
+    return product / totalAssets + (roundUp && product % totalAssets > 0n ? 1n : 0n);
+  }
+
+  private convertToAssets(shares: bigint): bigint {
+    const { totalAssets, totalSupply } = this.vaultTotals();
+    return totalSupply === 0n ? shares : shares * totalAssets / totalSupply;
+  }
+
+  /**
+   * Change `account`'s stake by `delta` tokens, settling its rewards first
+   */
+  private stake(account: string, positionId: string, delta: bigint): void {
+    const pool = this.getJuniorPool(positionId);
+    const staker = this.settle(pool, account);
+    staker.staked += delta;
+    staker.rewardDebt = staker.staked * pool.rewardPerToken / E18;
+    pool.staked += delta;
+  }
+
+  /**
+   * Move the rewards a staker has earned so far into `owed`
+   */
+  private settle(pool: JuniorPoolState, account: string) {
+    const key = account.toLowerCase();
+    const staker = pool.stakers.get(key) || { staked: 0n, rewardDebt: 0n, owed: 0n };
+    const accrued = staker.staked * pool.rewardPerToken / E18;
+    staker.owed += accrued - staker.rewardDebt;
+    staker.rewardDebt = accrued;
+    pool.stakers.set(key, staker);
+    return staker;
+  }
+
+  /**
+   * Turn junior interest the vault just received into fUSDC for the pool's
+   * stakers. Shares are priced without that USDC, so senior lenders are
+   * not diluted; with nobody staked it stays with the senior pool.
+   */
+  private distributeJuniorRewards(positionId: string, usdc: bigint): void {
+    const pool = this.getJuniorPool(positionId);
+    if (usdc === 0n || pool.staked === 0n) return;
+
+    const { totalAssets, totalSupply } = this.vaultTotals();
+    const shares = totalSupply === 0n || totalAssets === usdc ? usdc : usdc * totalSupply / (totalAssets - usdc);
+    this.mintShares(this.juniorRewardsAccount, shares);
+    pool.rewardPerToken += shares * E18 / pool.staked;
+  }
+
+  private getJuniorPool(positionId: string): JuniorPoolState {
+    const pool = this.juniorPools.get(positionId);
+    if (!pool) throw new Error(`ForecastProtocol: no junior pool for position ${positionId}`);
+    return pool;
+  }
+
+  private mintShares(account: string, shares: bigint): void {
+    this.shares.set(account.toLowerCase(), this.sharesOf(account) + shares);
+    this.totalShares += shares;
+  }
+
+  private burnShares(account: string, shares: bigint): void {
+    const balance = this.sharesOf(account);
+    if (balance < shares) throw new Error(`ERC20: burn amount exceeds balance (${account})`);
+    this.shares.set(account.toLowerCase(), balance - shares);
+    this.totalShares -= shares;
+  }
+
+  private seniorRate(utilization: number): number {
+    const { seniorBaseRate, seniorSlope, seniorKink, seniorJumpSlope } = this.config;
+    if (utilization <= seniorKink) {
+      return seniorBaseRate + seniorSlope * (utilization / seniorKink);
+    }
+    return seniorBaseRate + seniorSlope + seniorJumpSlope * ((utilization - seniorKink) / (1 - seniorKink));
+  }
+
+  private requireNotPaused(): void {
+    if (this.paused) throw new Error('Pausable: paused');
+  }
+
+  private getMarket(conditionId: string): MarketState {
+    const market = this.markets.get(conditionId.toLowerCase());
+    if (!market) throw new Error(`ForecastProtocol: condition ${conditionId} not prepared`);
+    return market;
+  }
+
+  private emit(
+    name: InMemoryProtocolEvent['name'],
+    legId: bigint,
+    borrower: string,
+    conditionId: string,
+    txHash: string,
+    autoClose?: boolean
+  ): void {
+    this.events.push({
+      name,
+      legId,
+      borrower,
+      conditionId,
+      blockNumber: this.ledger.blockNumber,
+      timestamp: this.ledger.timestamp,
+      txHash,
+      ...(name === 'LegClosed' ? { autoClose } : {}),
+    });
+  }
+}
+
+/**
+ * ProtocolBackend view of an InMemoryProtocol acting as one account.
+ */
+class InMemoryProtocolBackend implements ProtocolBackend {
+  readonly address: string;
+
+  constructor(private protocol: InMemoryProtocol, private account: string) {
+    this.address = protocol.address;
+  }
+
+  async open(sets: number, term: number, conditionId: string, longYes: boolean): Promise<OpenLegResult> {
+    return this.protocol.open(this.account, sets, term, conditionId, longYes);
+  }
+
+  async close(legId: bigint, gasLimit?: bigint): Promise<string> {
+    return this.protocol.close(this.account, legId, gasLimit);
+  }
+
+  async quote(sets: number, term: number, conditionId: string, longYes: boolean): Promise<ProtocolQuote> {
+    return this.protocol.quote(sets, term, conditionId, longYes);
+  }
+
+  async legs(legId: bigint): Promise<LegData> {
+    return this.protocol.legs(legId);
+  }
+
+  async yesPositionId(conditionId: string): Promise<string> {
+    return this.protocol.yesPositionId(conditionId);
+  }
+
+  async noPositionId(conditionId: string): Promise<string> {
+    return this.protocol.noPositionId(conditionId);
+  }
+
+  async verifyMarket(conditionId: string): Promise<void> {
+    this.protocol.verifyMarket(conditionId);
+  }
+
+  async checkMarket(conditionId: string): Promise<void> {
+    this.protocol.checkMarket(conditionId);
+  }
+
+  async isResolved(conditionId: string): Promise<boolean> {
+    return this.protocol.isResolved(conditionId);
+  }
+
+  async getLegEvents(fromBlock: number, toBlock: number): Promise<LegEvent[]> {
+    return this.protocol.getLegEvents(fromBlock, toBlock);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.protocol.ledger.blockNumber;
+  }
+
+  async getBlockTimestamp(): Promise<number> {
+    return this.protocol.ledger.timestamp;
+  }
+
+  async usdcBalanceOf(account: string): Promise<bigint> {
+    return this.protocol.ledger.usdcBalanceOf(account);
+  }
+
+  async ctfBalanceOf(account: string, positionId: string): Promise<bigint> {
+    return this.protocol.ledger.ctfBalanceOf(account, positionId);
+  }
+
+  async setupApprovals(kinds: ApprovalKind[] = ['approveUsdc', 'approveCtf']): Promise<ApprovalTx[]> {
+    const sent: ApprovalTx[] = [];
+    if (kinds.includes('approveUsdc')) {
+      this.protocol.ledger.approveUsdc(this.account, this.protocol.address);
+      sent.push({ kind: 'approveUsdc', txHash: this.protocol.recordTx('approveUsdc') });
+    }
+    if (kinds.includes('approveCtf')) {
+      this.protocol.ledger.setApprovalForAll(this.account, this.protocol.address);
+      sent.push({ kind: 'approveCtf', txHash: this.protocol.recordTx('approveCtf') });
+    }
+    return sent;
+  }
+
+  async getGasPrice(): Promise<bigint> {
+    return this.protocol.gasPrice();
+  }
+
+  async estimateGas(call: GasCall): Promise<bigint> {
+    return this.protocol.estimateGas(this.account, call);
+  }
+
+  async getTransactionCost(txHash: string): Promise<bigint> {
+    return this.protocol.transactionCost(txHash);
+  }
+
+  async usdcAllowance(account: string): Promise<bigint> {
+    return this.protocol.ledger.isUsdcApproved(account, this.protocol.address) ? BigInt(ethers.constants.MaxUint256.toString()) : 0n;
+  }
+
+  async vaultTotals(): Promise<VaultTotals> {
+    return this.protocol.vaultTotals();
+  }
+
+  async vaultSharesOf(account: string): Promise<bigint> {
+    return this.protocol.sharesOf(account);
+  }
+
+  async previewVault(action: VaultPreview, amount: bigint): Promise<bigint> {
+    return this.protocol.previewVault(action, amount);
+  }
+
+  async vaultLimits(owner: string): Promise<VaultLimits> {
+    return this.protocol.vaultLimits(owner);
+  }
+
+  async depositSenior(assets: bigint): Promise<VaultTxResult> {
+    return this.protocol.deposit(this.account, assets);
+  }
+
+  async withdrawSenior(assets: bigint): Promise<VaultTxResult> {
+    return this.protocol.withdraw(this.account, assets);
+  }
+
+  async redeemSenior(shares: bigint): Promise<VaultTxResult> {
+    return this.protocol.redeem(this.account, shares);
+  }
+
+  async isCtfApproved(account: string): Promise<boolean> {
+    return this.protocol.ledger.isCtfApproved(account, this.protocol.address);
+  }
+
+  async juniorPool(positionId: string): Promise<JuniorPoolTotals> {
+    return this.protocol.juniorPoolTotals(positionId);
+  }
+
+  async juniorStakeOf(positionId: string, account: string): Promise<JuniorStake> {
+    return this.protocol.juniorStakeOf(positionId, account);
+  }
+
+  async depositJunior(positionId: string, amount: bigint): Promise<string> {
+    return this.protocol.depositJunior(this.account, positionId, amount);
+  }
+
+  async withdrawJunior(positionId: string, amount: bigint): Promise<string> {
+    return this.protocol.withdrawJunior(this.account, positionId, amount);
+  }
+
+  async claimJuniorRewards(positionId: string): Promise<{ txHash: string; shares: bigint }> {
+    return this.protocol.claimJuniorRewards(this.account, positionId);
+  }
+}
+
+function toUnits(amount: number): bigint {
+  return BigInt(Math.round(amount * 1e6));
+}
+
+function toE18(value: number): bigint {
+  return BigInt(Math.round(value * 1e18));
+}
+
+function fromE18(value: bigint): number {
+  return Number(value) / 1e18;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function derivePositionId(conditionId: string, indexSet: number): string {
+  return ethers.BigNumber.from(
+    ethers.utils.solidityKeccak256(['string', 'uint256'], [conditionId.toLowerCase(), indexSet])
+  ).toString();
+}
+
+function deriveEscrow(protocolAddress: string, legId: bigint): string {
+  const hash = ethers.utils.solidityKeccak256(['address', 'uint256'], [protocolAddress, legId.toString()]);
+  return ethers.utils.getAddress(ethers.utils.hexDataSlice(hash, 12));
+}
@@ -0,0 +1,71 @@
+import { ethers } from "ethers";
+import { ValidationError } from "./errors";
+
+/**
+ * Market metadata
+ *
+ * Market details the chain does not hold, such as the question and when
+ * trading is scheduled to close. checkMarketEligibility uses the end date
+ * to flag positions whose term runs past it. A MarketMetadataSource is the
+ * Polymarket Gamma API, a fixed table, or any callback.
+ */
+
+export interface MarketMetadata {
+  question?: string;
+  endDate?: number;                // Unix timestamp (seconds) trading is scheduled to close
+  active?: boolean;                // Listed for trading
+  closed?: boolean;                // Trading has closed
+}
+
+export interface MarketMetadataSource {
+  /** Metadata for a condition, or null if the source does not know it */
+  getMarket(conditionId: string): Promise<MarketMetadata | null>;
+}
+
+/**
+ * Metadata from a table keyed by condition ID, e.g. markets the app lists
+ */
+export function staticMarketMetadata(markets: Record<string, MarketMetadata>): MarketMetadataSource {
+  const table = new Map(Object.entries(markets).map(([conditionId, metadata]) => [conditionId.toLowerCase(), metadata]));
+  return { getMarket: async conditionId => table.get(conditionId.toLowerCase()) ?? null };
+}
+
+/**
+ * Metadata from a callback (app database, cache); called once per check
+ */
+export function callbackMarketMetadata(
+  callback: (conditionId: string) => MarketMetadata | null | Promise<MarketMetadata | null>
+): MarketMetadataSource {
+  return { getMarket: async conditionId => (await callback(conditionId)) ?? null };
+}
+
+/**
+ * Metadata from the Polymarket Gamma API (`/markets?condition_ids=`)
+ *
+ * @throws {ValidationError} If the host is not an http(s) URL
+ */
+export function gammaMarketMetadata(host: string = 'https://gamma-api.polymarket.com'): MarketMetadataSource {
+  if (!/^https?:\/\//.test(host)) {
+    throw new ValidationError(`Invalid Gamma host: ${host} (must be an http(s) URL)`);
+  }
+  const base = host.replace(/\/+$/, '');
+
+  return {
+    getMarket: async conditionId => {
+      const markets = await ethers.utils.fetchJson(`${base}/markets?condition_ids=${conditionId}`);
+      const market = Array.isArray(markets)
+        ? markets.find((entry: any) => String(entry?.conditionId).toLowerCase() === conditionId.toLowerCase())
+        : undefined;
+      if (!market) {
+        return null;
+      }
+      const endDate = Date.parse(market.endDate);
+      return {
+        question: market.question,
+        endDate: Number.isNaN(endDate) ? undefined : Math.floor(endDate / 1000),
+        active: market.active,
+        closed: market.closed,
+      };
+    },
+  };
+}
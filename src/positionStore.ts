@@ -0,0 +1,258 @@
+import { ethers } from "ethers";
+import { TargetPositionParams, LeveragePosition, LeverageParams } from "./types";
+import { OrderSide } from "./exchange";
+import { ApprovalTx } from "./protocol";
+
+/**
+ * Position store
+ *
+ * The SDK records every position it opens, closes, reduces or unwinds in a
+ * PositionStore, so leg IDs, entry parameters and fills survive process
+ * restarts. JsonFilePositionStore (the default under Node) keeps records in
+ * a JSON file; InMemoryPositionStore (the default in browsers) keeps them
+ * for the life of the process.
+ */
+
+export type PositionRecordStatus = 'opening' | 'open' | 'closed' | 'failed';
+
+export interface OrderFillRecord {
+  orderId: string;
+  tokenId: string;
+  side: OrderSide;
+  size: number;                    // Tokens filled
+  avgPrice: number;                // Average execution price
+  slippage: number;                // USDC lost vs best price when placed
+  timestamp: number;               // Unix timestamp (ms)
+}
+
+export interface LegRecord {
+  legId: bigint;
+  txHash: string;                  // Open transaction
+  sets: number;                    // Whole tokens escrowed
+  open: boolean;
+  closeTxHash?: string;
+}
+
+/**
+ * Progress of an opening run, saved after every buy and every leg so
+ * resumeOpen can reconcile and continue it after a crash
+ */
+export interface OpenCheckpoint {
+  leverageParams: LeverageParams;  // Loop plan (token ID, loop count)
+  loop: number;                    // Loops completed
+  stage: 'buy' | 'open';           // Next step of the current loop
+  remainingUSDC: number;           // Run budget: capital plus USDC lent, less USDC spent (6 decimals)
+  pendingTokens: number;           // Bought but not yet escrowed (6 decimals)
+  pendingOrderId?: string;         // Posted buy whose fill is not yet recorded
+  tokenBalance: bigint;            // Wallet token balance at the checkpoint (6 decimals)
+  totalTokensBought: number;       // 6 decimals
+  totalSlippage: number;
+  startBlock: number;              // Block before the first leg, for log reconciliation
+}
+
+export interface PositionRecord {
+  id: string;
+  status: PositionRecordStatus;
+  params: TargetPositionParams;
+  fills: OrderFillRecord[];        // Buys and sells, in execution order
+  legs: LegRecord[];               // In open order
+  approvals?: ApprovalTx[];        // Approvals sent while opening, for gas from receipts
+  position?: LeveragePosition;     // Latest metrics (after open or reduce)
+  error?: string;                  // Why opening failed
+  checkpoint?: OpenCheckpoint;     // While status is 'opening'
+  createdAt: number;               // Unix timestamp (ms)
+  updatedAt: number;               // Unix timestamp (ms)
+}
+
+export interface PositionStore {
+  /** Insert or replace a record by ID. */
+  save(record: PositionRecord): Promise<void>;
+  get(id: string): Promise<PositionRecord | null>;
+  list(): Promise<PositionRecord[]>;
+  findByLegId(legId: bigint): Promise<PositionRecord | null>;
+}
+
+/**
+ * Create an empty record for a position about to be opened
+ */
+export function newPositionRecord(params: TargetPositionParams): PositionRecord {
+  const now = Date.now();
+  return {
+    id: ethers.utils.hexlify(ethers.utils.randomBytes(16)),
+    status: 'opening',
+    params: { ...params },
+    fills: [],
+    legs: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Store used when none is configured: the JSON file store under Node, the
+ * in-memory store where there is no file system (browsers, web workers)
+ */
+export function defaultPositionStore(): PositionStore {
+  const isNode = typeof process !== 'undefined' && !!process.versions?.node && !('window' in globalThis);
+  return isNode ? new JsonFilePositionStore() : new InMemoryPositionStore();
+}
+
+/**
+ * JSON with bigints encoded as `{ "$bigint": "123" }`
+ */
+export function serializeRecords(records: PositionRecord[]): string {
+  return JSON.stringify(records, (_key, value) =>
+    typeof value === 'bigint' ? { $bigint: value.toString() } : value, 2);
+}
+
+export function deserializeRecords(json: string): PositionRecord[] {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value);
+}
+
+function cloneRecord(record: PositionRecord): PositionRecord {
+  return deserializeRecords(serializeRecords([record]))[0];
+}
+
+/**
+ * Records kept in memory for the life of the process (tests, browsers).
+ */
+export class InMemoryPositionStore implements PositionStore {
+  private records = new Map<string, PositionRecord>();
+
+  async save(record: PositionRecord): Promise<void> {
+    this.records.set(record.id, cloneRecord(record));
+  }
+
+  async get(id: string): Promise<PositionRecord | null> {
+    const record = this.records.get(id);
+    return record ? cloneRecord(record) : null;
+  }
+
+  async list(): Promise<PositionRecord[]> {
+    return [...this.records.values()].map(cloneRecord);
+  }
+
+  async findByLegId(legId: bigint): Promise<PositionRecord | null> {
+    const record = [...this.records.values()].find(candidate => candidate.legs.some(leg => leg.legId === legId));
+    return record ? cloneRecord(record) : null;
+  }
+}
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10_000;
+const STALE_LOCK_MS = 30_000;          // A lock this old was left by a writer that died
+
+/**
+ * Records kept in a single JSON file. Every save re-reads the file under a
+ * lock file and replaces it atomically, so SDK instances and processes
+ * sharing the path (an app and its keeper) keep each other's records.
+ */
+export class JsonFilePositionStore implements PositionStore {
+  private reading: Promise<Map<string, PositionRecord>> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = 'forecast-positions.json') {}
+
+  async save(record: PositionRecord): Promise<void> {
+    const saved = cloneRecord(record);
+
+    // Queue this instance's saves; the lock file orders them against other writers
+    const write = this.writes.then(() => this.withLock(async () => {
+      const records = await this.read();
+      records.set(saved.id, saved);
+      await this.flush(records);
+    }));
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  async get(id: string): Promise<PositionRecord | null> {
+    const record = (await this.load()).get(id);
+    return record ? cloneRecord(record) : null;
+  }
+
+  async list(): Promise<PositionRecord[]> {
+    return [...(await this.load()).values()].map(cloneRecord);
+  }
+
+  async findByLegId(legId: bigint): Promise<PositionRecord | null> {
+    const record = [...(await this.load()).values()].find(candidate => candidate.legs.some(leg => leg.legId === legId));
+    return record ? cloneRecord(record) : null;
+  }
+
+  /**
+   * Read the file as it is now; concurrent calls share one read
+   */
+  private load(): Promise<Map<string, PositionRecord>> {
+    if (!this.reading) {
+      this.reading = this.read().finally(() => { this.reading = null; });
+    }
+    return this.reading;
+  }
+
+  private async read(): Promise<Map<string, PositionRecord>> {
+    let records: PositionRecord[] = [];
+    try {
+      records = deserializeRecords(await this.fs().promises.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Failed to read position store ${this.filePath}: ${error.message}`);
+      }
+    }
+    return new Map(records.map(record => [record.id, record]));
+  }
+
+  /**
+   * Run `update` holding `${filePath}.lock`, created exclusively
+   */
+  private async withLock(update: () => Promise<void>): Promise<void> {
+    const fs = this.fs();
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await (await fs.promises.open(lockPath, 'wx')).close();
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw new Error(`Failed to lock position store ${this.filePath}: ${error.message}`);
+        }
+      }
+
+      const lock = await fs.promises.stat(lockPath).catch(() => null);
+      if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+        await fs.promises.unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for position store lock ${lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+      await update();
+    } finally {
+      await fs.promises.unlink(lockPath).catch(() => undefined);
+    }
+  }
+
+  private async flush(records: Map<string, PositionRecord>): Promise<void> {
+    const fs = this.fs();
+    const tmpPath = `${this.filePath}.${ethers.utils.hexlify(ethers.utils.randomBytes(8)).slice(2)}.tmp`;
+    try {
+      await fs.promises.writeFile(tmpPath, serializeRecords([...records.values()]), 'utf8');
+      await fs.promises.rename(tmpPath, this.filePath);
+    } catch (error) {
+      await fs.promises.unlink(tmpPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Loaded lazily so browser bundles that never use the file store don't need fs
+  private fs(): typeof import('fs') {
+    return require('fs');
+  }
+}
@@ -1,6 +1,78 @@
-import { ClobClient, OrderType, Side } from "@polymarket/clob-client";
 import { ethers } from "ethers";
-import { Wallet } from "@ethersproject/wallet";
+import { SignerInput, TypedDataSigner, toTypedDataSigner } from "./signer";
+import {
+  ForecastError,
+  ValidationError,
+  PolymarketError,
+  ProtocolError,
+  ErrorContext,
+  classifyRevert,
+} from "./errors";
+import {
+  TargetPositionParams,
+  LeveragePositionParams,
+  RiskBudgetParams,
+  RiskSizing,
+  LeveragePosition,
+  LeverageParams,
+  SimulatedLoop,
+  DepthSimulation,
+  ReduceOptions,
+  ExecutionStatus,
+  ExecutionSummary,
+  ResumeOptions,
+  OpenOptions,
+  OpenProgressEvent,
+  OrderProgressEvent,
+  PositionQueryOptions,
+  RecoveredLeg,
+  RecoveredPosition,
+  UnwindOptions,
+  UnwoundLeg,
+  UnwindReport,
+  GasFees,
+  HealthMonitorOptions,
+  HealthThresholds,
+  PositionHealth,
+  ExitMonitorOptions,
+  ExitTriggers,
+  ValuationOptions,
+  PositionValuation,
+  KeeperOptions,
+  KeeperRunReport,
+  MarketEligibilityParams,
+  MarketEligibilityReport,
+  EligibilityCheck,
+} from "./types";
+import { ExchangeAdapter, ClobExchangeAdapter, walkBook } from "./exchange";
+import {
+  ProtocolBackend,
+  ContractProtocolBackend,
+  ApprovalKind,
+  ApprovalTx,
+  GasAction,
+  GasCall,
+  LegData,
+  LegEvent,
+  OpenLegResult,
+} from "./protocol";
+import {
+  PositionStore,
+  PositionRecord,
+  OrderFillRecord,
+  OpenCheckpoint,
+  defaultPositionStore,
+  newPositionRecord,
+} from "./positionStore";
+import { Logger, silentLogger } from "./logger";
+import { NetworkConfig, resolveNetworkConfig } from "./config";
+import { GasTokenPriceSource, DEFAULT_GAS_UNITS, toGasToken } from "./gas";
+import { HealthMonitor, assessLeg, legDebt, resolveHealthThresholds, summarizeHealth } from "./health";
+import { Keeper } from "./keeper";
+import { ExitMonitor, validateExitTriggers } from "./triggers";
+import { JuniorStaking, SeniorVault } from "./lender";
+import { MarketMetadata, MarketMetadataSource } from "./metadata";
+import { assessMarketClose, assessOrderBook } from "./eligibility";
 
 /**
  * Forecast Protocol SDK
@@ -13,232 +85,420 @@ import { Wallet } from "@ethersproject/wallet";
  * and calculates leverage automatically.
  *
  * COMPATIBILITY:
- * - Accepts ethers v5 OR v6 signers (e.g., Privy embedded wallets)
+ * - Accepts private keys, ethers v5 OR v6 signers, or EIP-1193 providers (e.g., Privy embedded wallets)
+ * - Remote signers sign orders and transactions themselves; keys are never extracted
  * - Internally uses v5 for Polymarket clob-client (required)
  * - NO hard-coded leverage caps - determined by liquidity only
  * - Supports FOK, GTC, GTD order types with auto-retry
  */
 
-// Protocol ABIs
-const FORECAST_PROTOCOL_ABI = [
-  "function open(uint96 sets, uint32 term, bytes32 conditionId, bool longYes) external returns (uint256 legId)",
-  "function close(uint256 legId) external",
-  "function quote(uint96 sets, uint32 term, bytes32 conditionId, bool longYes) external view returns (uint256 F, uint256 rS, uint256 rJ, uint256 usdcNeeded, bool converged)",
-  "function legs(uint256 legId) external view returns (uint96 sets, uint96 F_e18, uint96 rS_e18, uint96 rJ_e18, uint32 opened, uint32 term, address borrower, address escrow, uint256 longPositionId, uint256 shortPositionId, bytes32 conditionId)",
-  "function yesPositionId(bytes32 conditionId) external view returns (uint256)",
-  "function noPositionId(bytes32 conditionId) external view returns (uint256)",
-  "function verifyMarket(bytes32 conditionId) external",
-];
-
-const ERC20_ABI = [
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function balanceOf(address account) external view returns (uint256)",
-];
-
-const CTF_ABI = [
-  "function setApprovalForAll(address operator, bool approved) external",
-  "function balanceOf(address account, uint256 id) external view returns (uint256)",
-];
-
-interface TargetPositionParams {
-  marketConditionId: string;      // Polymarket condition ID (bytes32 hex string)
-  longYes: boolean;                // true = long YES, false = long NO
-  currentPrice: number;            // Current price in decimals (0.40 = 40¢)
-  targetPrice: number;             // Target price (0.44 = 44¢)
-  timeframeSeconds: number;        // Time until target (3600 = 1 hour)
-  capitalUSDC: number;             // Capital to deploy in dollars ($1000)
-  maxSlippageBps: number;          // Max slippage in basis points (100 = 1%)
-  orderType?: 'FOK' | 'GTC' | 'GTD'; // Order type (default: FOK for market-like execution)
-  maxRetries?: number;             // Max retries for failed orders (default: 3)
-  retryDelayMs?: number;           // Delay between retries in ms (default: 2000)
-}
-
-interface LeverageParams {
-  F: number;                       // Capital efficiency factor
-  R: number;                       // Total annual rate (rS + rJ)
-  loops: number;                   // Number of loop iterations
-  maxLeverage: number;             // Maximum achievable leverage
-  tokenId: string;                 // Polymarket token ID
-}
-
-class ValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ValidationError';
-  }
-}
-
-class PolymarketError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'PolymarketError';
-  }
-}
+// setupApprovals grants MaxUint256; an allowance spent down below half of it is renewed
+const UNLIMITED_ALLOWANCE_FLOOR = ethers.constants.MaxUint256.toBigInt() / 2n;
 
-class ProtocolError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ProtocolError';
-  }
+/**
+ * Optional collaborators injected through the constructor
+ */
+interface ForecastLeverageSDKOptions {
+  exchange?: ExchangeAdapter;      // Order book adapter (default: Polymarket CLOB)
+  protocol?: ProtocolBackend;      // Protocol/USDC/CTF backend (default: on-chain contracts)
+  store?: PositionStore;           // Position records (default: JSON file in the working directory under Node, in memory in browsers)
+  logger?: Logger;                 // Diagnostics (default: silent; consoleLogger() prints them)
 }
 
-interface LeveragePosition {
-  legIds: bigint[];                // All protocol leg IDs
-  totalExposure: number;           // Total token exposure
-  effectiveLeverage: number;       // Actual leverage achieved
-  capitalDeployed: number;         // USDC spent
-  fees: {
-    protocolSenior: number;        // Interest to senior pool
-    protocolJunior: number;        // Interest to junior pool
-    polymarketSlippage: number;    // Slippage on token purchases
-    gas: number;                   // Total gas costs
-    total: number;                 // Sum of all fees
-  };
-  pnl: {
-    atTarget: number;              // PnL if target price hit
-    breakeven: number;             // Price needed to breakeven
-    maxProfit: number;             // Max profit (at $1.00)
-    maxLoss: number;               // Max loss (at $0.00 or auto-close)
-  };
-  autoCloseTime: number;           // Timestamp when position auto-closes
-  F: number;                       // Capital efficiency factor
-  R: number;                       // Total rate (rS + rJ)
+/**
+ * Config-object constructor argument: the signer, network preset and
+ * overrides (see NetworkConfig), and the optional collaborators
+ */
+interface ForecastLeverageSDKConfig extends NetworkConfig, ForecastLeverageSDKOptions {
+  signer: SignerInput;             // Private key, ethers v5/v6 Signer or EIP-1193 provider
 }
 
 // Export error classes for integrator error handling
-export { ValidationError, PolymarketError, ProtocolError };
+export { ForecastError, ValidationError, PolymarketError, ProtocolError };
 
 // Export types
-export type { TargetPositionParams, LeveragePosition, LeverageParams };
+export type {
+  TargetPositionParams,
+  LeveragePositionParams,
+  RiskBudgetParams,
+  RiskSizing,
+  LeveragePosition,
+  LeverageParams,
+  SimulatedLoop,
+  DepthSimulation,
+  ReduceOptions,
+  ExecutionStatus,
+  ExecutionSummary,
+  ResumeOptions,
+  OpenOptions,
+  OpenProgressEvent,
+  OrderProgressEvent,
+  PositionQueryOptions,
+  RecoveredLeg,
+  RecoveredPosition,
+  UnwindOptions,
+  UnwoundLeg,
+  UnwindReport,
+  GasFees,
+  HealthMonitorOptions,
+  HealthThresholds,
+  PositionHealth,
+  ExitMonitorOptions,
+  ExitTriggers,
+  ValuationOptions,
+  PositionValuation,
+  KeeperOptions,
+  KeeperRunReport,
+  ForecastLeverageSDKOptions,
+  ForecastLeverageSDKConfig,
+};
+
+type ProgressEmitter = (event: OpenProgressEvent) => void;
+
+/**
+ * Gas token spent or estimated for a position, before pricing in USD
+ */
+interface GasSpent {
+  source: GasFees['source'];
+  approvals: number;
+  opens: number;
+  closes?: number;                 // Default: estimated for the position's legs
+  defaulted: GasAction[];
+}
 
 export class ForecastLeverageSDK {
   private provider: ethers.providers.Provider;
-  private signer: Wallet; // v5 wallet for clob-client compatibility
-  private polymarketClient: ClobClient;
-  private protocolContract: ethers.Contract;
-  private usdcContract: ethers.Contract;
-  private ctfContract: ethers.Contract;
-
-  private polymarketFunderAddress: string;
-  private polymarketHost: string = "https://clob.polymarket.com";
-  private polymarketChainId: number = 137;
-  private polymarketInitialized: boolean = false;
+  private signer: TypedDataSigner; // v5 signer for clob-client compatibility
+  private account?: string;
+  private exchange: ExchangeAdapter;
+  private protocol: ProtocolBackend;
+  private store: PositionStore;
+  private seniorVault?: SeniorVault;
+  private juniorStaking?: JuniorStaking;
+  private logger: Logger;
+  private gasTokenPrice: GasTokenPriceSource;
+  private marketMetadata: MarketMetadataSource | null;
 
   /**
+   * @param config - Signer, network preset and overrides, plus optional collaborators
+   *
+   * @example
+   * // Polygon mainnet with a private key (preset fills in RPC, CLOB host and addresses)
+   * const sdk = new ForecastLeverageSDK({ signer: "0x...", polymarketFunderAddress });
+   *
+   * @example
+   * // With Privy embedded wallet (EIP-1193) and your own provider
+   * const sdk = new ForecastLeverageSDK({
+   *   signer: await wallet.getEthereumProvider(),
+   *   provider,
+   *   polymarketFunderAddress,
+   * });
+   *
+   * @example
+   * // Amoy testnet with an existing CLOB API key
+   * const sdk = new ForecastLeverageSDK({
+   *   network: 'amoy',
+   *   signer,
+   *   protocolAddress,
+   *   clobHost,
+   *   signatureType: 0,
+   *   apiCreds: { key, secret, passphrase },
+   * });
+   *
+   * @example
+   * // With a scripted in-memory order book (tests, staging)
+   * const exchange = new InMemoryExchange();
+   * exchange.setOrderBook(tokenId, { asks: [{ price: 0.40, size: 5000 }] });
+   * const sdk = new ForecastLeverageSDK({ network: 'local', signer: "0x...", exchange, protocol });
+   *
+   * @example
+   * // Print warnings and errors (silent by default); any { debug, info, warn, error } object works
+   * const sdk = new ForecastLeverageSDK({ signer, polymarketFunderAddress, logger: consoleLogger('warn') });
+   *
+   * @throws {ValidationError} If the signer is unsupported or the config is invalid or incomplete
+   */
+  constructor(config: ForecastLeverageSDKConfig);
+  /**
+   * Positional form (Polygon mainnet CLOB)
+   *
    * @param rpcUrl - RPC URL for Polygon network
-   * @param signerOrPrivateKey - ethers v5/v6 Signer (e.g., from Privy) OR private key string
+   * @param signerOrPrivateKey - Private key string, ethers v5/v6 Signer (e.g., from Privy) or EIP-1193 provider
    * @param protocolAddress - ForecastProtocol contract address
    * @param usdcAddress - USDC token address
    * @param ctfAddress - Polymarket CTF contract address
    * @param polymarketFunderAddress - Polymarket operator funder address
+   * @param options - Optional collaborators (e.g., a custom exchange adapter)
    *
    * @example
-   * // With private key (v5 or v6)
-   * const sdk = new ForecastLeverageSDK(rpcUrl, "0x...", ...addresses);
-   *
-   * @example
-   * // With Privy embedded wallet (v6)
-   * const privyProvider = await wallet.getEthereumProvider();
-   * const ethersProvider = new ethers.BrowserProvider(privyProvider);
-   * const signer = await ethersProvider.getSigner();
-   * const sdk = new ForecastLeverageSDK(rpcUrl, signer, ...addresses);
+   * const sdk = new ForecastLeverageSDK(rpcUrl, "0x...", ...addresses, { exchange });
    */
   constructor(
     rpcUrl: string,
-    signerOrPrivateKey: string | ethers.Signer | any,
+    signerOrPrivateKey: SignerInput,
     protocolAddress: string,
     usdcAddress: string,
     ctfAddress: string,
-    polymarketFunderAddress: string
+    polymarketFunderAddress: string,
+    options?: ForecastLeverageSDKOptions
+  );
+  constructor(
+    configOrRpcUrl: ForecastLeverageSDKConfig | string,
+    signerOrPrivateKey?: SignerInput,
+    protocolAddress?: string,
+    usdcAddress?: string,
+    ctfAddress?: string,
+    polymarketFunderAddress?: string,
+    options: ForecastLeverageSDKOptions = {}
   ) {
-    this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    const config: ForecastLeverageSDKConfig = typeof configOrRpcUrl === 'string'
+      ? {
+        ...options,
+        network: 'polygon',
+        rpcUrl: configOrRpcUrl,
+        signer: signerOrPrivateKey!,
+        protocolAddress,
+        usdcAddress,
+        ctfAddress,
+        polymarketFunderAddress,
+      }
+      : configOrRpcUrl;
 
-    // Handle both private key and Signer (v5 or v6)
-    if (typeof signerOrPrivateKey === 'string') {
-      // Private key provided
-      this.signer = new Wallet(signerOrPrivateKey, this.provider);
-    } else {
-      // Signer provided (v5 or v6) - convert to v5 Wallet
-      this.signer = this._convertToV5Wallet(signerOrPrivateKey);
+    if (!config || config.signer === undefined || config.signer === null) {
+      throw new ValidationError('Invalid config: signer is required');
     }
-
-    this.polymarketFunderAddress = polymarketFunderAddress;
-
-    // Note: Polymarket client initialized async in setup method
-    this.polymarketClient = null as any; // Will be set in setupPolymarket()
+    const network = resolveNetworkConfig(config, {
+      needsContracts: !config.protocol,
+      needsClob: !config.exchange,
+    });
+    this.provider = network.provider;
+
+    // Private key, v5/v6 Signer or EIP-1193 provider; remote signers are used without their key
+    this.signer = toTypedDataSigner(config.signer, this.provider);
+
+    // Note: the default CLOB adapter derives API credentials async in setupPolymarket() unless given
+    this.exchange = config.exchange || new ClobExchangeAdapter(
+      network.clobHost,
+      network.chainId,
+      this.signer,
+      network.polymarketFunderAddress,
+      network.signatureType,
+      network.apiCreds
+    );
 
     // Initialize protocol contracts
-    this.protocolContract = new ethers.Contract(protocolAddress, FORECAST_PROTOCOL_ABI, this.signer);
-    this.usdcContract = new ethers.Contract(usdcAddress, ERC20_ABI, this.signer);
-    this.ctfContract = new ethers.Contract(ctfAddress, CTF_ABI, this.signer);
+    this.protocol = config.protocol || new ContractProtocolBackend(
+      network.protocolAddress,
+      network.usdcAddress,
+      network.ctfAddress,
+      this.signer
+    );
+
+    this.store = config.store || defaultPositionStore();
+    this.logger = config.logger || silentLogger;
+    this.gasTokenPrice = network.gasTokenPrice;
+    this.marketMetadata = network.marketMetadata;
   }
 
   /**
-   * Convert ethers v6 or v5 Signer to v5 Wallet for clob-client compatibility.
-   * Extracts private key if available, otherwise throws error.
+   * Address of the signer (resolved once; remote signers are asked lazily)
    */
-  private _convertToV5Wallet(signer: any): Wallet {
-    // Check if already v5 Wallet
-    if (signer instanceof Wallet) {
-      return signer.connect(this.provider) as Wallet;
+  private async signerAddress(): Promise<string> {
+    if (!this.account) {
+      this.account = await this.signer.getAddress();
     }
+    return this.account;
+  }
 
-    // Try to extract private key (works for most wallet types)
-    if (signer.privateKey) {
-      return new Wallet(signer.privateKey, this.provider);
-    }
+  /**
+   * Initialize the exchange adapter (Polymarket CLOB API credentials by default).
+   * Must be called before using any Polymarket functionality.
+   *
+   * @throws {Error} If API key derivation fails
+   *
+   * @example
+   * ```typescript
+   * await sdk.setupPolymarket();
+   * ```
+   */
+  async setupPolymarket(): Promise<void> {
+    await this.exchange.setup();
+  }
 
-    // For Privy or other embedded wallets without direct privateKey access,
-    // attempt to use _signingKey (v5) or signingKey (v6)
-    const privateKey = signer._signingKey?.privateKey ||
-                       signer.signingKey?.privateKey ||
-                       signer._privateKey;
+  /**
+   * The store positions are recorded in (leg IDs, params, fills, metrics).
+   *
+   * @example
+   * ```typescript
+   * const records = await sdk.getPositionStore().list();
+   * const open = records.filter(record => record.status === 'open');
+   * ```
+   */
+  getPositionStore(): PositionStore {
+    return this.store;
+  }
 
-    if (privateKey) {
-      return new Wallet(privateKey, this.provider);
+  /**
+   * Lender access to the senior pool (ERC4626 vault, fUSDC shares) as the
+   * signer: deposits, withdrawals, redemptions and previews, the signer's
+   * position, share price and utilization. Deposits reuse the SDK's
+   * approval setup.
+   *
+   * @example
+   * ```typescript
+   * const vault = sdk.getSeniorVault();
+   * console.log(`fUSDC at $${(await vault.sharePrice()).toFixed(4)}, ${(await vault.utilization() * 100).toFixed(1)}% lent out`);
+   * const { shares } = await vault.deposit(5000);
+   * const { value, maxWithdraw } = await vault.getPosition();
+   * ```
+   */
+  getSeniorVault(): SeniorVault {
+    if (!this.seniorVault) {
+      this.seniorVault = new SeniorVault(this.protocol, () => this.signerAddress(), this.logger);
     }
+    return this.seniorVault;
+  }
 
-    throw new ValidationError(
-      'Unable to extract private key from signer. ' +
-      'For Privy embedded wallets, ensure you have the correct permissions. ' +
-      'Alternatively, export the private key and pass it as a string.'
-    );
+  /**
+   * Lender access to the junior pools as the signer: stake a market's YES
+   * or NO tokens, withdraw them, claim rewards (paid as fUSDC) and read the
+   * stake, pending rewards and an APR estimate from the quoted rJ. Staking
+   * grants the protocol CTF approval through the SDK's approval setup.
+   *
+   * @example
+   * ```typescript
+   * const junior = sdk.getJuniorStaking();
+   * const { apr, utilization } = await junior.getYieldReport(conditionId, true);
+   * await junior.stake(conditionId, true, 10_000);
+   * const { pendingRewards } = await junior.getStake(conditionId, true);
+   * if (pendingRewards > 0) await junior.claimRewards(conditionId, true);
+   * ```
+   */
+  getJuniorStaking(): JuniorStaking {
+    if (!this.juniorStaking) {
+      this.juniorStaking = new JuniorStaking(this.protocol, this.exchange, () => this.signerAddress(), this.logger);
+    }
+    return this.juniorStaking;
   }
 
   /**
-   * Initialize Polymarket CLOB client with API credentials.
-   * Must be called before using any Polymarket functionality.
+   * Pre-trade checks on a market: the protocol's verifyMarket checks (as a
+   * call, no transaction), resolution on the CTF, order book depth for the
+   * token to buy and the market's scheduled close from the metadata source.
+   * Each check is reported with its reason; the market is eligible when
+   * none fails. A term running past the market's close is a warning.
    *
-   * @throws {Error} If API key derivation fails
+   * @param conditionId - Market condition ID
+   * @param params - Side, planned term and, optionally, the capital the asks must absorb
+   * @returns Per-check results, failure reasons and warnings, best prices and ask depth
+   * @throws {ValidationError} If params are invalid
+   * @throws {ProtocolError} If the chain cannot be read (RPC_ERROR)
    *
    * @example
    * ```typescript
-   * await sdk.setupPolymarket();
+   * const report = await sdk.checkMarketEligibility(conditionId, {
+   *   longYes: true,
+   *   timeframeSeconds: 3600,
+   *   capitalUSDC: 1000,
+   * });
+   * if (!report.eligible) throw new Error(report.reasons.join('; '));
+   * report.warnings.forEach(warning => console.warn(warning));
    * ```
    */
-  async setupPolymarket(): Promise<void> {
-    if (this.polymarketInitialized) {
-      return; // Already set up
+  async checkMarketEligibility(conditionId: string, params: MarketEligibilityParams): Promise<MarketEligibilityReport> {
+    const maxSlippageBps = params?.maxSlippageBps ?? 100;
+    if (!params || typeof params.longYes !== 'boolean') {
+      throw new ValidationError('Invalid params: longYes is required');
+    }
+    if (!Number.isInteger(params.timeframeSeconds) || params.timeframeSeconds <= 0) {
+      throw new ValidationError(`Invalid timeframeSeconds: ${params.timeframeSeconds} (must be a positive whole number)`);
+    }
+    if (params.capitalUSDC !== undefined && !(params.capitalUSDC > 0)) {
+      throw new ValidationError(`Invalid capitalUSDC: ${params.capitalUSDC} (must be positive)`);
+    }
+    if (!(maxSlippageBps >= 0 && maxSlippageBps <= 10_000)) {
+      throw new ValidationError(`Invalid maxSlippageBps: ${maxSlippageBps} (must be between 0 and 10000)`);
     }
 
-    // Create or derive API key
-    const creds = await new ClobClient(
-      this.polymarketHost,
-      this.polymarketChainId,
-      this.signer
-    ).createOrDeriveApiKey();
+    // Reverts are findings; only RPC failures stop the report
+    const finding = (error: any): string => {
+      if (classifyRevert(error) === 'RPC_ERROR') throw error;
+      return error?.reason || error?.message || String(error);
+    };
 
-    // Initialize authenticated client
-    this.polymarketClient = new ClobClient(
-      this.polymarketHost,
-      this.polymarketChainId,
-      this.signer,
-      creds,
-      1, // signature type (1 = private key)
-      this.polymarketFunderAddress
-    );
+    try {
+      const timestamp = await this.protocol.getBlockTimestamp();
+      const checks: EligibilityCheck[] = [];
+
+      try {
+        await this.protocol.checkMarket(conditionId);
+        checks.push({ name: 'verification', status: 'pass' });
+      } catch (error: any) {
+        checks.push({ name: 'verification', status: 'fail', reason: `verifyMarket would revert: ${finding(error)}` });
+      }
+
+      try {
+        const resolved = await this.protocol.isResolved(conditionId);
+        checks.push(resolved
+          ? { name: 'resolution', status: 'fail', reason: 'market has resolved on the CTF' }
+          : { name: 'resolution', status: 'pass' });
+      } catch (error: any) {
+        checks.push({ name: 'resolution', status: 'fail', reason: `resolution unknown: ${finding(error)}` });
+      }
+
+      let tokenId: string | null = null;
+      let book = { bestAsk: null as number | null, bestBid: null as number | null, askDepthUSDC: 0 };
+      try {
+        tokenId = params.longYes ? await this.getYesTokenId(conditionId) : await this.getNoTokenId(conditionId);
+      } catch (error: any) {
+        checks.push({ name: 'orderBook', status: 'skipped', reason: `no token ID: ${finding(error)}` });
+      }
+      if (tokenId !== null) {
+        try {
+          const assessed = assessOrderBook(await this.exchange.getOrderBook(tokenId), tokenId, maxSlippageBps, params.capitalUSDC);
+          checks.push(assessed.check);
+          book = assessed;
+        } catch (error: any) {
+          checks.push({ name: 'orderBook', status: 'fail', reason: `no order book for token ${tokenId}: ${error.message}` });
+        }
+      }
+
+      let metadata: MarketMetadata | null = null;
+      if (!this.marketMetadata) {
+        checks.push({ name: 'marketClose', status: 'skipped', reason: 'no market metadata source' });
+      } else {
+        try {
+          metadata = await this.marketMetadata.getMarket(conditionId);
+          checks.push(assessMarketClose(metadata, timestamp, params.timeframeSeconds));
+        } catch (error: any) {
+          this.logger.warn('Market metadata unavailable', { component: 'Eligibility', conditionId, error: error.message });
+          checks.push({ name: 'marketClose', status: 'warn', reason: `market metadata unavailable: ${error.message}` });
+        }
+      }
+
+      const reasons = checks.filter(check => check.status === 'fail').map(check => `${check.name}: ${check.reason}`);
+      const warnings = checks.filter(check => check.status === 'warn').map(check => `${check.name}: ${check.reason}`);
+      this.logger.info(`Market ${conditionId} ${reasons.length === 0 ? 'eligible' : 'not eligible'}`, { component: 'Eligibility', reasons, warnings });
 
-    this.polymarketInitialized = true;
+      return {
+        conditionId,
+        longYes: params.longYes,
+        tokenId,
+        eligible: reasons.length === 0,
+        checks,
+        reasons,
+        warnings,
+        bestAsk: book.bestAsk,
+        bestBid: book.bestBid,
+        askDepthUSDC: book.askDepthUSDC,
+        metadata,
+        timestamp,
+      };
+    } catch (error: any) {
+      if (error instanceof ForecastError) {
+        throw error;
+      }
+      throw new ProtocolError(`Failed to check market eligibility: ${error.message}`, { code: classifyRevert(error), cause: error });
+    }
   }
 
   /**
@@ -246,9 +506,15 @@ export class ForecastLeverageSDK {
    * Useful for testing integrations, displaying projections to users,
    * and validating parameters before execution.
    *
+   * Each loop's USDC is priced by walking the exchange's ask ladder, with
+   * earlier loops consuming depth. Per-loop fills are returned in
+   * `simulation`; the preview stops where execution would stop because an
+   * order cannot fill within `maxSlippageBps`.
+   *
    * @param params - Target position parameters including market, prices, timeframe, and capital
    * @returns Estimated position including leverage, fees, and PnL projections
    * @throws {ValidationError} If input parameters are invalid or out of acceptable ranges
+   * @throws {PolymarketError} If the order book cannot fill the first loop
    *
    * @example
    * ```typescript
@@ -273,52 +539,125 @@ export class ForecastLeverageSDK {
     // Ensure Polymarket client is set up (for simulation we don't actually need it, but keep interface consistent)
     await this.setupPolymarket();
 
-    console.log(`[SIMULATION] Position: ${params.currentPrice} → ${params.targetPrice} in ${params.timeframeSeconds}s`);
+    this.logger.info(`Position: ${params.currentPrice} → ${params.targetPrice} in ${params.timeframeSeconds}s`, { component: 'Simulation', conditionId: params.marketConditionId });
 
     try {
       // Calculate leverage parameters (read-only)
       const leverageParams = await this.calculateLeverageParams(params);
-      console.log(`[SIMULATION] Calculated: ${leverageParams.loops} loops, ${leverageParams.F}% capital efficiency`);
+      this.logger.info(`Calculated: ${leverageParams.loops} loops, ${leverageParams.F}% capital efficiency`, { component: 'Simulation', conditionId: params.marketConditionId, tokenId: leverageParams.tokenId });
+
+      // Walk the ask ladder loop by loop; later loops see the book earlier loops ate
+      const orderbook = await this.exchange.getOrderBook(leverageParams.tokenId);
+      if (!orderbook.asks || orderbook.asks.length === 0) {
+        throw new PolymarketError(`No liquidity available for token ${leverageParams.tokenId}`, {
+          code: 'NO_BOOK_LIQUIDITY',
+          context: { tokenId: leverageParams.tokenId },
+        });
+      }
+      const initialBestAsk = orderbook.asks[0].price;
+      const slippageMultiplier = (params.orderType || 'FOK') === 'FOK'
+        ? 1 + params.maxSlippageBps / 10000
+        : 1 + params.maxSlippageBps / 20000; // Same limit price as buyTokensPolymarket
 
-      // Simulate loop execution
+      let asks = orderbook.asks;
       let totalTokens = 0;
+      let totalSlippage = 0;
+      let totalSpent = 0;
       let remainingUSDC = params.capitalUSDC;
+      const loops: SimulatedLoop[] = [];
+      const loopTokens: number[] = [];
 
       for (let i = 0; i < leverageParams.loops; i++) {
-        // Estimate tokens from current capital
-        const tokensThisLoop = remainingUSDC / params.currentPrice;
-        totalTokens += tokensThisLoop;
+        // Leverage mode: spend no more than the target
+        if (leverageParams.targetNotionalUSDC !== undefined) {
+          remainingUSDC = Math.min(remainingUSDC, leverageParams.targetNotionalUSDC - totalSpent);
+          if (i > 0 && remainingUSDC < 1) break;
+        }
+        if (asks.length === 0) {
+          loops.push(this.emptyLoop(i, remainingUSDC));
+          break;
+        }
+
+        // Estimate tokens from current capital at depth
+        const bestAsk = asks[0].price;
+        const walk = walkBook(asks, remainingUSDC, 'asks');
+        const loop: SimulatedLoop = {
+          loop: i,
+          usdcIn: remainingUSDC,
+          tokens: walk.filled,
+          bestAsk,
+          avgFillPrice: walk.avgPrice,
+          worstPrice: walk.worstPrice,
+          slippage: walk.notional - walk.filled * bestAsk,
+          slippageBps: (walk.avgPrice / bestAsk - 1) * 10000,
+          exceedsMaxSlippage: walk.worstPrice > bestAsk * slippageMultiplier + 1e-12,
+          insufficientDepth: walk.unfilled > 1e-6,
+        };
+        loops.push(loop);
+
+        // Execution stops at the first order that cannot fill within the limit
+        if (loop.exceedsMaxSlippage || loop.insufficientDepth) break;
+
+        asks = walk.levels;
+        totalTokens += walk.filled;
+        totalSlippage += loop.slippage;
+        totalSpent += walk.notional;
+        loopTokens.push(walk.filled);
 
         // Estimate borrowed USDC for next loop
         // Protocol lends F per token because each token pairs with short = $1 collateral (CTF guarantee)
         // NOT multiplied by market price - borrowing is based on redemption value
-        remainingUSDC = tokensThisLoop * leverageParams.F;
+        remainingUSDC = walk.filled * leverageParams.F;
 
         if (remainingUSDC < 1) break;
       }
 
-      // Create dummy leg IDs for simulation
-      const legIds = Array.from({ length: leverageParams.loops }, (_, i) => BigInt(i));
+      if (loopTokens.length === 0) {
+        const first = loops[0];
+        throw new PolymarketError(
+          `Order book cannot fill first loop of $${params.capitalUSDC.toFixed(2)} within ${params.maxSlippageBps}bps ` +
+          `(worst price ${first.worstPrice.toFixed(4)} vs best ask ${first.bestAsk.toFixed(4)})`,
+          { code: 'NO_BOOK_LIQUIDITY', context: { tokenId: leverageParams.tokenId } }
+        );
+      }
+
+      // Create dummy legs for simulation from the quoted terms
+      const legIds = loopTokens.map((_, i) => BigInt(i));
+      const borrower = await this.signerAddress();
+      const legs = loopTokens.map(tokens => this.simulatedLeg(tokens, params, leverageParams, borrower));
 
       // Calculate metrics with estimated values
       const result = await this.calculatePositionMetrics(
         legIds,
         params,
         totalTokens * 1e6, // Convert to 6 decimals
-        0, // No slippage in simulation
-        leverageParams
+        totalSlippage,
+        leverageParams,
+        await this.estimateOpenGas(params, loopTokens),
+        legs
       );
 
-      console.log(`[SIMULATION] Leverage: ${result.effectiveLeverage.toFixed(2)}x`);
-      console.log(`[SIMULATION] Total fees: $${result.fees.total.toFixed(2)}`);
-      console.log(`[SIMULATION] PnL at target: $${result.pnl.atTarget.toFixed(2)}`);
+      const lastFilled = loops[loopTokens.length - 1];
+      result.simulation = {
+        loops,
+        loopsFilled: loopTokens.length,
+        maxSlippageBreached: loops.some(loop => loop.exceedsMaxSlippage || loop.insufficientDepth),
+        priceImpactBps: (lastFilled.worstPrice / initialBestAsk - 1) * 10000,
+      };
+
+      for (const loop of loops) {
+        this.logger.debug(`Loop ${loop.loop}: $${loop.usdcIn.toFixed(2)} → ${loop.tokens.toFixed(4)} tokens @ ${loop.avgFillPrice.toFixed(4)} (${loop.slippageBps.toFixed(1)}bps${loop.exceedsMaxSlippage ? ', exceeds max slippage' : ''}${loop.insufficientDepth ? ', insufficient depth' : ''})`, { component: 'Simulation', loop: loop.loop });
+      }
+      this.logger.info(`Leverage: ${result.effectiveLeverage.toFixed(2)}x`, { component: 'Simulation' });
+      this.logger.info(`Total fees: $${result.fees.total.toFixed(2)}`, { component: 'Simulation' });
+      this.logger.info(`PnL at target: $${result.pnl.atTarget.toFixed(2)}`, { component: 'Simulation' });
 
       return result;
     } catch (error: any) {
-      if (error instanceof ValidationError) {
+      if (error instanceof ValidationError || error instanceof PolymarketError) {
         throw error;
       }
-      throw new Error(`Simulation failed: ${error.message}`);
+      throw new ProtocolError(`Simulation failed: ${error.message}`, { code: classifyRevert(error), cause: error });
     }
   }
 
@@ -327,7 +666,16 @@ export class ForecastLeverageSDK {
    * Executes the complete loop: buying tokens on Polymarket and opening
    * protocol legs until the desired leverage is achieved.
    *
+   * The loop spends only `capitalUSDC` plus the USDC each leg lends; any
+   * other USDC in the wallet (or arriving during the run) is left alone.
+   *
+   * If a loop fails after the first leg, the legs already open are kept and
+   * `execution.status` is `'partial'`, with the stopping error and leverage
+   * achieved vs planned. Pass `unwindOnPartial` to close them right away
+   * instead (the result then carries the unwind report in `reduction`).
+   *
    * @param params - Target position parameters including market, prices, timeframe, and capital
+   * @param options - `onProgress` callback for each step, `unwindOnPartial` for all-or-nothing execution
    * @returns Position details including leg IDs, leverage, fees, and PnL scenarios
    * @throws {ValidationError} If input parameters are invalid or insufficient balance
    * @throws {PolymarketError} If Polymarket order fails or has no liquidity
@@ -348,14 +696,28 @@ export class ForecastLeverageSDK {
    * console.log(`Position opened: ${position.legIds.length} legs`);
    * console.log(`Leverage: ${position.effectiveLeverage.toFixed(2)}x`);
    * ```
+   *
+   * @example
+   * ```typescript
+   * // Live step tracker
+   * await sdk.openTargetPosition(params, {
+   *   onProgress: event => {
+   *     if (event.type === 'legOpened') setSteps(steps => [...steps, `Leg ${event.legId}: ${event.txHash}`]);
+   *   }
+   * });
+   * ```
    */
-  async openTargetPosition(params: TargetPositionParams): Promise<LeveragePosition> {
+  async openTargetPosition(params: TargetPositionParams, options: OpenOptions = {}): Promise<LeveragePosition> {
     // Validate inputs
     this.validateInputs(params);
 
     // Initialize Polymarket client
     await this.setupPolymarket();
 
+    const emit = this.progressEmitter(options.onProgress);
+    let record: PositionRecord | null = null;
+    let position: LeveragePosition;
+
     try {
       // Check USDC balance
       await this.checkSufficientBalance(params.capitalUSDC);
@@ -367,102 +729,781 @@ export class ForecastLeverageSDK {
       const leverageParams = await this.calculateLeverageParams(params);
 
       // Step 2: Approve protocol and CTF
-      await this.setupApprovals();
+      const approvals = await this.setupApprovals();
+      emit({ type: 'approvals' });
+
+      // The record doubles as the execution checkpoint for resumeOpen
+      record = newPositionRecord(params);
+      record.approvals = approvals;
+      record.checkpoint = {
+        leverageParams,
+        loop: 0,
+        stage: 'buy',
+        remainingUSDC: params.capitalUSDC * 1e6, // Convert to USDC decimals
+        pendingTokens: 0,
+        tokenBalance: await this.protocol.ctfBalanceOf(await this.signerAddress(), leverageParams.tokenId),
+        totalTokensBought: 0,
+        totalSlippage: 0,
+        startBlock: await this.protocol.getBlockNumber(),
+      };
+      await this.persistRecord(record);
 
       // Step 3: Execute leverage loop
-      const legIds: bigint[] = [];
-      let remainingUSDC = params.capitalUSDC * 1e6; // Convert to USDC decimals
-      let totalTokensBought = 0;
-      let totalSlippage = 0;
+      position = await this.executeLoops(record, emit);
+    } catch (error: any) {
+      throw await this.failOpen(record, error);
+    }
 
-      const orderType = params.orderType || 'FOK'; // Default to FOK for market-like execution
-      const maxRetries = params.maxRetries !== undefined ? params.maxRetries : 3;
-      const retryDelayMs = params.retryDelayMs || 2000;
+    return this.finishOpen(position, options, emit);
+  }
 
-      for (let i = 0; i < leverageParams.loops; i++) {
-        try {
-          // 3a. Buy tokens on Polymarket with configured order type
-          const buyResult = await this.buyTokensPolymarket(
-            leverageParams.tokenId,
-            remainingUSDC,
-            params.maxSlippageBps,
-            orderType,
-            maxRetries,
-            retryDelayMs
-          );
-          totalTokensBought += buyResult.tokensReceived;
-          totalSlippage += buyResult.slippage;
-
-          // 3b. Open protocol leg
-          const legId = await this.openProtocolLeg(
-            buyResult.tokensReceived,
-            params.timeframeSeconds,
-            params.marketConditionId,
-            params.longYes
-          );
-          legIds.push(legId);
+  /**
+   * Simulates a leverage-mode entry ("3x long YES for 2 days") without
+   * executing trades. The loop count and the size of the last loop are
+   * planned so the loops spend `leverage * capitalUSDC` on tokens; the
+   * plan is in `simulation` and the result reads like simulatePosition's.
+   *
+   * @param params - Market, side, leverage or exposure, term and capital
+   * @returns Estimated position including leverage, fees, and PnL projections
+   * @throws {ValidationError} If inputs are invalid or the leverage is above 1/(1-F) for the term
+   * @throws {PolymarketError} If the order book cannot fill the first loop
+   *
+   * @example
+   * ```typescript
+   * const preview = await sdk.simulateLeveragePosition({
+   *   marketConditionId: '0x7cb031...',
+   *   longYes: true,
+   *   currentPrice: 0.40,
+   *   leverage: 3,
+   *   termSeconds: 2 * 24 * 3600,
+   *   capitalUSDC: 1000,
+   *   maxSlippageBps: 100
+   * });
+   * console.log(`${preview.legIds.length} loops, ${preview.totalExposure.toFixed(0)} tokens`);
+   * ```
+   */
+  async simulateLeveragePosition(params: LeveragePositionParams): Promise<LeveragePosition> {
+    return this.simulatePosition(this.leverageTargetParams(params));
+  }
+
+  /**
+   * Opens a position at a chosen leverage (or exposure) and term instead of
+   * a price target. Leverage is the value of the tokens bought over
+   * `capitalUSDC`, and may be at most 1/(1-F) for the term's F. The SDK
+   * plans the loop count and a smaller last loop, then runs the same loop
+   * as openTargetPosition, stopping once `leverage * capitalUSDC` has been
+   * spent on tokens. Checkpoints, resumeOpen, progress events and the
+   * returned position all work as for openTargetPosition; `params` holds the
+   * request as target params with `targetLeverage` set.
+   *
+   * @param params - Market, side, leverage or exposure, term and capital
+   * @param options - `onProgress` callback for each step, `unwindOnPartial` for all-or-nothing execution
+   * @returns Position details including leg IDs, leverage, fees, and PnL scenarios
+   * @throws {ValidationError} If inputs are invalid, the leverage is above 1/(1-F) or the balance is insufficient
+   * @throws {PolymarketError} If Polymarket order fails or has no liquidity
+   * @throws {ProtocolError} If protocol interaction fails or has insufficient liquidity
+   *
+   * @example
+   * ```typescript
+   * // 3x long YES for 2 days
+   * const position = await sdk.openLeveragePosition({
+   *   marketConditionId: '0x7cb031...',
+   *   longYes: true,
+   *   currentPrice: 0.40,
+   *   leverage: 3,
+   *   termSeconds: 2 * 24 * 3600,
+   *   capitalUSDC: 1000,
+   *   maxSlippageBps: 100
+   * });
+   * ```
+   */
+  async openLeveragePosition(params: LeveragePositionParams, options: OpenOptions = {}): Promise<LeveragePosition> {
+    return this.openTargetPosition(this.leverageTargetParams(params), options);
+  }
+
+  /**
+   * Sizes a position from the largest loss the caller accepts instead of
+   * from capital. The loss is the one `pnl.maxLoss` reports: at `stopPrice`,
+   * the price move on every token plus slippage, interest and gas; without
+   * a stop, the whole capital at auto-close. Loss grows with capital, so
+   * the SDK searches (to the cent) for the largest capital whose preview
+   * stays within `maxLossUSDC`, using simulatePosition and therefore the
+   * same F, R, order book depth and fee model. The loop count follows from
+   * F and the depth that capital meets.
+   *
+   * @param params - Target params without capital, plus the loss budget and an optional capital cap
+   * @returns Sized params for openTargetPosition, with their preview and what bounded the size
+   * @throws {ValidationError} If inputs are invalid or the budget is below the $10 minimum capital
+   * @throws {PolymarketError} If the order book cannot fill even the minimum capital
+   *
+   * @example
+   * ```typescript
+   * // Risk at most $200 if YES drops to 35¢
+   * const { params, preview, lossUSDC } = await sdk.sizePositionForRisk({
+   *   marketConditionId: '0x7cb031...',
+   *   longYes: true,
+   *   currentPrice: 0.40,
+   *   targetPrice: 0.44,
+   *   stopPrice: 0.35,
+   *   timeframeSeconds: 3600,
+   *   maxSlippageBps: 100,
+   *   maxLossUSDC: 200,
+   * });
+   * console.log(`Deploy $${params.capitalUSDC} for ${preview.totalExposure.toFixed(0)} tokens, loses $${lossUSDC.toFixed(2)} at the stop`);
+   * const position = await sdk.openTargetPosition(params);
+   * ```
+   */
+  async sizePositionForRisk(params: RiskBudgetParams): Promise<RiskSizing> {
+    const { maxLossUSDC, maxCapitalUSDC, ...target } = params;
+    if (!(maxLossUSDC > 0 && Number.isFinite(maxLossUSDC))) {
+      throw new ValidationError(`Invalid maxLossUSDC: ${maxLossUSDC} (must be > 0)`);
+    }
+    if (maxCapitalUSDC !== undefined && !(maxCapitalUSDC > 0)) {
+      throw new ValidationError(`Invalid maxCapitalUSDC: ${maxCapitalUSDC} (must be > 0)`);
+    }
 
-          // 3c. Check borrowed USDC balance
-          const usdcBalance = await this.usdcContract.balanceOf(this.signer.address);
-          remainingUSDC = Number(usdcBalance);
+    // Search in cents; loss never exceeds capital, so capital = maxLossUSDC always fits
+    const sized = (cents: number): TargetPositionParams => ({ ...target, capitalUSDC: cents / 100 });
+    const capCents = maxCapitalUSDC !== undefined ? Math.floor(maxCapitalUSDC * 100) : Infinity;
+    let lo = Math.min(Math.floor(maxLossUSDC * 100), capCents);
+    if (lo < 1000) {
+      throw new ValidationError(`Cannot size within $${maxLossUSDC} (capital $${(lo / 100).toFixed(2)}, minimum $10)`);
+    }
+    this.validateInputs(sized(lo));
 
-          // Stop if insufficient USDC for next loop
-          if (remainingUSDC < 1e6) break; // Less than $1
-        } catch (error: any) {
-          // If we have at least one leg, continue with partial position
-          if (legIds.length > 0) {
-            break;
-          }
-          // If first loop fails, propagate error
-          throw error;
+    // Preview at a capital, or null where the book cannot fill the first loop
+    const preview = async (cents: number): Promise<LeveragePosition | null> => {
+      try {
+        return await this.simulatePosition(sized(cents));
+      } catch (error: any) {
+        if (error instanceof PolymarketError && error.code === 'NO_BOOK_LIQUIDITY') {
+          return null;
         }
+        throw error;
       }
-
-      if (legIds.length === 0) {
-        throw new ProtocolError('Failed to open any position legs');
+    };
+    const fits = (position: LeveragePosition | null) => position !== null && -position.pnl.maxLoss <= maxLossUSDC + 1e-9;
+
+    let best = await this.simulatePosition(sized(lo));
+    let hi = lo;
+    let limitedBy: RiskSizing['limitedBy'] | undefined = lo === capCents ? 'maxCapital' : undefined;
+
+    // Double until the loss budget, the cap or the book stops it, then bisect
+    while (!limitedBy) {
+      hi = Math.min(hi * 2, capCents);
+      const position = await preview(hi);
+      if (!fits(position)) {
+        limitedBy = position ? 'maxLoss' : 'liquidity';
+        break;
       }
-
-      // Step 4: Calculate final position metrics
-      return await this.calculatePositionMetrics(
-        legIds,
-        params,
-        totalTokensBought,
-        totalSlippage,
-        leverageParams
-      );
-    } catch (error: any) {
-      if (error instanceof ValidationError || error instanceof PolymarketError || error instanceof ProtocolError) {
-        throw error;
+      lo = hi;
+      best = position!;
+      if (hi === capCents) limitedBy = 'maxCapital';
+    }
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2);
+      const position = await preview(mid);
+      if (fits(position)) {
+        lo = mid;
+        best = position!;
+      } else {
+        hi = mid;
       }
-      throw new ProtocolError(`Position opening failed: ${error.message}`);
     }
+
+    this.logger.info(`Sized $${(lo / 100).toFixed(2)} for a $${maxLossUSDC} loss budget (${limitedBy})`, { component: 'Sizing', conditionId: params.marketConditionId });
+    return { params: sized(lo), preview: best, lossUSDC: -best.pnl.maxLoss, limitedBy };
   }
 
   /**
-   * Validate input parameters
+   * Resumes an openTargetPosition run that was interrupted (process crash,
+   * lost RPC connection) from its last checkpoint in the PositionStore.
+   *
+   * On-chain state is reconciled against the checkpoint first: a pending
+   * Polymarket buy is cancelled if still live and its fill recorded, tokens
+   * that reached the wallet without a recorded fill are picked up from the
+   * token balance, and legs opened after the checkpoint are adopted from
+   * LegOpened logs. A recovered fill under one token carries into the next
+   * leg. The remaining loops then run as in openTargetPosition; tokens bought
+   * by an unrecorded order leave the budget unknown, so only unwind is allowed.
+   *
+   * With `unwind: true` the run is abandoned instead: tokens bought for a
+   * leg that was never opened are sold, and every leg is closed through
+   * reducePosition, so the result carries the report in `reduction`.
+   *
+   * @param executionId - Record ID of the interrupted run (see getInterruptedOpens)
+   * @param options - Continue (default) or unwind, the unwind sale slippage limit, and `onProgress`
+   * @returns The opened position, or what is left after unwinding
+   * @throws {ValidationError} If there is no interrupted run with that ID, or it holds tokens of unknown cost and is not unwinding
+   * @throws {PolymarketError} If an order fails while continuing or unwinding
+   * @throws {ProtocolError} If reconciliation reads or protocol calls fail
+   *
+   * @example
+   * ```typescript
+   * for (const run of await sdk.getInterruptedOpens()) {
+   *   const position = await sdk.resumeOpen(run.id);
+   *   console.log(`Resumed ${run.id}: ${position.legIds.length} legs`);
+   * }
+   *
+   * // Or get out instead
+   * const exited = await sdk.resumeOpen(executionId, { unwind: true });
+   * ```
    */
-  private validateInputs(params: TargetPositionParams): void {
-    // Market condition ID
-    if (!params.marketConditionId || !params.marketConditionId.startsWith('0x')) {
-      throw new ValidationError('Invalid marketConditionId: must be a hex string starting with 0x');
+  async resumeOpen(executionId: string, options: ResumeOptions = {}): Promise<LeveragePosition> {
+    const record = await this.store.get(executionId);
+    if (!record || record.status !== 'opening' || !record.checkpoint) {
+      throw new ValidationError(`No interrupted open with ID ${executionId}`);
     }
 
-    // Prices
-    if (params.currentPrice <= 0 || params.currentPrice >= 1) {
-      throw new ValidationError(`Invalid currentPrice: ${params.currentPrice} (must be between 0 and 1)`);
+    await this.setupPolymarket();
+    const emit = this.progressEmitter(options.onProgress);
+    record.approvals = [...(record.approvals || []), ...await this.setupApprovals()];
+    emit({ type: 'approvals' });
+
+    let unknownCostTokens: number;
+    try {
+      unknownCostTokens = await this.reconcileCheckpoint(record);
+    } catch (error: any) {
+      if (error instanceof ForecastError) {
+        throw error;
+      }
+      throw new ProtocolError(`Failed to reconcile open ${executionId}: ${error.message}`, {
+        code: classifyRevert(error),
+        cause: error,
+        context: { executionId },
+      });
     }
-    if (params.targetPrice <= 0 || params.targetPrice >= 1) {
-      throw new ValidationError(`Invalid targetPrice: ${params.targetPrice} (must be between 0 and 1)`);
+    await this.persistRecord(record);
+
+    // Without the buy's cost the remaining budget is unknown, so only an unwind is safe
+    if (unknownCostTokens > 0 && !options.unwind) {
+      throw new ValidationError(
+        `Cannot resume open ${executionId}: ${(unknownCostTokens / 1e6).toFixed(4)} tokens were bought after the last checkpoint ` +
+        'by an order that was never recorded, so the USDC left to spend is unknown. Resume with { unwind: true } to sell them and close the legs.',
+        { context: { ...await this.executionContext(record), tokenId: record.checkpoint!.leverageParams.tokenId } }
+      );
     }
 
-    // Price direction must match position direction
-    if (params.longYes && params.targetPrice <= params.currentPrice) {
+    if (options.unwind) {
+      try {
+        return await this.abandonOpen(record, options.maxSlippageBps);
+      } catch (error: any) {
+        const failure = error instanceof ForecastError
+          ? error
+          : new ProtocolError(`Unwind of open ${executionId} failed: ${error.message}`, { code: classifyRevert(error), cause: error });
+        Object.assign(failure.context, await this.executionContext((await this.store.get(executionId).catch(() => null)) || record));
+        throw failure;
+      }
+    }
+
+    let position: LeveragePosition;
+    try {
+      position = await this.executeLoops(record, emit);
+    } catch (error: any) {
+      throw await this.failOpen(record, error);
+    }
+
+    return this.finishOpen(position, options, emit);
+  }
+
+  /**
+   * Opening runs that never finished, e.g. because the process crashed.
+   * A run still executing in another process also shows up here.
+   */
+  async getInterruptedOpens(): Promise<PositionRecord[]> {
+    return (await this.store.list()).filter(record => record.status === 'opening' && record.checkpoint);
+  }
+
+  /**
+   * Run the leverage loop from the record's checkpoint, saving progress
+   * after every buy and every leg
+   */
+  private async executeLoops(record: PositionRecord, emit: ProgressEmitter): Promise<LeveragePosition> {
+    const account = await this.signerAddress();
+    const executionId = record.id;
+    const params = record.params;
+    const checkpoint = record.checkpoint!;
+    const leverageParams = checkpoint.leverageParams;
+
+    const orderType = params.orderType || 'FOK'; // Default to FOK for market-like execution
+    const maxRetries = params.maxRetries !== undefined ? params.maxRetries : 3;
+    const retryDelayMs = params.retryDelayMs || 2000;
+
+    let stopError: ForecastError | undefined;
+    while (checkpoint.loop < leverageParams.loops) {
+      const loop = checkpoint.loop;
+      try {
+        // 3a. Buy tokens on Polymarket with configured order type
+        if (checkpoint.stage === 'buy') {
+          // Stop if insufficient USDC for next loop (or, in leverage mode, left to reach the target)
+          const usdcAmount = Math.min(await this.spendableUSDC(checkpoint), this.usdcToTarget(record));
+          if (loop > 0 && usdcAmount < 1e6) break; // Less than $1
+
+          emit({ type: 'loopStarted', executionId, loop, loops: leverageParams.loops, usdcAmount: usdcAmount / 1e6 });
+          const buyResult = await this.buyTokensPolymarket(
+            leverageParams.tokenId,
+            usdcAmount,
+            params.maxSlippageBps,
+            orderType,
+            maxRetries,
+            retryDelayMs,
+            async event => {
+              if (event.type === 'orderPlaced') {
+                checkpoint.pendingOrderId = event.orderId;
+                await this.persistRecord(record);
+              }
+              emit({ ...event, executionId, loop });
+            }
+          );
+          checkpoint.pendingOrderId = undefined;
+          checkpoint.remainingUSDC = Math.max(0, checkpoint.remainingUSDC - buyResult.usdcSpent);
+          checkpoint.pendingTokens += buyResult.tokensReceived; // Plus any fraction a resumed run carried over
+          checkpoint.tokenBalance = await this.protocol.ctfBalanceOf(account, leverageParams.tokenId);
+          checkpoint.totalTokensBought += buyResult.tokensReceived;
+          checkpoint.totalSlippage += buyResult.slippage;
+          checkpoint.stage = 'open';
+          record.fills.push(buyResult.fill);
+          await this.persistRecord(record);
+        }
+
+        // 3b. Open protocol leg
+        const usdcBefore = await this.protocol.usdcBalanceOf(account);
+        const leg = await this.openProtocolLeg(
+          checkpoint.pendingTokens,
+          params.timeframeSeconds,
+          params.marketConditionId,
+          params.longYes
+        );
+        const usdcLent = Number((await this.protocol.usdcBalanceOf(account)) - usdcBefore);
+        record.legs.push({
+          legId: leg.legId,
+          txHash: leg.txHash,
+          sets: Math.floor(checkpoint.pendingTokens / 1e6),
+          open: true,
+        });
+        emit({ type: 'legOpened', executionId, loop, legId: leg.legId, txHash: leg.txHash, sets: Math.floor(checkpoint.pendingTokens / 1e6) });
+
+        // 3c. Add the borrowed USDC to the run's budget
+        await this.completeLoop(checkpoint, usdcLent);
+        await this.persistRecord(record);
+      } catch (error: any) {
+        // If we have at least one leg, continue with partial position
+        if (record.legs.length > 0) {
+          stopError = error instanceof ForecastError
+            ? error
+            : new ProtocolError(error.message, { code: classifyRevert(error), cause: error });
+          this.logger.warn(`Loop ${loop} failed, keeping ${record.legs.length} of ${leverageParams.loops} planned legs`, {
+            component: 'Open',
+            conditionId: params.marketConditionId,
+            error: error.message,
+          });
+          emit({ type: 'partialStop', executionId, loop, legsOpened: record.legs.length, reason: error.message });
+          break;
+        }
+        // If first loop fails, propagate error
+        throw error;
+      }
+    }
+
+    if (record.legs.length === 0) {
+      throw new ProtocolError('Failed to open any position legs');
+    }
+
+    // A loop that failed between its buy and its leg left those tokens in the wallet, outside the position
+    const unescrowedTokens = checkpoint.pendingTokens;
+    if (unescrowedTokens > 0) {
+      this.logger.warn(`${(unescrowedTokens / 1e6).toFixed(4)} tokens bought by loop ${checkpoint.loop} were not escrowed and stay in the wallet`, {
+        component: 'Open',
+        tokenId: leverageParams.tokenId,
+      });
+    }
+
+    // Step 4: Calculate final position metrics
+    const position = await this.calculatePositionMetrics(
+      record.legs.map(leg => leg.legId),
+      params,
+      checkpoint.totalTokensBought - unescrowedTokens,
+      checkpoint.totalSlippage,
+      leverageParams,
+      await this.executionGas(record)
+    );
+    position.positionId = record.id;
+    // Leverage mode is complete only at the target, even if every planned loop ran
+    const stopped = leverageParams.targetNotionalUSDC !== undefined
+      ? this.usdcToTarget(record) >= 1e6
+      : checkpoint.loop < leverageParams.loops;
+    position.execution = {
+      status: stopError ? 'partial' : stopped ? 'stopped' : 'complete',
+      loopsPlanned: leverageParams.loops,
+      loopsExecuted: checkpoint.loop,
+      leveragePlanned: this.plannedLeverage(params, leverageParams),
+      leverageAchieved: this.achievedLeverage(record, params, unescrowedTokens),
+      unescrowedTokens: unescrowedTokens / 1e6,
+      error: stopError && { code: stopError.code, message: stopError.message, retryable: stopError.retryable },
+    };
+
+    record.status = 'open';
+    record.position = position;
+    record.checkpoint = undefined;
+    await this.persistRecord(record);
+
+    return position;
+  }
+
+  /**
+   * USDC the loops plan to spend on tokens per USDC of capital, the unit of
+   * `targetLeverage`: each loop re-spends the F-per-token loan, so loop i
+   * spends (F / price)^i of the capital
+   */
+  private plannedLeverage(params: TargetPositionParams, leverageParams: LeverageParams): number {
+    if (leverageParams.targetNotionalUSDC !== undefined) {
+      return leverageParams.targetNotionalUSDC / params.capitalUSDC;
+    }
+    const ratio = leverageParams.F / this.longTokenPrice(params);
+    const loops = leverageParams.loops;
+    return Math.abs(1 - ratio) < 1e-12 ? loops : (1 - Math.pow(ratio, loops)) / (1 - ratio);
+  }
+
+  /**
+   * USDC the run's buys spent on escrowed tokens per USDC of capital.
+   * Unescrowed tokens (6 decimals) come from the last buy.
+   */
+  private achievedLeverage(record: PositionRecord, params: TargetPositionParams, unescrowedTokens: number): number {
+    const buys = record.fills.filter(fill => fill.side === 'BUY');
+    const spent = buys.reduce((sum, fill) => sum + fill.size * fill.avgPrice, 0);
+    const unescrowed = buys.length > 0 ? unescrowedTokens / 1e6 * buys[buys.length - 1].avgPrice : 0;
+    return (spent - unescrowed) / params.capitalUSDC;
+  }
+
+  /**
+   * Close a partial position right away if the caller asked for all-or-nothing,
+   * then report completion
+   */
+  private async finishOpen(position: LeveragePosition, options: OpenOptions, emit: ProgressEmitter): Promise<LeveragePosition> {
+    if (options.unwindOnPartial && position.execution?.status === 'partial') {
+      position = await this.unwindPartial(position);
+    }
+    emit({ type: 'completed', executionId: position.positionId!, position });
+    return position;
+  }
+
+  /**
+   * Sell the tokens the failed loop left unescrowed and close every leg of
+   * a partial position; failures report the legs still open
+   */
+  private async unwindPartial(position: LeveragePosition): Promise<LeveragePosition> {
+    this.logger.warn(`Unwinding partial position ${position.positionId}`, { component: 'Open', conditionId: position.params.marketConditionId });
+    const unescrowedTokens = await this.sellUnescrowed(position);
+    try {
+      const unwound = await this.reducePosition(position, { percent: 100 });
+      unwound.execution = { ...position.execution!, unescrowedTokens, unwound: true };
+      return unwound;
+    } catch (error: any) {
+      const failure = error instanceof ForecastError
+        ? error
+        : new ProtocolError(`Unwind of partial position failed: ${error.message}`, { code: classifyRevert(error), cause: error });
+      const record = await this.store.get(position.positionId!).catch(() => null);
+      Object.assign(failure.context, record ? await this.executionContext(record) : { legIdsOpened: position.legIds });
+      throw failure;
+    }
+  }
+
+  /**
+   * Sell a partial position's unescrowed tokens; returns the tokens still
+   * in the wallet (all of them if the sale fails)
+   */
+  private async sellUnescrowed(position: LeveragePosition): Promise<number> {
+    const tokens = position.execution?.unescrowedTokens ?? 0;
+    if (tokens <= 0) {
+      return 0;
+    }
+
+    const { params } = position;
+    try {
+      const tokenId = params.longYes ? await this.getYesTokenId(params.marketConditionId) : await this.getNoTokenId(params.marketConditionId);
+      const sale = await this.sellTokensPolymarket(tokenId, tokens, 100);
+      const record = await this.store.get(position.positionId!).catch(() => null);
+      if (record) {
+        record.fills.push(sale.fill);
+        await this.persistRecord(record);
+      }
+      return Math.max(0, tokens - sale.tokensSold);
+    } catch (error: any) {
+      this.logger.warn(`Failed to sell ${tokens.toFixed(4)} unescrowed tokens; they stay in the wallet`, {
+        component: 'Open',
+        conditionId: params.marketConditionId,
+        error: error.message,
+      });
+      return tokens;
+    }
+  }
+
+  /**
+   * Move the checkpoint to the next loop's buy, funded by what the leg lent
+   * plus whatever the last buy left unspent
+   */
+  private async completeLoop(checkpoint: OpenCheckpoint, usdcLent: number): Promise<void> {
+    checkpoint.loop++;
+    checkpoint.stage = 'buy';
+    checkpoint.pendingTokens = 0;
+    checkpoint.remainingUSDC += Math.max(0, usdcLent);
+    checkpoint.tokenBalance = await this.protocol.ctfBalanceOf(await this.signerAddress(), checkpoint.leverageParams.tokenId);
+  }
+
+  /**
+   * Leverage mode: USDC (6 decimals) the run's buys may still spend before
+   * reaching the target. Unlimited otherwise.
+   */
+  private usdcToTarget(record: PositionRecord): number {
+    const target = record.checkpoint?.leverageParams.targetNotionalUSDC;
+    if (target === undefined) {
+      return Infinity;
+    }
+    const spent = record.fills
+      .filter(fill => fill.side === 'BUY')
+      .reduce((sum, fill) => sum + fill.size * fill.avgPrice, 0);
+    return Math.max(0, (target - spent) * 1e6);
+  }
+
+  /**
+   * USDC the next buy may spend: the run's budget, or less if the wallet
+   * no longer holds it. Other wallet funds are never touched.
+   */
+  private async spendableUSDC(checkpoint: OpenCheckpoint): Promise<number> {
+    const usdcBalance = Number(await this.protocol.usdcBalanceOf(await this.signerAddress()));
+    return Math.min(checkpoint.remainingUSDC, usdcBalance);
+  }
+
+  /**
+   * Bring an interrupted run's checkpoint in line with the exchange and chain.
+   * Returns tokens (6 decimals) bought by an order that was never recorded,
+   * whose cost is therefore unknown.
+   */
+  private async reconcileCheckpoint(record: PositionRecord): Promise<number> {
+    const params = record.params;
+    const checkpoint = record.checkpoint!;
+    const tokenId = checkpoint.leverageParams.tokenId;
+    const account = await this.signerAddress();
+
+    // 1. A buy posted before the crash: stop it and record what filled
+    let recoveredFill = false;
+    if (checkpoint.pendingOrderId) {
+      let order = await this.exchange.getOrder(checkpoint.pendingOrderId);
+      if (order.status === 'LIVE') {
+        await this.exchange.cancelOrder(order.orderId);
+        this.logger.info(`Cancelled pending order ${order.orderId}`, { component: 'Resume', orderId: order.orderId, tokenId });
+        order = await this.exchange.getOrder(order.orderId);
+      }
+      if (order.sizeMatched > 0) {
+        checkpoint.remainingUSDC = Math.max(0, checkpoint.remainingUSDC - Math.ceil(order.sizeMatched * order.avgFillPrice * 1e6));
+        recoveredFill = true;
+        record.fills.push({
+          orderId: order.orderId,
+          tokenId,
+          side: 'BUY',
+          size: order.sizeMatched,
+          avgPrice: order.avgFillPrice,
+          slippage: 0, // Best ask at placement was not checkpointed
+          timestamp: Date.now(),
+        });
+      }
+      checkpoint.pendingOrderId = undefined;
+    }
+
+    // 2. Legs opened after the last checkpoint
+    const known = new Set(record.legs.map(leg => leg.legId));
+    const events = await this.fetchLegEvents(checkpoint.startBlock, await this.protocol.getBlockNumber(), 10_000);
+    for (const event of events) {
+      if (event.name !== 'LegOpened' || known.has(event.legId)) continue;
+
+      const leg = await this.protocol.legs(event.legId);
+      const matches = leg.borrower.toLowerCase() === account.toLowerCase() &&
+        leg.conditionId.toLowerCase() === params.marketConditionId.toLowerCase() &&
+        leg.longPositionId.toString() === tokenId &&
+        leg.term === params.timeframeSeconds;
+      if (!matches || await this.findRecord(event.legId)) continue;
+
+      record.legs.push({ legId: event.legId, txHash: event.txHash, sets: Number(leg.sets), open: true });
+      await this.completeLoop(checkpoint, Number(leg.sets * leg.F_e18 / 10n ** 12n));
+      this.logger.info(`Adopted leg ${event.legId} opened after the last checkpoint`, { component: 'Resume', legId: event.legId });
+    }
+
+    // 3. Tokens bought after the last checkpoint wait for a leg; less than a set carries into the next buy
+    const tokenBalance = await this.protocol.ctfBalanceOf(account, tokenId);
+    const unrecorded = Number(tokenBalance - checkpoint.tokenBalance);
+    let unknownCostTokens = 0;
+    if (checkpoint.stage === 'buy' && unrecorded > 0) {
+      if (!recoveredFill) unknownCostTokens = unrecorded;
+      checkpoint.pendingTokens += unrecorded;
+      checkpoint.totalTokensBought += unrecorded;
+      if (checkpoint.pendingTokens >= 1e6) checkpoint.stage = 'open';
+      this.logger.info(`Found ${(unrecorded / 1e6).toFixed(4)} tokens bought after the last checkpoint`, { component: 'Resume', tokenId });
+    }
+    checkpoint.tokenBalance = tokenBalance;
+    return unknownCostTokens;
+  }
+
+  /**
+   * Exit an interrupted run: sell tokens waiting for a leg, then close every leg
+   */
+  private async abandonOpen(record: PositionRecord, maxSlippageBps: number = 100): Promise<LeveragePosition> {
+    const checkpoint = record.checkpoint!;
+
+    if (checkpoint.pendingTokens > 0) {
+      const sale = await this.sellTokensPolymarket(
+        checkpoint.leverageParams.tokenId,
+        checkpoint.pendingTokens / 1e6,
+        maxSlippageBps
+      );
+      record.fills.push(sale.fill);
+      checkpoint.totalTokensBought -= Math.floor(sale.tokensSold * 1e6);
+      checkpoint.pendingTokens = 0;
+    }
+
+    const legIds = record.legs.map(leg => leg.legId);
+    const position = await this.calculatePositionMetrics(
+      legIds,
+      record.params,
+      checkpoint.totalTokensBought,
+      checkpoint.totalSlippage,
+      checkpoint.leverageParams,
+      await this.executionGas(record)
+    );
+    position.positionId = record.id;
+
+    record.status = legIds.length > 0 ? 'open' : 'closed';
+    record.position = position;
+    record.checkpoint = undefined;
+    await this.persistRecord(record);
+
+    if (legIds.length === 0) {
+      return position;
+    }
+    return this.reducePosition(position, { percent: 100, maxSlippageBps });
+  }
+
+  /**
+   * Wrap an onProgress callback; a throwing listener never interrupts the loop
+   */
+  private progressEmitter(onProgress?: (event: OpenProgressEvent) => void): ProgressEmitter {
+    return event => {
+      if (!onProgress) return;
+      try {
+        onProgress(event);
+      } catch (error: any) {
+        this.logger.warn(`onProgress threw on ${event.type}`, { component: 'Progress', error: error.message });
+      }
+    };
+  }
+
+  /**
+   * Mark an opening run failed and map the error to an SDK error carrying
+   * what had already executed
+   */
+  private async failOpen(record: PositionRecord | null, error: any): Promise<ForecastError> {
+    const failure = error instanceof ForecastError
+      ? error
+      : new ProtocolError(`Position opening failed: ${error.message}`, { code: classifyRevert(error), cause: error });
+
+    if (record) {
+      record.status = 'failed';
+      record.error = error.message;
+      await this.persistRecord(record);
+      Object.assign(failure.context, await this.executionContext(record));
+    }
+    return failure;
+  }
+
+  /**
+   * Legs a run has open on-chain and the USDC they borrowed
+   */
+  private async executionContext(record: PositionRecord): Promise<ErrorContext> {
+    const legIdsOpened = record.legs.filter(leg => leg.open).map(leg => leg.legId);
+    let usdcBorrowed: number | undefined;
+    try {
+      const legs = await Promise.all(legIdsOpened.map(id => this.protocol.legs(id)));
+      usdcBorrowed = legs.reduce((sum, leg) => sum + Number(leg.sets) * Number(leg.F_e18) / 1e18, 0);
+    } catch {
+      // Best effort: the failure being reported may be the RPC itself
+    }
+    return { executionId: record.id, legIdsOpened, usdcBorrowed };
+  }
+
+  /**
+   * Price of the token a position buys: params quote YES, so LONG NO pays 1 - currentPrice
+   */
+  private longTokenPrice(params: { longYes: boolean; currentPrice: number }): number {
+    return params.longYes ? params.currentPrice : 1 - params.currentPrice;
+  }
+
+  /**
+   * Map a leverage-mode request onto target params: the leverage (or the
+   * exposure's value at the bought token's price over capital) becomes targetLeverage
+   */
+  private leverageTargetParams(params: LeveragePositionParams): TargetPositionParams {
+    const { leverage, exposure, termSeconds, targetPrice, ...rest } = params;
+    if ((leverage === undefined) === (exposure === undefined)) {
+      throw new ValidationError('Specify exactly one of leverage or exposure');
+    }
+    if (exposure !== undefined && !(exposure > 0)) {
+      throw new ValidationError(`Invalid exposure: ${exposure} (must be > 0)`);
+    }
+    const price = this.longTokenPrice(params);
+    if (exposure !== undefined && exposure * price < params.capitalUSDC) {
+      throw new ValidationError(
+        `Invalid exposure: ${exposure} tokens (capital alone buys ${(params.capitalUSDC / price).toFixed(2)} at ${price})`
+      );
+    }
+
+    return {
+      ...rest,
+      timeframeSeconds: termSeconds,
+      targetPrice: targetPrice ?? params.currentPrice,
+      targetLeverage: leverage ?? exposure! * price / params.capitalUSDC,
+    };
+  }
+
+  /**
+   * Validate input parameters
+   */
+  private validateInputs(params: TargetPositionParams): void {
+    // Market condition ID
+    if (!params.marketConditionId || !params.marketConditionId.startsWith('0x')) {
+      throw new ValidationError('Invalid marketConditionId: must be a hex string starting with 0x');
+    }
+
+    // Prices
+    if (params.currentPrice <= 0 || params.currentPrice >= 1) {
+      throw new ValidationError(`Invalid currentPrice: ${params.currentPrice} (must be between 0 and 1)`);
+    }
+    if (params.targetPrice <= 0 || params.targetPrice >= 1) {
+      throw new ValidationError(`Invalid targetPrice: ${params.targetPrice} (must be between 0 and 1)`);
+    }
+
+    // Price direction must match position direction (leverage mode may project a flat price)
+    const flat = params.targetLeverage !== undefined && params.targetPrice === params.currentPrice;
+    if (params.longYes && params.targetPrice <= params.currentPrice && !flat) {
       throw new ValidationError(`Invalid price direction: LONG YES requires targetPrice > currentPrice`);
     }
-    if (!params.longYes && params.targetPrice >= params.currentPrice) {
+    if (!params.longYes && params.targetPrice >= params.currentPrice && !flat) {
       throw new ValidationError(`Invalid price direction: LONG NO requires targetPrice < currentPrice`);
     }
 
+    // Stop price must be on the losing side
+    if (params.stopPrice !== undefined) {
+      if (!(params.stopPrice > 0 && params.stopPrice < 1)) {
+        throw new ValidationError(`Invalid stopPrice: ${params.stopPrice} (must be between 0 and 1)`);
+      }
+      if (params.longYes ? params.stopPrice >= params.currentPrice : params.stopPrice <= params.currentPrice) {
+        throw new ValidationError(`Invalid stopPrice: LONG ${params.longYes ? 'YES requires stopPrice < currentPrice' : 'NO requires stopPrice > currentPrice'}`);
+      }
+    }
+
+    // Leverage mode (the 1/(1-F) cap needs the quote, see calculateLeverageParams)
+    if (params.targetLeverage !== undefined && !(params.targetLeverage >= 1 && Number.isFinite(params.targetLeverage))) {
+      throw new ValidationError(`Invalid leverage: ${params.targetLeverage} (must be >= 1)`);
+    }
+
     // Timeframe
     if (params.timeframeSeconds <= 0) {
       throw new ValidationError(`Invalid timeframe: ${params.timeframeSeconds} (must be > 0)`);
@@ -492,12 +1533,13 @@ export class ForecastLeverageSDK {
    * Check if user has sufficient USDC balance
    */
   private async checkSufficientBalance(requiredUSDC: number): Promise<void> {
-    const balance = await this.usdcContract.balanceOf(this.signer.address);
+    const balance = await this.protocol.usdcBalanceOf(await this.signerAddress());
     const balanceUSDC = Number(balance) / 1e6;
 
     if (balanceUSDC < requiredUSDC) {
       throw new ValidationError(
-        `Insufficient USDC balance: have $${balanceUSDC.toFixed(2)}, need $${requiredUSDC.toFixed(2)}`
+        `Insufficient USDC balance: have $${balanceUSDC.toFixed(2)}, need $${requiredUSDC.toFixed(2)}`,
+        { code: 'INSUFFICIENT_BALANCE' }
       );
     }
   }
@@ -507,9 +1549,12 @@ export class ForecastLeverageSDK {
    */
   private async verifyMarket(conditionId: string): Promise<void> {
     try {
-      await this.protocolContract.verifyMarket(conditionId);
+      await this.protocol.verifyMarket(conditionId);
     } catch (error: any) {
-      throw new ValidationError(`Invalid market: ${conditionId} - ${error.message}`);
+      throw new ValidationError(`Invalid market: ${conditionId} - ${error.message}`, {
+        code: classifyRevert(error) === 'RPC_ERROR' ? 'RPC_ERROR' : 'MARKET_INVALID',
+        cause: error,
+      });
     }
   }
 
@@ -521,7 +1566,7 @@ export class ForecastLeverageSDK {
    */
   private async calculateLeverageParams(params: TargetPositionParams): Promise<LeverageParams> {
     // Query protocol for F and rates
-    const quote = await this.protocolContract.quote(
+    const quote = await this.protocol.quote(
       1, // 1 set to get base rates
       params.timeframeSeconds,
       params.marketConditionId,
@@ -529,7 +1574,9 @@ export class ForecastLeverageSDK {
     );
 
     const F = Number(quote.F) / 1e18;
-    const R = (Number(quote.rS) + Number(quote.rJ)) / 1e18;
+    const rS = Number(quote.rS) / 1e18;
+    const rJ = Number(quote.rJ) / 1e18;
+    const R = rS + rJ;
 
     // Validate F bounds
     if (F <= 0 || F >= 1) {
@@ -538,10 +1585,35 @@ export class ForecastLeverageSDK {
 
     // Calculate loops needed based on F
     // Each loop adds F^n of original capital, so we loop until F^n < 0.01 (1% threshold)
-    // Formula: n = -ln(0.01) / ln(F)
+    // Formula: n = ln(0.01) / ln(F)
     // NO hard-coded caps - max leverage determined by available liquidity only
     const maxLeverage = 1 / (1 - F);
-    const loops = Math.ceil(-Math.log(0.01) / Math.log(F));
+    let loops = Math.ceil(Math.log(0.01) / Math.log(F));
+
+    // Leverage mode: full loops while they stay under the target, then a smaller last loop
+    // Loop i spends (F / price)^i of the capital, since each token borrows F
+    // The cap 1/(1-F) is the same series at ratio F; F < price, so the loops
+    // grow faster than that and reach any leverage under the cap in finitely many
+    let targetNotionalUSDC: number | undefined;
+    let finalLoopUSDC: number | undefined;
+    if (params.targetLeverage !== undefined) {
+      if (params.targetLeverage > maxLeverage + 1e-9) {
+        throw new ValidationError(
+          `Leverage ${params.targetLeverage.toFixed(2)}x exceeds the maximum 1/(1-F) = ${maxLeverage.toFixed(2)}x (F=${F.toFixed(4)} for this term)`
+        );
+      }
+      const ratio = F / this.longTokenPrice(params);
+      let reached = 0;
+      let loopSize = 1;
+      loops = 1;
+      while (reached + loopSize < params.targetLeverage - 1e-9) {
+        reached += loopSize;
+        loopSize *= ratio;
+        loops++;
+      }
+      targetNotionalUSDC = params.targetLeverage * params.capitalUSDC;
+      finalLoopUSDC = (params.targetLeverage - reached) * params.capitalUSDC;
+    }
 
     // Get token ID from condition
     const tokenId = params.longYes
@@ -551,9 +1623,13 @@ export class ForecastLeverageSDK {
     return {
       F,
       R,
+      rS,
+      rJ,
       loops, // NO CAPS - determined by available liquidity
       maxLeverage,
       tokenId,
+      targetNotionalUSDC,
+      finalLoopUSDC,
     };
   }
 
@@ -576,25 +1652,30 @@ export class ForecastLeverageSDK {
     maxSlippageBps: number,
     orderType: 'FOK' | 'GTC' | 'GTD' = 'FOK',
     maxRetries: number = 3,
-    retryDelayMs: number = 2000
-  ): Promise<{ tokensReceived: number; slippage: number }> {
-    let lastError: Error | null = null;
+    retryDelayMs: number = 2000,
+    onOrderEvent: (event: OrderProgressEvent) => Promise<void> = async () => undefined
+  ): Promise<{ tokensReceived: number; usdcSpent: number; slippage: number; fill: OrderFillRecord }> {
+    let lastError: PolymarketError | null = null;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
         // Get current orderbook price
-        const orderbook = await this.polymarketClient.getOrderBook(tokenId);
+        const orderbook = await this.exchange.getOrderBook(tokenId);
         if (!orderbook.asks || orderbook.asks.length === 0) {
-          throw new PolymarketError(`No liquidity available for token ${tokenId}`);
+          throw new PolymarketError(`No liquidity available for token ${tokenId}`, {
+            code: 'NO_BOOK_LIQUIDITY',
+            context: { tokenId },
+          });
         }
 
-        const bestAskPrice = parseFloat(orderbook.asks[0].price);
+        const bestAskPrice = orderbook.asks[0].price;
         if (bestAskPrice <= 0 || bestAskPrice >= 1) {
-          throw new PolymarketError(`Invalid orderbook price: ${bestAskPrice}`);
+          throw new PolymarketError(`Invalid orderbook price: ${bestAskPrice}`, {
+            code: 'INVALID_ORDER',
+            context: { tokenId },
+          });
         }
 
-        // Calculate order size
-        const orderSizeCalc = (usdcAmount / 1e6) / bestAskPrice;
         let limitPrice: number;
 
         // Set limit price based on order type
@@ -606,78 +1687,85 @@ export class ForecastLeverageSDK {
           limitPrice = bestAskPrice * (1 + maxSlippageBps / 20000); // Tighter spread for limit orders
         }
 
-        // Map our order type to Polymarket OrderType enum
-        // Note: FOK exists in runtime but not in TypeScript types as of clob-client v4.22.7
-        // We use GTC for now as it's the most compatible option
-        let pmOrderType: OrderType.GTC | OrderType.GTD | undefined;
-        if (orderType === 'FOK' || orderType === 'GTC') {
-          pmOrderType = OrderType.GTC; // GTC works for both market-like and limit orders
-        } else {
-          pmOrderType = OrderType.GTD;
-        }
+        // Size at the limit price so even a fully slipped fill stays within usdcAmount
+        const orderSizeCalc = (usdcAmount / 1e6) / limitPrice;
 
-        console.log(`[Polymarket] Placing ${orderType} order (using ${pmOrderType}): ${orderSizeCalc.toFixed(4)} tokens @ $${limitPrice.toFixed(4)} (attempt ${attempt + 1}/${maxRetries + 1})`);
+        this.logger.info(`Placing ${orderType} order: ${orderSizeCalc.toFixed(4)} tokens @ $${limitPrice.toFixed(4)} (attempt ${attempt + 1}/${maxRetries + 1})`, { component: 'Polymarket', tokenId, attempt: attempt + 1 });
 
         // Place order
-        const order = await this.polymarketClient.createAndPostOrder(
-          {
-            tokenID: tokenId,
-            price: limitPrice,
-            side: Side.BUY,
-            size: orderSizeCalc,
-            feeRateBps: 0,
-          },
-          { tickSize: "0.001", negRisk: false },
-          pmOrderType
-        );
-
-        if (!order || !order.orderID) {
-          throw new PolymarketError('Failed to create order: no order ID returned');
-        }
+        const orderId = await this.exchange.postOrder({
+          tokenId,
+          side: 'BUY',
+          price: limitPrice,
+          size: orderSizeCalc,
+          orderType,
+        });
+        await onOrderEvent({ type: 'orderPlaced', orderId, orderType, size: orderSizeCalc, price: limitPrice, attempt: attempt + 1 });
 
         // Wait for order fill with timeout
         const fillTimeout = orderType === 'FOK' ? 10000 : 30000; // FOK: 10s, GTC/GTD: 30s
-        const filled = await this.waitForOrderFill(order.orderID, fillTimeout);
+        const filled = await this.waitForOrderFill(orderId, fillTimeout);
 
         if (!filled) {
           // Order didn't fill - cancel it before retrying
           try {
-            await this.polymarketClient.cancelOrder(order.orderID);
-            console.log(`[Polymarket] Cancelled unfilled order ${order.orderID}`);
-          } catch (cancelError) {
-            console.warn(`[Polymarket] Failed to cancel order ${order.orderID}:`, cancelError);
+            await this.exchange.cancelOrder(orderId);
+            this.logger.info(`Cancelled unfilled order ${orderId}`, { component: 'Polymarket', orderId, tokenId });
+          } catch (cancelError: any) {
+            this.logger.warn(`Failed to cancel order ${orderId}`, { component: 'Polymarket', orderId, tokenId, error: cancelError.message });
           }
 
-          throw new PolymarketError(`Order ${order.orderID} failed to fill within ${fillTimeout}ms`);
+          // Keep tokens from a partial fill instead of orphaning them
+          const cancelledOrder = await this.exchange.getOrder(orderId);
+          if (cancelledOrder.sizeMatched <= 0) {
+            throw new PolymarketError(`Order ${orderId} failed to fill within ${fillTimeout}ms`, {
+              code: 'FILL_TIMEOUT',
+              context: { orderId, tokenId },
+            });
+          }
+          this.logger.info(`Order ${orderId} partially filled: ${cancelledOrder.sizeMatched.toFixed(4)}/${orderSizeCalc.toFixed(4)} tokens`, { component: 'Polymarket', orderId, tokenId });
         }
 
         // Get actual fill details
-        const filledOrder = await this.polymarketClient.getOrder(order.orderID);
-        // Note: size property may not exist on all order types, fallback to original order size
-        const orderSizeFilled = parseFloat((filledOrder as any).size || orderSizeCalc.toString());
+        const filledOrder = await this.exchange.getOrder(orderId);
+        const orderSizeFilled = filledOrder.sizeMatched;
         const tokensReceived = orderSizeFilled * 1e6; // Convert to 6 decimals
-        const actualPrice = (usdcAmount / 1e6) / orderSizeFilled;
-        const slippage = (actualPrice - bestAskPrice) * orderSizeFilled;
+        const slippage = (filledOrder.avgFillPrice - bestAskPrice) * orderSizeFilled;
 
-        console.log(`[Polymarket] Order filled: ${orderSizeFilled.toFixed(4)} tokens, slippage: $${slippage.toFixed(4)}`);
+        this.logger.info(`Order filled: ${orderSizeFilled.toFixed(4)} tokens, slippage: $${slippage.toFixed(4)}`, { component: 'Polymarket', orderId, tokenId, attempt: attempt + 1 });
+        await onOrderEvent({ type: 'orderFilled', orderId, size: orderSizeFilled, avgPrice: filledOrder.avgFillPrice, slippage });
 
         return {
           tokensReceived: Math.floor(tokensReceived),
+          usdcSpent: Math.ceil(orderSizeFilled * filledOrder.avgFillPrice * 1e6),
           slippage,
+          fill: {
+            orderId,
+            tokenId,
+            side: 'BUY',
+            size: orderSizeFilled,
+            avgPrice: filledOrder.avgFillPrice,
+            slippage,
+            timestamp: Date.now(),
+          },
         };
       } catch (error: any) {
-        lastError = error instanceof PolymarketError ? error : new PolymarketError(`Order failed: ${error.message}`);
-        console.warn(`[Polymarket] Attempt ${attempt + 1} failed:`, lastError.message);
+        lastError = error instanceof PolymarketError ? error : new PolymarketError(`Order failed: ${error.message}`, {
+          cause: error,
+          context: { tokenId },
+        });
+        this.logger.warn(`Attempt ${attempt + 1} failed`, { component: 'Polymarket', tokenId, attempt: attempt + 1, error: lastError.message });
 
         // Don't retry if it's a fundamental error (no liquidity, invalid price, etc.)
-        if (lastError.message.includes('No liquidity') || lastError.message.includes('Invalid')) {
+        if (lastError.code === 'NO_BOOK_LIQUIDITY' || lastError.code === 'INVALID_ORDER') {
           throw lastError;
         }
 
         // If not last attempt, wait before retry with exponential backoff
         if (attempt < maxRetries) {
           const delay = retryDelayMs * Math.pow(1.5, attempt); // Exponential backoff
-          console.log(`[Polymarket] Retrying in ${delay}ms...`);
+          this.logger.info(`Retrying in ${delay}ms...`, { component: 'Polymarket', tokenId, attempt: attempt + 1 });
+          await onOrderEvent({ type: 'orderRetry', attempt: attempt + 1, error: lastError.message, delayMs: delay });
           await new Promise(resolve => setTimeout(resolve, delay));
         }
       }
@@ -697,29 +1785,28 @@ export class ForecastLeverageSDK {
 
     while (Date.now() - startTime < timeoutMs) {
       try {
-        const order = await this.polymarketClient.getOrder(orderId);
+        const order = await this.exchange.getOrder(orderId);
 
         // Check if order is filled
-        if (order.status === "MATCHED" ||
-            order.associate_trades?.some((t: any) => t.status === "CONFIRMED")) {
+        if (order.status === "MATCHED") {
           return true;
         }
 
         // Check if order was cancelled or rejected
         if (order.status === "CANCELLED" || order.status === "REJECTED") {
-          console.warn(`[Polymarket] Order ${orderId} status: ${order.status}`);
+          this.logger.warn(`Order ${orderId} status: ${order.status}`, { component: 'Polymarket', orderId });
           return false;
         }
 
         await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
-      } catch (error) {
-        console.warn(`[Polymarket] Error checking order ${orderId}:`, error);
+      } catch (error: any) {
+        this.logger.warn(`Error checking order ${orderId}`, { component: 'Polymarket', orderId, error: error.message });
         // Continue polling even if there's an error (might be transient)
         await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
       }
     }
 
-    console.warn(`[Polymarket] Order ${orderId} timed out after ${timeoutMs}ms`);
+    this.logger.warn(`Order ${orderId} timed out after ${timeoutMs}ms`, { component: 'Polymarket', orderId });
     return false;
   }
 
@@ -731,72 +1818,97 @@ export class ForecastLeverageSDK {
     term: number,
     conditionId: string,
     longYes: boolean
-  ): Promise<bigint> {
+  ): Promise<OpenLegResult> {
     const sets = Math.floor(tokenAmount / 1e6); // Convert to sets
 
     if (sets === 0) {
-      throw new ProtocolError(`Insufficient tokens: ${tokenAmount} (need at least 1 set)`);
+      throw new ProtocolError(`Insufficient tokens: ${tokenAmount} (need at least 1 set)`, { code: 'INVALID_PARAMS' });
     }
 
     try {
-      const tx = await this.protocolContract.open(
+      return await this.protocol.open(
         sets,
         term,
         conditionId,
         longYes
       );
-
-      const receipt = await tx.wait();
-
-      if (!receipt || receipt.status !== 1) {
-        throw new ProtocolError('Transaction failed');
-      }
-
-      // Extract legId from LegOpened event
-      const eventSignature = ethers.utils.id("LegOpened(uint256,uint256,uint256)");
-      const legOpenedEvent = receipt.logs.find((log: any) =>
-        log.topics[0] === eventSignature
-      );
-
-      if (!legOpenedEvent) {
-        throw new ProtocolError('LegOpened event not found in transaction');
-      }
-
-      return ethers.BigNumber.from(legOpenedEvent.topics[1]).toBigInt();
     } catch (error: any) {
       if (error instanceof ProtocolError) {
         throw error;
       }
       // Parse common revert reasons
-      if (error.message.includes('insufficient')) {
-        throw new ProtocolError('Insufficient protocol liquidity');
+      const code = classifyRevert(error);
+      if (code === 'INSUFFICIENT_POOL_LIQUIDITY') {
+        throw new ProtocolError('Insufficient protocol liquidity', { code, cause: error });
       }
-      if (error.message.includes('paused')) {
-        throw new ProtocolError('Protocol is paused');
+      if (code === 'PROTOCOL_PAUSED') {
+        throw new ProtocolError('Protocol is paused', { code, cause: error });
       }
-      throw new ProtocolError(`Failed to open position: ${error.message}`);
+      throw new ProtocolError(`Failed to open position: ${error.message}`, { code, cause: error });
     }
   }
 
   /**
-   * Setup all necessary approvals
+   * Approve the protocol for USDC and CTF tokens, sending only the
+   * approvals the wallet does not have yet
    */
-  private async setupApprovals(): Promise<void> {
-    const protocolAddress = this.protocolContract.address;
+  private async setupApprovals(): Promise<ApprovalTx[]> {
+    const missing = await this.missingApprovals();
+    return missing.length > 0 ? this.protocol.setupApprovals(missing) : [];
+  }
 
-    // Approve USDC for protocol
-    const tx1 = await this.usdcContract.approve(
-      protocolAddress,
-      ethers.constants.MaxUint256
-    );
-    await tx1.wait();
+  /**
+   * Approvals the wallet still needs: USDC unless the allowance is
+   * (still close to) the unlimited one setupApprovals grants, CTF unless
+   * setApprovalForAll is set
+   */
+  private async missingApprovals(): Promise<ApprovalKind[]> {
+    const account = await this.signerAddress();
+    const missing: ApprovalKind[] = [];
+    if (await this.protocol.usdcAllowance(account) < UNLIMITED_ALLOWANCE_FLOOR) {
+      missing.push('approveUsdc');
+    }
+    if (!await this.protocol.isCtfApproved(account)) {
+      missing.push('approveCtf');
+    }
+    return missing;
+  }
 
-    // Approve CTF tokens for protocol
-    const tx2 = await this.ctfContract.setApprovalForAll(
-      protocolAddress,
-      true
-    );
-    await tx2.wait();
+  /**
+   * A simulated loop that found no asks left
+   */
+  private emptyLoop(loop: number, usdcIn: number): SimulatedLoop {
+    return {
+      loop,
+      usdcIn,
+      tokens: 0,
+      bestAsk: 0,
+      avgFillPrice: 0,
+      worstPrice: 0,
+      slippage: 0,
+      slippageBps: 0,
+      exceedsMaxSlippage: false,
+      insufficientDepth: true,
+    };
+  }
+
+  /**
+   * Build the leg a simulated loop would open at the quoted terms
+   */
+  private simulatedLeg(tokens: number, params: TargetPositionParams, leverageParams: LeverageParams, borrower: string): LegData {
+    return {
+      sets: BigInt(Math.floor(tokens)),
+      F_e18: BigInt(Math.round(leverageParams.F * 1e18)),
+      rS_e18: BigInt(Math.round(leverageParams.rS * 1e18)),
+      rJ_e18: BigInt(Math.round(leverageParams.rJ * 1e18)),
+      opened: Math.floor(Date.now() / 1000),
+      term: params.timeframeSeconds,
+      borrower,
+      escrow: ethers.constants.AddressZero,
+      longPositionId: BigInt(leverageParams.tokenId),
+      shortPositionId: 0n,
+      conditionId: params.marketConditionId,
+    };
   }
 
   /**
@@ -807,29 +1919,47 @@ export class ForecastLeverageSDK {
     params: TargetPositionParams,
     totalTokens: number,
     totalSlippage: number,
-    leverageParams: any
+    leverageParams: any,
+    gasSpent: GasSpent,
+    legData?: LegData[]
   ): Promise<LeveragePosition> {
-    // Get leg details
-    const legs = await Promise.all(
-      legIds.map(id => this.protocolContract.legs(id))
+    // Get leg details (simulations pass them in)
+    const legs = legData || await Promise.all(
+      legIds.map(id => this.protocol.legs(id))
     );
 
-    // Calculate protocol fees
+    // Calculate protocol fees (a fully reduced position has no legs left)
+    const legCount = legs.length || 1;
     const totalSets = legs.reduce((sum, leg) => sum + Number(leg.sets), 0);
-    const avgF = legs.reduce((sum, leg) => sum + Number(leg.F_e18), 0) / legs.length / 1e18;
-    const avgRS = legs.reduce((sum, leg) => sum + Number(leg.rS_e18), 0) / legs.length / 1e18;
-    const avgRJ = legs.reduce((sum, leg) => sum + Number(leg.rJ_e18), 0) / legs.length / 1e18;
-    const avgTerm = legs.reduce((sum, leg) => sum + Number(leg.term), 0) / legs.length;
+    const avgF = legs.reduce((sum, leg) => sum + Number(leg.F_e18), 0) / legCount / 1e18;
+    const avgRS = legs.reduce((sum, leg) => sum + Number(leg.rS_e18), 0) / legCount / 1e18;
+    const avgRJ = legs.reduce((sum, leg) => sum + Number(leg.rJ_e18), 0) / legCount / 1e18;
+    const avgTerm = legs.reduce((sum, leg) => sum + Number(leg.term), 0) / legCount;
 
     const seniorInterest = totalSets * avgF * avgRS * (avgTerm / (365 * 24 * 3600));
     const juniorInterest = totalSets * avgF * avgRJ * (avgTerm / (365 * 24 * 3600));
 
-    // Estimate gas (rough)
-    const gasUsed = legIds.length * 500000; // ~500k gas per leg
-    const feeData = await this.provider.getFeeData();
-    const gasPrice = feeData.gasPrice || ethers.BigNumber.from(0);
-    const gasCostWei = gasPrice.mul(gasUsed);
-    const gasCostUSDC = parseFloat(ethers.utils.formatEther(gasCostWei)) * 1; // Assume $1/MATIC
+    // Gas spent (or estimated) on approvals and opens, plus closing every leg, priced in USD
+    const defaulted = [...gasSpent.defaulted];
+    let closes = gasSpent.closes;
+    if (closes === undefined) {
+      closes = 0;
+      if (legIds.length > 0) {
+        // Unwinds close the newest leg first, the one the wallet can fund
+        const closeGas = await this.estimateGasUnits({ action: 'close', legId: legIds[legIds.length - 1] }, defaulted);
+        closes = toGasToken(closeGas * await this.protocol.getGasPrice() * BigInt(legIds.length));
+      }
+    }
+    const gasTokenPriceUSD = await this.gasTokenPriceUSD();
+    const gasBreakdown: GasFees = {
+      source: gasSpent.source,
+      approvals: gasSpent.approvals,
+      opens: gasSpent.opens,
+      closes,
+      gasTokenPriceUSD,
+      defaulted: [...new Set(defaulted)],
+    };
+    const gasCostUSDC = (gasSpent.approvals + gasSpent.opens + closes) * (gasTokenPriceUSD ?? 0);
 
     // Calculate PnL scenarios
     const effectiveLeverage = totalTokens / (params.capitalUSDC * 1e6);
@@ -837,7 +1967,17 @@ export class ForecastLeverageSDK {
     const pnlAtTarget = (priceMove * totalTokens / 1e6) - totalSlippage - seniorInterest - juniorInterest - gasCostUSDC;
 
     const totalFees = totalSlippage + seniorInterest + juniorInterest + gasCostUSDC;
-    const breakeven = params.currentPrice + (totalFees / (totalTokens / 1e6));
+    const breakeven = totalTokens > 0 ? params.currentPrice + (totalFees / (totalTokens / 1e6)) : params.currentPrice;
+
+    // Exiting at the stop loses the move plus fees; loans are non-recourse, so never more than the capital
+    const maxLoss = params.stopPrice !== undefined
+      ? Math.min(params.capitalUSDC, Math.abs(params.currentPrice - params.stopPrice) * totalTokens / 1e6 + totalFees)
+      : params.capitalUSDC;
+
+    // The first leg to expire triggers auto-close
+    const autoCloseTime = legs.length > 0
+      ? Math.min(...legs.map(leg => (Number(leg.opened) + Number(leg.term)) * 1000))
+      : 0;
 
     return {
       legIds,
@@ -849,20 +1989,114 @@ export class ForecastLeverageSDK {
         protocolJunior: juniorInterest,
         polymarketSlippage: totalSlippage,
         gas: gasCostUSDC,
+        gasBreakdown,
         total: totalFees,
       },
       pnl: {
         atTarget: pnlAtTarget,
         breakeven,
         maxProfit: ((1 - params.currentPrice) * totalTokens / 1e6) - totalFees,
-        maxLoss: -params.capitalUSDC,
+        maxLoss: -maxLoss,
       },
-      autoCloseTime: Date.now() + (avgTerm * 1000),
+      autoCloseTime,
       F: avgF,
       R: avgRS + avgRJ,
+      params,
+    };
+  }
+
+  /**
+   * Gas for a simulated open from estimateGas: the approvals the wallet
+   * still needs and each planned open. Nothing is bought yet, so opens usually revert and fall
+   * back to DEFAULT_GAS_UNITS (once one reverts the rest do too), as do
+   * closes of legs that don't exist yet.
+   */
+  private async estimateOpenGas(params: TargetPositionParams, loopTokens: number[]): Promise<GasSpent> {
+    const defaulted: GasAction[] = [];
+    const gasPrice = await this.protocol.getGasPrice();
+    let approvals = 0n;
+    for (const action of await this.missingApprovals()) {
+      approvals += await this.estimateGasUnits({ action }, defaulted);
+    }
+
+    let opens = 0n;
+    for (const tokens of loopTokens) {
+      opens += defaulted.includes('open')
+        ? BigInt(DEFAULT_GAS_UNITS.open)
+        : await this.estimateGasUnits({
+          action: 'open',
+          sets: Math.floor(tokens),
+          term: params.timeframeSeconds,
+          conditionId: params.marketConditionId,
+          longYes: params.longYes,
+        }, defaulted);
+    }
+    defaulted.push('close');
+
+    return {
+      source: 'estimate',
+      approvals: toGasToken(approvals * gasPrice),
+      opens: toGasToken(opens * gasPrice),
+      closes: toGasToken(BigInt(DEFAULT_GAS_UNITS.close * loopTokens.length) * gasPrice),
+      defaulted,
     };
   }
 
+  /**
+   * Gas an opening run paid, from the receipts of its approvals and legs
+   */
+  private async executionGas(record: PositionRecord): Promise<GasSpent> {
+    const defaulted: GasAction[] = [];
+    let approvals = 0;
+    for (const approval of record.approvals || []) {
+      approvals += await this.transactionGas(approval.txHash, approval.kind, defaulted);
+    }
+    let opens = 0;
+    for (const leg of record.legs) {
+      opens += await this.transactionGas(leg.txHash, 'open', defaulted);
+    }
+    return { source: 'receipt', approvals, opens, defaulted };
+  }
+
+  /**
+   * Gas units for `call`, or DEFAULT_GAS_UNITS (noted in `defaulted`) if it would revert
+   */
+  private async estimateGasUnits(call: GasCall, defaulted: GasAction[]): Promise<bigint> {
+    try {
+      return await this.protocol.estimateGas(call);
+    } catch (error: any) {
+      this.logger.debug(`estimateGas for ${call.action} reverted, assuming ${DEFAULT_GAS_UNITS[call.action]} gas`, { component: 'Gas', error: error.message });
+      defaulted.push(call.action);
+      return BigInt(DEFAULT_GAS_UNITS[call.action]);
+    }
+  }
+
+  /**
+   * Gas token a mined transaction paid; DEFAULT_GAS_UNITS at the current
+   * gas price (noted in `defaulted`) if its receipt can't be read
+   */
+  private async transactionGas(txHash: string, action: GasAction, defaulted: GasAction[]): Promise<number> {
+    try {
+      return toGasToken(await this.protocol.getTransactionCost(txHash));
+    } catch (error: any) {
+      this.logger.warn(`No receipt for ${txHash}, assuming ${DEFAULT_GAS_UNITS[action]} gas`, { component: 'Gas', txHash, error: error.message });
+      defaulted.push(action);
+      return toGasToken(BigInt(DEFAULT_GAS_UNITS[action]) * await this.protocol.getGasPrice());
+    }
+  }
+
+  /**
+   * USD per gas token, or null if the price source fails (gas is then left out of USD fees)
+   */
+  private async gasTokenPriceUSD(): Promise<number | null> {
+    try {
+      return await this.gasTokenPrice.getPriceUSD();
+    } catch (error: any) {
+      this.logger.warn('Gas token price unavailable, leaving gas out of USD fees', { component: 'Gas', error: error.message });
+      return null;
+    }
+  }
+
   /**
    * Closes all legs of a leveraged position and returns proceeds.
    * Each leg is closed individually via protocol.close().
@@ -878,14 +2112,16 @@ export class ForecastLeverageSDK {
    * ```
    */
   async closePosition(legIds: bigint[]): Promise<number> {
+    const account = await this.signerAddress();
     let totalUSDC = 0;
 
     for (const legId of legIds) {
-      const balanceBefore = await this.usdcContract.balanceOf(this.signer.address);
+      const balanceBefore = await this.protocol.usdcBalanceOf(account);
 
-      await this.protocolContract.close(legId);
+      const txHash = await this.protocol.close(legId);
+      await this.recordLegClosed(legId, txHash);
 
-      const balanceAfter = await this.usdcContract.balanceOf(this.signer.address);
+      const balanceAfter = await this.protocol.usdcBalanceOf(account);
       totalUSDC += Number(balanceAfter - balanceBefore);
     }
 
@@ -893,32 +2129,979 @@ export class ForecastLeverageSDK {
   }
 
   /**
-   * Helper: Get YES token ID from condition
-   */
-  private async getYesTokenId(conditionId: string): Promise<string> {
-    return await this.protocolContract.yesPositionId(conditionId);
-  }
-
-  /**
+   * Unwinds a leveraged position back to USDC by reversing the loop.
+   *
+   * Legs are closed newest first. Each close repays the leg's loan and
+   * frees its long tokens, which are sold into the bid side within
+   * `maxSlippageBps`; the sale proceeds fund the next (older) leg's close.
+   * Expired or resolved legs are settled by the protocol instead and pay
+   * out their surplus directly.
+   *
+   * Tokens are sold at the bid while each older leg was funded at the ask,
+   * so every step needs a little wallet USDC on top of the sale proceeds
+   * (spread plus accrued interest).
+   *
+   * If a sale fails, or a close fails after at least one leg is closed, the
+   * unwind stops and the report lists the legs still open in
+   * `remainingLegIds` (tokens from a failed sale stay in the wallet).
+   *
+   * @param legIds - Leg IDs in the order they were opened (as returned by openTargetPosition)
+   * @param options - Sale slippage limit and, optionally, the capital deployed for realized PnL
+   * @returns Per-leg repayments, sale prices, fees and realized PnL
+   * @throws {ValidationError} If no legs are given or slippage is out of range
+   * @throws {ProtocolError} If the newest leg cannot be closed
+   *
+   * @example
+   * ```typescript
+   * const report = await sdk.unwindPosition(position.legIds, {
+   *   maxSlippageBps: 100,
+   *   capitalUSDC: position.capitalDeployed
+   * });
+   *
+   * console.log(`Back to USDC: $${report.netUSDC.toFixed(2)}, PnL $${report.realizedPnl!.toFixed(2)}`);
+   * ```
+   */
+  async unwindPosition(legIds: bigint[], options: UnwindOptions = {}): Promise<UnwindReport> {
+    const maxSlippageBps = options.maxSlippageBps !== undefined ? options.maxSlippageBps : 100;
+    if (legIds.length === 0) {
+      throw new ValidationError('No legs to unwind');
+    }
+    if (maxSlippageBps < 0 || maxSlippageBps > 5000) {
+      throw new ValidationError(`Invalid slippage: ${maxSlippageBps}bps (must be 0-5000, i.e., 0-50%)`);
+    }
+
+    await this.setupPolymarket();
+    const approvals = await this.setupApprovals();
+
+    const account = await this.signerAddress();
+    const gasTokenPriceUSD = (await this.gasTokenPriceUSD()) ?? 0;
+    const startBalance = await this.protocol.usdcBalanceOf(account);
+
+    const closeOrder = [...legIds].reverse();
+    const unwound: UnwoundLeg[] = [];
+    let carry = 0; // Newest leg's loan, left in the wallet by openTargetPosition
+    let stopReason: string | undefined;
+
+    for (const legId of closeOrder) {
+      let closed: { leg: UnwoundLeg; freedTokens: number };
+      try {
+        closed = await this.closeLegForUnwind(legId, gasTokenPriceUSD);
+      } catch (error: any) {
+        // Nothing unwound yet: surface the failure as-is
+        if (unwound.length === 0) {
+          throw error;
+        }
+        stopReason = error.message;
+        this.logger.warn(`Stopped at leg ${legId}`, { component: 'Unwind', legId, error: error.message });
+        break;
+      }
+
+      const leg = closed.leg;
+      await this.recordLegClosed(legId, leg.txHash);
+      if (unwound.length === 0 && !leg.settled) {
+        carry = leg.repaid - leg.interest;
+      }
+      unwound.push(leg);
+
+      if (!leg.settled) {
+        try {
+          const sale = await this.sellTokensPolymarket(leg.tokenId, closed.freedTokens, maxSlippageBps);
+          leg.tokensSold = sale.tokensSold;
+          leg.saleProceeds = sale.proceeds;
+          leg.avgSalePrice = sale.avgPrice;
+          leg.bestBid = sale.bestBid;
+          leg.slippage = sale.slippage;
+          await this.recordFill(legId, sale.fill);
+        } catch (error: any) {
+          // The leg is closed but its tokens stay in the wallet; older legs can't be funded
+          stopReason = error.message;
+          this.logger.warn(`Stopped after leg ${legId}`, { component: 'Unwind', legId, error: error.message });
+          break;
+        }
+      }
+
+      this.logger.info(`Leg ${legId}: repaid $${leg.repaid.toFixed(2)}, sold ${leg.tokensSold.toFixed(4)} @ ${leg.avgSalePrice.toFixed(4)}${leg.settled ? ' (settled)' : ''}`, { component: 'Unwind', legId, tokenId: leg.tokenId });
+    }
+
+    const endBalance = await this.protocol.usdcBalanceOf(account);
+    const netUSDC = Number(endBalance - startBalance) / 1e6;
+    const sum = (pick: (leg: UnwoundLeg) => number) => unwound.reduce((total, leg) => total + pick(leg), 0);
+
+    const protocolInterest = sum(leg => leg.interest);
+    const polymarketSlippage = sum(leg => leg.slippage);
+    let approvalGas = 0;
+    for (const approval of approvals) {
+      approvalGas += await this.transactionGas(approval.txHash, approval.kind, []);
+    }
+    const gas = sum(leg => leg.gas) + approvalGas * gasTokenPriceUSD;
+
+    return {
+      legs: unwound,
+      remainingLegIds: closeOrder.slice(unwound.length).reverse(),
+      stopReason,
+      totalRepaid: sum(leg => leg.repaid),
+      totalProceeds: sum(leg => leg.saleProceeds + leg.settlementUSDC),
+      netUSDC,
+      fees: {
+        protocolInterest,
+        polymarketSlippage,
+        gas,
+        total: protocolInterest + polymarketSlippage + gas,
+      },
+      realizedPnl: options.capitalUSDC !== undefined
+        ? netUSDC + carry - options.capitalUSDC - gas
+        : undefined,
+    };
+  }
+
+  /**
+   * Reduces a leveraged position by a percentage of exposure or by the
+   * USDC it should release, and returns the recalculated position.
+   *
+   * Legs are whole, so the reduction closes the newest legs (cheapest to
+   * fund, see unwindPosition) until the target is covered, rounding up to
+   * the next leg. The returned position keeps the remaining legs, with
+   * capital reduced by the USDC released and fees, breakeven and auto-close
+   * time recomputed from them. What was realized is in `reduction`.
+   *
+   * @param position - Position returned by openTargetPosition (or a previous reducePosition)
+   * @param options - Exactly one of `percent` or `usdcAmount`, plus the sale slippage limit
+   * @returns Updated position with the closing report in `reduction`
+   * @throws {ValidationError} If the target is invalid or more than the position can release
+   * @throws {ProtocolError} If the newest leg cannot be closed
+   *
+   * @example
+   * ```typescript
+   * // Take 40% off the table
+   * const reduced = await sdk.reducePosition(position, { percent: 40 });
+   * console.log(`Leverage now ${reduced.effectiveLeverage.toFixed(2)}x, ${reduced.legIds.length} legs left`);
+   *
+   * // Free up $300
+   * const freed = await sdk.reducePosition(position, { usdcAmount: 300 });
+   * console.log(`Released $${freed.reduction!.netUSDC.toFixed(2)}`);
+   * ```
+   */
+  async reducePosition(position: LeveragePosition, options: ReduceOptions): Promise<LeveragePosition> {
+    const legIdsToClose = await this.planReduction(position, options);
+
+    const report = await this.unwindPosition(legIdsToClose, {
+      maxSlippageBps: options.maxSlippageBps,
+    });
+
+    const closed = new Set(report.legs.map(leg => leg.legId));
+    const remainingLegIds = position.legIds.filter(legId => !closed.has(legId));
+    const tokensSold = report.legs.reduce((sum, leg) => sum + leg.tokensSold, 0);
+    const remainingTokens = Math.max(0, position.totalExposure - tokensSold);
+
+    // Entry slippage stays with the tokens still held
+    const entrySlippage = position.totalExposure > 0
+      ? position.fees.polymarketSlippage * remainingTokens / position.totalExposure
+      : 0;
+
+    // Approval and open gas stays with the position; closes are re-estimated for the legs left
+    const spent = position.fees.gasBreakdown;
+    const result = await this.calculatePositionMetrics(
+      remainingLegIds,
+      { ...position.params, capitalUSDC: Math.max(0, position.capitalDeployed - report.netUSDC) },
+      remainingTokens * 1e6, // Convert to 6 decimals
+      entrySlippage,
+      { F: position.F, R: position.R },
+      {
+        source: spent?.source ?? 'receipt',
+        approvals: spent?.approvals ?? 0,
+        opens: spent?.opens ?? 0,
+        defaulted: spent?.defaulted ?? [],
+      }
+    );
+    result.reduction = report;
+
+    const record = position.positionId
+      ? await this.store.get(position.positionId).catch(() => null)
+      : await this.findRecord(position.legIds[0]);
+    if (record) {
+      result.positionId = record.id;
+      record.position = result;
+      await this.persistRecord(record);
+    }
+
+    this.logger.info(`Closed ${report.legs.length} legs, released $${report.netUSDC.toFixed(2)}, ${remainingLegIds.length} legs left`, { component: 'Reduce' });
+
+    return result;
+  }
+
+  /**
+   * Pick the newest legs whose closing covers the reduction target
+   */
+  private async planReduction(position: LeveragePosition, options: ReduceOptions): Promise<bigint[]> {
+    const hasPercent = options.percent !== undefined;
+    const hasAmount = options.usdcAmount !== undefined;
+    if (hasPercent === hasAmount) {
+      throw new ValidationError('Specify exactly one of percent or usdcAmount');
+    }
+    if (hasPercent && (options.percent! <= 0 || options.percent! > 100)) {
+      throw new ValidationError(`Invalid percent: ${options.percent} (must be > 0 and <= 100)`);
+    }
+    if (hasAmount && options.usdcAmount! <= 0) {
+      throw new ValidationError(`Invalid usdcAmount: ${options.usdcAmount} (must be > 0)`);
+    }
+    if (position.legIds.length === 0) {
+      throw new ValidationError('Position has no open legs');
+    }
+
+    const legs = await Promise.all(position.legIds.map(id => this.protocol.legs(id)));
+    const totalSets = legs.reduce((sum, leg) => sum + Number(leg.sets), 0);
+
+    let bestBid = 0;
+    if (hasAmount) {
+      const orderbook = await this.exchange.getOrderBook(legs[0].longPositionId.toString());
+      if (!orderbook.bids || orderbook.bids.length === 0) {
+        throw new PolymarketError(`No bids available for token ${legs[0].longPositionId}`, {
+          code: 'NO_BOOK_LIQUIDITY',
+          context: { tokenId: legs[0].longPositionId.toString() },
+        });
+      }
+      bestBid = orderbook.bids[0].price;
+    }
+
+    const selected: bigint[] = [];
+    let closedSets = 0;
+    let released = 0;
+
+    for (let i = legs.length - 1; i >= 0; i--) {
+      const leg = legs[i];
+      const sets = Number(leg.sets);
+      const principal = sets * Number(leg.F_e18) / 1e18;
+      // Conservative: assume a full term of interest is due
+      const interest = principal * (Number(leg.rS_e18) + Number(leg.rJ_e18)) / 1e18 * (leg.term / (365 * 24 * 3600));
+
+      selected.unshift(position.legIds[i]);
+      closedSets += sets;
+      released += sets * bestBid - principal - interest;
+
+      if (hasPercent && closedSets >= totalSets * options.percent! / 100 - 1e-9) break;
+      if (hasAmount && released >= options.usdcAmount!) break;
+    }
+
+    if (hasAmount && released < options.usdcAmount!) {
+      throw new ValidationError(
+        `Cannot release $${options.usdcAmount!.toFixed(2)}: closing every leg releases about $${Math.max(0, released).toFixed(2)} at the current bid`
+      );
+    }
+
+    return selected;
+  }
+
+  /**
+   * Close one leg and measure the USDC and long tokens it moved
+   */
+  private async closeLegForUnwind(legId: bigint, gasTokenPriceUSD: number): Promise<{ leg: UnwoundLeg; freedTokens: number }> {
+    const account = await this.signerAddress();
+    const leg = await this.protocol.legs(legId);
+    if (leg.sets === 0n) {
+      throw new ProtocolError(`Leg ${legId} does not exist`, { code: 'LEG_NOT_FOUND', context: { legId } });
+    }
+
+    const tokenId = leg.longPositionId.toString();
+    const principal = Number(leg.sets) * Number(leg.F_e18) / 1e18;
+    const usdcBefore = await this.protocol.usdcBalanceOf(account);
+    const tokensBefore = await this.protocol.ctfBalanceOf(account, tokenId);
+
+    let txHash: string;
+    try {
+      txHash = await this.protocol.close(legId);
+    } catch (error: any) {
+      const code = classifyRevert(error);
+      const options = { code, cause: error, context: { legId } };
+      if (code === 'INSUFFICIENT_BALANCE') {
+        const have = Number(usdcBefore) / 1e6;
+        throw new ProtocolError(
+          `Insufficient USDC to close leg ${legId}: have $${have.toFixed(2)}, need about $${principal.toFixed(2)} plus interest`,
+          options
+        );
+      }
+      if (code === 'PROTOCOL_PAUSED') {
+        throw new ProtocolError('Protocol is paused', options);
+      }
+      throw new ProtocolError(`Failed to close leg ${legId}: ${error.message}`, options);
+    }
+
+    const usdcDelta = Number((await this.protocol.usdcBalanceOf(account)) - usdcBefore) / 1e6;
+    const freed = Number((await this.protocol.ctfBalanceOf(account, tokenId)) - tokensBefore) / 1e6;
+    const settled = freed <= 0;
+    const repaid = settled ? 0 : Math.max(0, -usdcDelta);
+    const gas = (await this.transactionGas(txHash, 'close', [])) * gasTokenPriceUSD;
+
+    const result: UnwoundLeg = {
+      legId,
+      tokenId,
+      sets: Number(leg.sets),
+      settled,
+      repaid,
+      interest: settled ? 0 : Math.max(0, repaid - principal),
+      settlementUSDC: settled ? Math.max(0, usdcDelta) : 0,
+      tokensSold: 0,
+      saleProceeds: 0,
+      avgSalePrice: 0,
+      bestBid: 0,
+      slippage: 0,
+      gas,
+      txHash,
+    };
+
+    return { leg: result, freedTokens: freed };
+  }
+
+  /**
+   * Sell tokens into the bid side, never below best bid minus maxSlippageBps
+   */
+  private async sellTokensPolymarket(
+    tokenId: string,
+    size: number,
+    maxSlippageBps: number
+  ): Promise<{ tokensSold: number; proceeds: number; avgPrice: number; bestBid: number; slippage: number; fill: OrderFillRecord }> {
+    const orderbook = await this.exchange.getOrderBook(tokenId);
+    if (!orderbook.bids || orderbook.bids.length === 0) {
+      throw new PolymarketError(`No bids available for token ${tokenId}`, { code: 'NO_BOOK_LIQUIDITY', context: { tokenId } });
+    }
+
+    const bestBid = orderbook.bids[0].price;
+    const minPrice = bestBid * (1 - maxSlippageBps / 10000);
+    this.logger.info(`Selling ${size.toFixed(4)} tokens @ min $${minPrice.toFixed(4)}`, { component: 'Polymarket', tokenId });
+
+    let order;
+    try {
+      order = await this.exchange.sell(tokenId, size, minPrice);
+    } catch (error: any) {
+      throw error instanceof PolymarketError ? error : new PolymarketError(`Sell order failed: ${error.message}`, {
+        cause: error,
+        context: { tokenId },
+      });
+    }
+
+    if (order.sizeMatched <= 0) {
+      throw new PolymarketError(
+        `Sell order ${order.orderId} for ${size.toFixed(4)} tokens did not fill above $${minPrice.toFixed(4)}`,
+        { code: 'SLIPPAGE_EXCEEDED', context: { orderId: order.orderId, tokenId } }
+      );
+    }
+
+    const slippage = (bestBid - order.avgFillPrice) * order.sizeMatched;
+
+    return {
+      tokensSold: order.sizeMatched,
+      proceeds: order.sizeMatched * order.avgFillPrice,
+      avgPrice: order.avgFillPrice,
+      bestBid,
+      slippage,
+      fill: {
+        orderId: order.orderId,
+        tokenId,
+        side: 'SELL',
+        size: order.sizeMatched,
+        avgPrice: order.avgFillPrice,
+        slippage,
+        timestamp: Date.now(),
+      },
+    };
+  }
+
+  /**
+   * Save a record; store failures are logged, never allowed to break trading
+   */
+  private async persistRecord(record: PositionRecord): Promise<void> {
+    record.updatedAt = Date.now();
+    try {
+      await this.store.save(record);
+    } catch (error: any) {
+      this.logger.warn(`Failed to save position ${record.id}`, { component: 'Store', error: error.message });
+    }
+  }
+
+  /**
+   * Mark a leg closed in the record that owns it, if any. The close
+   * transaction is unknown when the close was read from the escrow.
+   */
+  private async recordLegClosed(legId: bigint, txHash?: string): Promise<void> {
+    const record = await this.findRecord(legId);
+    if (!record) return;
+
+    const leg = record.legs.find(candidate => candidate.legId === legId)!;
+    leg.open = false;
+    if (txHash) leg.closeTxHash = txHash;
+    if (record.legs.every(candidate => !candidate.open)) {
+      record.status = 'closed';
+    }
+    await this.persistRecord(record);
+  }
+
+  /**
+   * Append an order fill to the record that owns a leg, if any
+   */
+  private async recordFill(legId: bigint, fill: OrderFillRecord): Promise<void> {
+    const record = await this.findRecord(legId);
+    if (!record) return;
+
+    record.fills.push(fill);
+    await this.persistRecord(record);
+  }
+
+  private async findRecord(legId: bigint): Promise<PositionRecord | null> {
+    try {
+      return await this.store.findByLegId(legId);
+    } catch (error: any) {
+      this.logger.warn(`Failed to look up leg ${legId}`, { component: 'Store', legId, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Rebuilds a borrower's positions from LegOpened/LegClosed logs and
+   * legs(legId) reads, for when the legIds returned by openTargetPosition
+   * were lost.
+   *
+   * Legs are grouped into positions by condition ID, side and term, with
+   * consecutive opens no more than `groupWindowSeconds` apart. Logs are
+   * fetched in `blockRange`-sized pages so RPCs that cap getLogs ranges
+   * still work.
+   *
+   * Entry parameters are not stored on-chain, so `params` is rebuilt at
+   * the current best bid: `capitalDeployed` is an estimate of the capital
+   * behind the open legs and `pnl.atTarget` is not meaningful. `legIds`
+   * holds the open legs only, ready for unwindPosition or reducePosition.
+   *
+   * @param borrower - Borrower address (default: the SDK signer)
+   * @param options - Block range, page size and grouping options
+   * @returns Positions, oldest first
+   * @throws {ValidationError} If the block range or page size is invalid
+   * @throws {ProtocolError} If log or leg reads fail
+   *
+   * @example
+   * ```typescript
+   * const positions = await sdk.getPositions(undefined, { fromBlock: 55_000_000, blockRange: 2_000 });
+   * for (const position of positions.filter(p => p.status !== 'closed')) {
+   *   console.log(position.conditionId, position.legIds.length, position.totalExposure);
+   * }
+   * ```
+   */
+  async getPositions(borrower?: string, options: PositionQueryOptions = {}): Promise<RecoveredPosition[]> {
+    const account = (borrower || await this.signerAddress()).toLowerCase();
+    const fromBlock = options.fromBlock ?? 0;
+    const blockRange = options.blockRange ?? 10_000;
+    const groupWindowSeconds = options.groupWindowSeconds ?? 600;
+
+    if (blockRange < 1) {
+      throw new ValidationError(`Invalid blockRange: ${blockRange} (must be >= 1)`);
+    }
+
+    let events;
+    let toBlock: number;
+    try {
+      toBlock = options.toBlock ?? await this.protocol.getBlockNumber();
+      if (toBlock < fromBlock) {
+        throw new ValidationError(`Invalid block range: ${fromBlock}-${toBlock}`);
+      }
+
+      events = await this.fetchLegEvents(fromBlock, toBlock, blockRange);
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new ProtocolError(`Failed to read leg events: ${error.message}`, { code: classifyRevert(error), cause: error });
+    }
+
+    const closes = new Map(
+      events.filter(event => event.name === 'LegClosed').map(event => [event.legId, event])
+    );
+
+    // LegOpened carries no borrower, so every opened leg is read and filtered
+    const legs: RecoveredLeg[] = [];
+    for (const event of events.filter(event => event.name === 'LegOpened')) {
+      const data = await this.protocol.legs(event.legId);
+      if (data.borrower.toLowerCase() !== account) continue;
+
+      const close = closes.get(event.legId);
+      legs.push({
+        legId: event.legId,
+        open: !close,
+        openedBlock: event.blockNumber,
+        openTxHash: event.txHash,
+        closedBlock: close?.blockNumber,
+        closeTxHash: close?.txHash,
+        autoClose: close?.autoClose,
+        data,
+      });
+    }
+
+    // Group consecutive opens of the same market, side and term
+    const groups: RecoveredLeg[][] = [];
+    for (const leg of legs.sort((a, b) => (a.legId < b.legId ? -1 : 1))) {
+      const group = groups.find(candidate => {
+        const last = candidate[candidate.length - 1].data;
+        return last.conditionId.toLowerCase() === leg.data.conditionId.toLowerCase() &&
+          last.longPositionId === leg.data.longPositionId &&
+          last.term === leg.data.term &&
+          leg.data.opened - last.opened <= groupWindowSeconds;
+      });
+      if (group) {
+        group.push(leg);
+      } else {
+        groups.push([leg]);
+      }
+    }
+
+    const positions: RecoveredPosition[] = [];
+    for (const group of groups) {
+      const position = await this.recoverPosition(group);
+      if (position.status === 'closed' && options.includeClosed === false) continue;
+      positions.push(position);
+    }
+
+    return positions;
+  }
+
+  /**
+   * Page through a block range; each query spans at most blockRange blocks
+   */
+  private async fetchLegEvents(fromBlock: number, toBlock: number, blockRange: number): Promise<LegEvent[]> {
+    const events: LegEvent[] = [];
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+      const end = Math.min(toBlock, start + blockRange - 1);
+      events.push(...await this.protocol.getLegEvents(start, end));
+    }
+    return events;
+  }
+
+  /**
+   * Reads how close a position is to auto-close and to interest consuming
+   * its collateral, and what it is worth at the current bid.
+   *
+   * Each open leg reports accrued interest, debt, seconds until
+   * `opened + term` (when anyone may auto-close it), remaining runway
+   * (`(1 - F) / (F * R) * year` from opening, less time elapsed) and equity
+   * at the mark. Times use the chain's clock. Legs closed on-chain (per
+   * the PositionStore or the leg's emptied escrow) are left out.
+   *
+   * Status is the worst leg status, where a leg is `warning` or `critical`
+   * once auto-close or the end of its runway is within the threshold
+   * fraction of its term, and `expired` past its term. Position equity
+   * below the equity thresholds raises the status too.
+   *
+   * @param legIds - Leg IDs of one position, in open order
+   * @param thresholds - When to report `warning` and `critical`
+   * @returns Per-leg and aggregate health, with the reasons for a non-healthy status
+   * @throws {ValidationError} If no legs are given or thresholds are invalid
+   * @throws {ProtocolError} If a leg does not exist or reads fail
+   *
+   * @example
+   * ```typescript
+   * const health = await sdk.getPositionHealth(position.legIds);
+   * if (health.status !== 'healthy') {
+   *   console.log(health.status, health.reasons.join('; '));
+   * }
+   * console.log(`Equity $${health.equity.toFixed(2)}, auto-close in ${health.timeToAutoClose}s`);
+   * ```
+   */
+  async getPositionHealth(legIds: bigint[], thresholds: HealthThresholds = {}): Promise<PositionHealth> {
+    if (legIds.length === 0) {
+      throw new ValidationError('No legs to check');
+    }
+    const limits = resolveHealthThresholds(thresholds);
+
+    try {
+      const { openLegIds, closedLegIds, legs, carriedLoan } = await this.readOpenLegs(legIds);
+      const timestamp = await this.protocol.getBlockTimestamp();
+      const mark = legs.length > 0 ? await this.markPrice(legs[0], 'Health') : 0;
+
+      return summarizeHealth(
+        legs.map((leg, i) => assessLeg(openLegIds[i], leg, timestamp, mark, limits)),
+        closedLegIds,
+        timestamp,
+        mark,
+        carriedLoan,
+        limits
+      );
+    } catch (error: any) {
+      if (error instanceof ForecastError) {
+        throw error;
+      }
+      throw new ProtocolError(`Failed to read position health: ${error.message}`, { code: classifyRevert(error), cause: error });
+    }
+  }
+
+  /**
+   * Polls getPositionHealth and reports every reading and every status
+   * change, so a backend can notify users before their legs are
+   * auto-closed. The first reading is taken right away; failed readings go
+   * to `onError` and polling continues. The monitor stops by itself once
+   * every leg is closed, or when `stop()` is called.
+   *
+   * @param legIds - Leg IDs of one position, in open order
+   * @param options - Polling interval, thresholds and listeners
+   * @returns The running monitor (`stop()`, `last` reading)
+   * @throws {ValidationError} If no legs are given, or the interval or thresholds are invalid
+   *
+   * @example
+   * ```typescript
+   * const monitor = sdk.monitorPositionHealth(position.legIds, {
+   *   intervalMs: 5 * 60_000,
+   *   thresholds: { warningTimeLeft: 0.3 },
+   *   onAlert: ({ status, health }) => notifyUser(userId, status, health.reasons),
+   * });
+   *
+   * // Later, e.g. after the user closes the position
+   * monitor.stop();
+   * ```
+   */
+  monitorPositionHealth(legIds: bigint[], options: HealthMonitorOptions = {}): HealthMonitor {
+    if (legIds.length === 0) {
+      throw new ValidationError('No legs to monitor');
+    }
+    if (options.intervalMs !== undefined && !(options.intervalMs > 0)) {
+      throw new ValidationError(`Invalid intervalMs: ${options.intervalMs} (must be > 0)`);
+    }
+    const thresholds = resolveHealthThresholds(options.thresholds);
+
+    return new HealthMonitor(() => this.getPositionHealth(legIds, thresholds), options, this.logger);
+  }
+
+  /**
+   * Watches a position's long token and unwinds the position when a
+   * take-profit, stop-loss or trailing-stop rule fires on the best bid, so
+   * the "40¢ → 44¢" intent actually exits at 44¢. Trigger prices are prices
+   * of the long token (the NO token for LONG NO). By default take-profit
+   * is `params.targetPrice` and stop-loss `params.stopPrice`, converted to
+   * the long token's price for LONG NO.
+   *
+   * The unwind is unwindPosition's (newest leg first, sales within
+   * `maxSlippageBps`); its report comes with the trigger in `onExit`.
+   * Legs it could not close stay watched and are retried while the rule
+   * holds. The monitor stops once every leg is closed, or on `stop()`.
+   *
+   * @param position - Position returned by openTargetPosition (or reducePosition)
+   * @param options - Trigger prices, polling interval, sale slippage limit and listeners
+   * @returns The running monitor (`stop()`, `finished`, `exits`, `highWaterMark`)
+   * @throws {ValidationError} If the position has no legs, no rule is set or options are out of range
+   *
+   * @example
+   * ```typescript
+   * const monitor = sdk.watchExitTriggers(position, {
+   *   triggers: { takeProfit: 0.44, stopLoss: 0.36, trailingStop: 0.03 },
+   *   maxSlippageBps: 150,
+   *   onExit: ({ rule, bestBid, report }) => notifyUser(`${rule} at ${bestBid}: $${report.netUSDC.toFixed(2)} back`),
+   * });
+   *
+   * const exit = await monitor.finished;
+   * ```
+   */
+  watchExitTriggers(position: LeveragePosition, options: ExitMonitorOptions = {}): ExitMonitor {
+    if (position.legIds.length === 0) {
+      throw new ValidationError('Position has no open legs');
+    }
+    if (options.intervalMs !== undefined && !(options.intervalMs > 0)) {
+      throw new ValidationError(`Invalid intervalMs: ${options.intervalMs} (must be > 0)`);
+    }
+    const maxSlippageBps = options.maxSlippageBps ?? 100;
+    if (maxSlippageBps < 0 || maxSlippageBps > 5000) {
+      throw new ValidationError(`Invalid slippage: ${maxSlippageBps}bps (must be 0-5000, i.e., 0-50%)`);
+    }
+
+    // Params quote YES prices; the book watched is the long token's
+    const { params } = position;
+    const longPrice = (price: number) => params.longYes ? price : 1 - price;
+    const triggers: ExitTriggers = {
+      takeProfit: params.targetPrice !== params.currentPrice ? longPrice(params.targetPrice) : undefined,
+      stopLoss: params.stopPrice !== undefined ? longPrice(params.stopPrice) : undefined,
+      ...options.triggers,
+    };
+    validateExitTriggers(triggers);
+
+    return new ExitMonitor(
+      position.legIds,
+      triggers,
+      async legIds => {
+        const { openLegIds, legs } = await this.readOpenLegs(legIds);
+        if (legs.length === 0) {
+          return { openLegIds, bestBid: null };
+        }
+        const orderbook = await this.exchange.getOrderBook(legs[0].longPositionId.toString());
+        return { openLegIds, bestBid: orderbook.bids && orderbook.bids.length > 0 ? orderbook.bids[0].price : null };
+      },
+      // PnL against the capital only when the whole position is unwound at once
+      legIds => this.unwindPosition(legIds, {
+        maxSlippageBps,
+        capitalUSDC: legIds.length === position.legIds.length ? position.capitalDeployed : undefined,
+      }),
+      options,
+      this.logger
+    );
+  }
+
+  /**
+   * Values an open position at current prices. The long tokens are priced
+   * at the best bid and at the depth-weighted price of selling all of them
+   * into the bids; what the legs owe (principal plus interest accrued so
+   * far, from the chain's clock) comes off, and the newest leg's loan that
+   * openTargetPosition left in the wallet goes back on. That gives the USDC
+   * closing now would return, and from it unrealized PnL against the cost
+   * basis, current leverage and the bid needed to break even. Close gas is
+   * not included. Legs closed on-chain (per the PositionStore or the
+   * leg's emptied escrow) are left out.
+   *
+   * @param legIds - Leg IDs of one position, in open order
+   * @param options - Cost basis, if the PositionStore has no record of the position
+   * @returns Valuation at the best bid and at the liquidation price
+   * @throws {ValidationError} If no legs are open or the cost basis is unknown
+   * @throws {PolymarketError} If the long token has no bids
+   * @throws {ProtocolError} If a leg does not exist or reads fail
+   *
+   * @example
+   * ```typescript
+   * const value = await sdk.valuePosition(position.legIds);
+   * console.log(`PnL $${value.atBid.unrealizedPnl.toFixed(2)} ($${value.atLiquidation.unrealizedPnl.toFixed(2)} if sold now)`);
+   * console.log(`Leverage ${value.atBid.leverage.toFixed(2)}x, breakeven ${value.breakeven.toFixed(4)}`);
+   * ```
+   */
+  async valuePosition(legIds: bigint[], options: ValuationOptions = {}): Promise<PositionValuation> {
+    if (legIds.length === 0) {
+      throw new ValidationError('No legs to value');
+    }
+    if (options.capitalUSDC !== undefined && !(options.capitalUSDC >= 0)) {
+      throw new ValidationError(`Invalid capitalUSDC: ${options.capitalUSDC} (must be >= 0)`);
+    }
+
+    try {
+      const { record, openLegIds, closedLegIds, legs, carriedLoan } = await this.readOpenLegs(legIds);
+      if (legs.length === 0) {
+        throw new ValidationError('Position has no open legs');
+      }
+      const capitalUSDC = options.capitalUSDC ?? record?.position?.capitalDeployed;
+      if (capitalUSDC === undefined) {
+        throw new ValidationError(`No cost basis for leg ${legIds[0]}: pass capitalUSDC`);
+      }
+
+      const tokenId = legs[0].longPositionId.toString();
+      const orderbook = await this.exchange.getOrderBook(tokenId);
+      if (!orderbook.bids || orderbook.bids.length === 0) {
+        throw new PolymarketError(`No bids available for token ${tokenId}`, { code: 'NO_BOOK_LIQUIDITY', context: { tokenId } });
+      }
+
+      const timestamp = await this.protocol.getBlockTimestamp();
+      let principal = 0;
+      let accruedInterest = 0;
+      for (const leg of legs) {
+        const owed = legDebt(leg, timestamp);
+        principal += owed.principal;
+        accruedInterest += owed.accruedInterest;
+      }
+      const debt = principal + accruedInterest;
+      const exposure = legs.reduce((sum, leg) => sum + Number(leg.sets), 0);
+
+      const valuation = (price: number, value: number) => {
+        const equity = value - debt + carriedLoan;
+        return {
+          price,
+          value,
+          equity,
+          unrealizedPnl: equity - capitalUSDC,
+          leverage: equity > 0 ? value / equity : Infinity,
+        };
+      };
+      const bestBid = orderbook.bids[0].price;
+      const sale = walkBook(orderbook.bids, exposure, 'bids');
+
+      const result: PositionValuation = {
+        legIds: openLegIds,
+        closedLegIds,
+        timestamp,
+        exposure,
+        principal,
+        accruedInterest,
+        debt,
+        carriedLoan,
+        capitalUSDC,
+        atBid: valuation(bestBid, exposure * bestBid),
+        atLiquidation: { ...valuation(sale.avgPrice, sale.notional), unfilled: sale.unfilled },
+        breakeven: (capitalUSDC + debt - carriedLoan) / exposure,
+      };
+
+      this.logger.debug(`Valued ${exposure.toFixed(4)} tokens: equity $${result.atBid.equity.toFixed(2)} at ${bestBid}, $${result.atLiquidation.equity.toFixed(2)} at ${sale.avgPrice.toFixed(4)}`, { component: 'Valuation', tokenId });
+      return result;
+    } catch (error: any) {
+      if (error instanceof ForecastError) {
+        throw error;
+      }
+      throw new ProtocolError(`Failed to value position: ${error.message}`, { code: classifyRevert(error), cause: error });
+    }
+  }
+
+  /**
+   * Creates a keeper that closes legs past their term or on resolved
+   * markets, so positions settle on time. It tracks legs from
+   * LegOpened/LegClosed logs (one borrower, or protocol-wide by default),
+   * closes due legs in batches bounded by `maxLegsPerBatch` and
+   * `maxGasPerBatch`, and backs off legs whose close fails. Closes are sent
+   * (and their gas paid) by this SDK's signer; legs in the PositionStore
+   * are marked closed.
+   *
+   * @param options - Borrower filter, scan range, batch limits, gas price cap, backoff and listeners
+   * @returns A keeper: `runOnce()` for a single pass, `start()` / `stop()` for a long-lived process
+   * @throws {ValidationError} If an option is out of range
+   *
+   * @example
+   * ```typescript
+   * const keeper = sdk.createKeeper({
+   *   fromBlock: 55_000_000,
+   *   maxGasPriceGwei: 300,
+   *   onReport: report => console.log(`closed ${report.closed.length}/${report.due}`),
+   *   onError: error => alert(error),
+   * });
+   * keeper.start();
+   * process.on('SIGTERM', () => keeper.stop());
+   * ```
+   */
+  createKeeper(options: KeeperOptions = {}): Keeper {
+    return new Keeper(this.protocol, this.logger, options, (legId, txHash) => this.recordLegClosed(legId, txHash));
+  }
+
+  /**
+   * Rebuild position metrics for one group of legs at the current bid
+   */
+  private async recoverPosition(group: RecoveredLeg[]): Promise<RecoveredPosition> {
+    const first = group[0].data;
+    const openLegs = group.filter(leg => leg.open);
+    const longYes = first.longPositionId.toString() === await this.getYesTokenId(first.conditionId);
+    const status = openLegs.length === group.length ? 'open' : openLegs.length === 0 ? 'closed' : 'partial';
+
+    const mark = await this.markPrice(first, 'Positions');
+
+    // Tokens were bought with capital plus every loan except the newest, which stays in the wallet
+    const openSets = openLegs.reduce((sum, leg) => sum + Number(leg.data.sets), 0);
+    const principals = openLegs.map(leg => Number(leg.data.sets) * Number(leg.data.F_e18) / 1e18);
+    const reinvested = principals.slice(0, -1).reduce((sum, principal) => sum + principal, 0);
+    const capitalUSDC = Math.max(0, openSets * mark - reinvested);
+
+    const params: TargetPositionParams = {
+      marketConditionId: first.conditionId,
+      longYes,
+      currentPrice: mark,
+      targetPrice: mark,
+      timeframeSeconds: first.term,
+      capitalUSDC,
+      maxSlippageBps: 0,
+    };
+
+    // Approvals aren't tied to a position on-chain; opens come from their receipts
+    const defaulted: GasAction[] = [];
+    let opens = 0;
+    for (const leg of group) {
+      opens += await this.transactionGas(leg.openTxHash, 'open', defaulted);
+    }
+
+    const metrics = await this.calculatePositionMetrics(
+      openLegs.map(leg => leg.legId),
+      params,
+      openSets * 1e6, // Convert to 6 decimals
+      0,
+      { F: Number(first.F_e18) / 1e18 },
+      { source: 'receipt', approvals: 0, opens, defaulted },
+      openLegs.map(leg => leg.data)
+    );
+
+    return {
+      ...metrics,
+      status,
+      conditionId: first.conditionId,
+      longYes,
+      openedAt: first.opened,
+      legs: group,
+    };
+  }
+
+  /**
+   * Read a position's legs, leaving out those closed on-chain (recording
+   * closes the PositionStore missed), and the newest leg's loan if the
+   * store confirms it is still in the wallet
+   */
+  private async readOpenLegs(legIds: bigint[]): Promise<{
+    record: PositionRecord | null;
+    openLegIds: bigint[];
+    closedLegIds: bigint[];
+    legs: LegData[];
+    carriedLoan: number;
+  }> {
+    const record = await this.findRecord(legIds[0]);
+    const closed = new Set(legIds.filter(legId => record?.legs.some(leg => leg.legId === legId && !leg.open)));
+
+    const candidateIds = legIds.filter(legId => !closed.has(legId));
+    const candidates = await Promise.all(candidateIds.map(legId => this.protocol.legs(legId)));
+    candidates.forEach((leg, i) => {
+      if (leg.sets === 0n) {
+        throw new ProtocolError(`Leg ${candidateIds[i]} does not exist`, { code: 'LEG_NOT_FOUND', context: { legId: candidateIds[i] } });
+      }
+    });
+
+    // Closing releases the leg's escrow, so an empty one means a keeper, auto-close or
+    // another process closed it without this store seeing it
+    const escrowed = await Promise.all(candidates.map(leg => this.protocol.ctfBalanceOf(leg.escrow, leg.longPositionId.toString())));
+    for (let i = 0; i < candidateIds.length; i++) {
+      if (escrowed[i] > 0n) continue;
+      closed.add(candidateIds[i]);
+      await this.recordLegClosed(candidateIds[i]);
+    }
+    const closedLegIds = legIds.filter(legId => closed.has(legId));
+    const openLegIds = legIds.filter(legId => !closed.has(legId));
+    const legs = candidates.filter((_, i) => !closed.has(candidateIds[i]));
+
+    // openTargetPosition leaves the newest leg's loan in the wallet until that leg is closed;
+    // without a record saying this is that leg, nothing is assumed to be there
+    const newestLeg = record?.legs[record.legs.length - 1];
+    const carries = legs.length > 0 && newestLeg !== undefined && newestLeg.open &&
+      newestLeg.legId === openLegIds[openLegIds.length - 1];
+    const carriedLoan = carries ? Number(legs[legs.length - 1].sets) * Number(legs[legs.length - 1].F_e18) / 1e18 : 0;
+
+    return { record, openLegIds, closedLegIds, legs, carriedLoan };
+  }
+
+  /**
+   * Best bid for a leg's long token; F is a floor on the price when there is no book
+   */
+  private async markPrice(leg: LegData, component: string): Promise<number> {
+    let mark = Number(leg.F_e18) / 1e18;
+    try {
+      const orderbook = await this.exchange.getOrderBook(leg.longPositionId.toString());
+      if (orderbook.bids && orderbook.bids.length > 0) {
+        mark = orderbook.bids[0].price;
+      }
+    } catch (error: any) {
+      this.logger.warn(`No order book for ${leg.longPositionId}`, { component, tokenId: leg.longPositionId.toString(), conditionId: leg.conditionId, error: error.message });
+    }
+    return mark;
+  }
+
+  /**
+   * Helper: Get YES token ID from condition
+   */
+  private async getYesTokenId(conditionId: string): Promise<string> {
+    return await this.protocol.yesPositionId(conditionId);
+  }
+
+  /**
    * Helper: Get NO token ID from condition
    */
   private async getNoTokenId(conditionId: string): Promise<string> {
-    return await this.protocolContract.noPositionId(conditionId);
+    return await this.protocol.noPositionId(conditionId);
   }
 }
 
 /**
  * USAGE EXAMPLE:
  *
- * const sdk = new ForecastLeverageSDK(
- *   "https://polygon-rpc.com",
- *   "0x...", // private key
- *   "0x...", // protocol address
- *   "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174", // USDC
- *   "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045", // CTF
- *   apiCreds, // Polymarket API credentials
- *   "0x..." // Polymarket funder address
- * );
+ * // Polygon preset: RPC, CLOB host, USDC and CTF addresses come from the network
+ * const sdk = new ForecastLeverageSDK({
+ *   signer: "0x...", // private key, ethers Signer or EIP-1193 provider
+ *   polymarketFunderAddress: "0x...", // Polymarket funder address
+ *   rpcUrl: "https://polygon-rpc.com", // optional override
+ * });
  *
  * // User wants: "YES from 40¢ to 44¢ in 1 hour with $1000"
  * const position = await sdk.openTargetPosition({
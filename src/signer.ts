@@ -0,0 +1,200 @@
+import { ethers } from "ethers";
+import { Wallet } from "@ethersproject/wallet";
+import { TypedDataDomain, TypedDataField } from "@ethersproject/abstract-signer";
+import { ValidationError } from "./errors";
+
+/**
+ * Signers
+ *
+ * The SDK signs Polymarket orders (EIP-712), CLOB API-key derivation and
+ * protocol transactions with whatever the integrator already holds: a
+ * private key, an ethers v5 or v6 Signer, or an EIP-1193 provider (Privy
+ * embedded wallets, hardware wallets, WalletConnect, KMS). Remote signers
+ * are used as-is; the SDK never asks them for a private key.
+ *
+ * Internally everything is an ethers v5 Signer with `_signTypedData`, which
+ * is what the Polymarket clob-client calls. RemoteSigner adapts v6 Signers
+ * and EIP-1193 providers to that shape.
+ */
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<unknown>;
+}
+
+/**
+ * The parts of an ethers v6 Signer the SDK uses
+ */
+export interface EthersV6Signer {
+  getAddress(): Promise<string>;
+  signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string>;
+  signMessage(message: string | Uint8Array): Promise<string>;
+  sendTransaction(transaction: Record<string, unknown>): Promise<{ hash: string }>;
+}
+
+export type SignerInput = string | ethers.Signer | EthersV6Signer | Eip1193Provider;
+
+/**
+ * ethers v5 Signer that can also sign EIP-712 typed data (what clob-client needs)
+ */
+export type TypedDataSigner = ethers.Signer & {
+  _signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string>;
+};
+
+const TRANSACTION_TIMEOUT_MS = 120_000; // Wait for a remotely sent transaction to reach the RPC node
+
+/**
+ * ethers v5 Signer backed by an ethers v6 Signer or an EIP-1193 provider.
+ * Typed data, messages and transactions are signed remotely; reads and
+ * receipts go through `provider`.
+ */
+export class RemoteSigner extends ethers.Signer implements TypedDataSigner {
+  readonly provider: ethers.providers.Provider;
+  private address?: string;
+
+  constructor(readonly remote: EthersV6Signer | Eip1193Provider, provider: ethers.providers.Provider) {
+    super();
+    this.provider = provider;
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      if (isEip1193(this.remote)) {
+        let accounts = await this.remote.request({ method: 'eth_accounts' }) as string[];
+        if (!accounts || accounts.length === 0) {
+          accounts = await this.remote.request({ method: 'eth_requestAccounts' }) as string[];
+        }
+        if (!accounts || accounts.length === 0) {
+          throw new ValidationError('EIP-1193 provider returned no accounts');
+        }
+        this.address = ethers.utils.getAddress(accounts[0]);
+      } else {
+        this.address = ethers.utils.getAddress(await this.remote.getAddress());
+      }
+    }
+    return this.address;
+  }
+
+  async signMessage(message: string | ethers.utils.Bytes): Promise<string> {
+    if (isEip1193(this.remote)) {
+      const data = typeof message === 'string' ? ethers.utils.toUtf8Bytes(message) : message;
+      return await this.remote.request({
+        method: 'personal_sign',
+        params: [ethers.utils.hexlify(data), await this.getAddress()],
+      }) as string;
+    }
+    return this.remote.signMessage(typeof message === 'string' ? message : ethers.utils.arrayify(message));
+  }
+
+  async _signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string> {
+    if (isEip1193(this.remote)) {
+      const payload = ethers.utils._TypedDataEncoder.getPayload(domain, types, value);
+      return await this.remote.request({
+        method: 'eth_signTypedData_v4',
+        params: [await this.getAddress(), JSON.stringify(payload)],
+      }) as string;
+    }
+    return this.remote.signTypedData(domain, types, value);
+  }
+
+  /**
+   * Remote wallets sign and broadcast in one step, so there is no raw
+   * signed transaction to return
+   */
+  async signTransaction(): Promise<string> {
+    throw new ValidationError('RemoteSigner cannot sign raw transactions; use sendTransaction');
+  }
+
+  async sendTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<ethers.providers.TransactionResponse> {
+    const tx = await ethers.utils.resolveProperties({ ...transaction, from: await this.getAddress() });
+
+    let hash: string;
+    if (isEip1193(this.remote)) {
+      const request = ethers.providers.JsonRpcProvider.hexlifyTransaction(tx, { from: true });
+      hash = await this.remote.request({ method: 'eth_sendTransaction', params: [request] }) as string;
+    } else {
+      hash = (await this.remote.sendTransaction(toV6Transaction(tx))).hash;
+    }
+
+    // Same as ethers' JsonRpcSigner: the response comes from our provider once the node sees it
+    const response = await ethers.utils.poll(async () => {
+      const sent = await this.provider.getTransaction(hash);
+      return sent === null ? undefined : sent;
+    }, { timeout: TRANSACTION_TIMEOUT_MS, oncePoll: this.provider });
+    return response!;
+  }
+
+  connect(provider: ethers.providers.Provider): RemoteSigner {
+    return new RemoteSigner(this.remote, provider);
+  }
+}
+
+/**
+ * Resolve a constructor signer argument into the v5 signer used internally.
+ * Keys and local wallets become a v5 Wallet on `provider`; v5 Signers are
+ * used as-is; v6 Signers and EIP-1193 providers are wrapped in RemoteSigner.
+ */
+export function toTypedDataSigner(input: SignerInput, provider: ethers.providers.Provider): TypedDataSigner {
+  if (typeof input === 'string') {
+    return new Wallet(input, provider);
+  }
+  if (input instanceof Wallet) {
+    return input.provider ? input : input.connect(provider);
+  }
+
+  // Local wallets from any ethers version (v6 Wallet / HDNodeWallet) already hold their key
+  if (hasPrivateKey(input)) {
+    return new Wallet(input.privateKey, provider);
+  }
+
+  if (isV5TypedDataSigner(input)) {
+    return input.provider ? input : input.connect(provider) as TypedDataSigner;
+  }
+  if (isV6Signer(input) || isEip1193(input)) {
+    return new RemoteSigner(input, provider);
+  }
+
+  throw new ValidationError(
+    'Unsupported signer: pass a private key, an ethers v5/v6 Signer or an EIP-1193 provider'
+  );
+}
+
+function hasMethod(value: unknown, name: string): boolean {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>)[name] === 'function';
+}
+
+function hasPrivateKey(value: unknown): value is { privateKey: string } {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>).privateKey === 'string';
+}
+
+function isV5TypedDataSigner(value: unknown): value is TypedDataSigner {
+  return ethers.Signer.isSigner(value) && hasMethod(value, '_signTypedData');
+}
+
+function isV6Signer(value: unknown): value is EthersV6Signer {
+  return hasMethod(value, 'signTypedData') && hasMethod(value, 'getAddress');
+}
+
+function isEip1193(value: unknown): value is Eip1193Provider {
+  return hasMethod(value, 'request');
+}
+
+/**
+ * v5 transaction request (BigNumbers) to the v6 shape (bigints)
+ */
+function toV6Transaction(tx: ethers.providers.TransactionRequest): Record<string, unknown> {
+  const toBigInt = (value?: ethers.BigNumberish) => value === undefined || value === null ? undefined : ethers.BigNumber.from(value).toBigInt();
+  const request: Record<string, unknown> = {
+    from: tx.from,
+    to: tx.to,
+    data: tx.data,
+    value: toBigInt(tx.value),
+    nonce: tx.nonce === undefined ? undefined : ethers.BigNumber.from(tx.nonce).toNumber(),
+    gasLimit: toBigInt(tx.gasLimit),
+    gasPrice: toBigInt(tx.gasPrice),
+    maxFeePerGas: toBigInt(tx.maxFeePerGas),
+    maxPriorityFeePerGas: toBigInt(tx.maxPriorityFeePerGas),
+    chainId: tx.chainId,
+    type: tx.type,
+  };
+  return Object.fromEntries(Object.entries(request).filter(([, value]) => value !== undefined));
+}
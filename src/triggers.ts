@@ -0,0 +1,175 @@
+import { ValidationError } from "./errors";
+import { Logger } from "./logger";
+import {
+  ExitMonitorOptions,
+  ExitRule,
+  ExitTriggerEvent,
+  ExitTriggers,
+  PositionExit,
+  UnwindReport,
+} from "./types";
+
+/**
+ * Exit triggers
+ *
+ * Take-profit, stop-loss and trailing-stop rules on the best bid of the
+ * position's long token: the price its tokens would be sold at. When a
+ * rule fires, the position is unwound (legs closed newest first, tokens
+ * sold within the slippage limit). Legs the unwind could not close stay
+ * watched and are retried while the rule still holds.
+ */
+
+/**
+ * Check trigger prices are in range and ordered
+ *
+ * @throws {ValidationError} If no rule is set or a price is out of range
+ */
+export function validateExitTriggers(triggers: ExitTriggers): void {
+  const { takeProfit, stopLoss, trailingStop } = triggers;
+  if (takeProfit === undefined && stopLoss === undefined && trailingStop === undefined) {
+    throw new ValidationError('No exit triggers: set takeProfit, stopLoss or trailingStop');
+  }
+  if (takeProfit !== undefined && !(takeProfit > 0 && takeProfit <= 1)) {
+    throw new ValidationError(`Invalid takeProfit: ${takeProfit} (must be > 0 and <= 1)`);
+  }
+  if (stopLoss !== undefined && !(stopLoss >= 0 && stopLoss < 1)) {
+    throw new ValidationError(`Invalid stopLoss: ${stopLoss} (must be >= 0 and < 1)`);
+  }
+  if (trailingStop !== undefined && !(trailingStop > 0 && trailingStop < 1)) {
+    throw new ValidationError(`Invalid trailingStop: ${trailingStop} (must be between 0 and 1)`);
+  }
+  if (takeProfit !== undefined && stopLoss !== undefined && stopLoss >= takeProfit) {
+    throw new ValidationError(`Invalid exit triggers: stopLoss ${stopLoss} must be below takeProfit ${takeProfit}`);
+  }
+}
+
+/**
+ * The rule a best bid fires, if any. Stops are checked before take-profit.
+ */
+export function firedExitRule(
+  triggers: ExitTriggers,
+  bestBid: number,
+  highWaterMark: number
+): { rule: ExitRule; level: number } | null {
+  if (triggers.stopLoss !== undefined && bestBid <= triggers.stopLoss) {
+    return { rule: 'stopLoss', level: triggers.stopLoss };
+  }
+  if (triggers.trailingStop !== undefined && bestBid <= highWaterMark - triggers.trailingStop + 1e-12) {
+    return { rule: 'trailingStop', level: highWaterMark - triggers.trailingStop };
+  }
+  if (triggers.takeProfit !== undefined && bestBid >= triggers.takeProfit) {
+    return { rule: 'takeProfit', level: triggers.takeProfit };
+  }
+  return null;
+}
+
+/**
+ * Polls a position's best bid and unwinds it when an exit rule fires. The
+ * first reading is taken immediately; the monitor stops by itself once
+ * every leg is closed, by its own unwind or otherwise.
+ */
+export class ExitMonitor {
+  /** Highest best bid seen since attaching */
+  highWaterMark = 0;
+  /** Most recent best bid (null if the book had no bids) */
+  lastBid?: number | null;
+  /** Unwinds run so far, oldest first */
+  readonly exits: PositionExit[] = [];
+  /** Resolves with the last exit once the monitor stops (null if it never exited) */
+  readonly finished: Promise<PositionExit | null>;
+  private resolveFinished!: (exit: PositionExit | null) => void;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = true;
+
+  constructor(
+    private legIds: bigint[],
+    private triggers: ExitTriggers,
+    private read: (legIds: bigint[]) => Promise<{ openLegIds: bigint[]; bestBid: number | null }>,
+    private unwind: (legIds: bigint[]) => Promise<UnwindReport>,
+    private options: ExitMonitorOptions,
+    private logger: Logger
+  ) {
+    this.finished = new Promise(resolve => { this.resolveFinished = resolve; });
+    this.schedule(0);
+  }
+
+  get stopped(): boolean {
+    return !this.running;
+  }
+
+  /** Legs still watched */
+  get openLegIds(): bigint[] {
+    return [...this.legIds];
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    clearTimeout(this.timer);
+    this.resolveFinished(this.exits[this.exits.length - 1] ?? null);
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.running) {
+      this.timer = setTimeout(() => this.poll(), delayMs);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const { openLegIds, bestBid } = await this.read(this.legIds);
+      if (!this.running) return;
+
+      this.legIds = openLegIds;
+      if (openLegIds.length === 0) {
+        this.logger.info('All legs closed, stopping exit monitor', { component: 'Exit' });
+        this.stop();
+        return;
+      }
+
+      this.lastBid = bestBid;
+      if (bestBid !== null) {
+        this.highWaterMark = Math.max(this.highWaterMark, bestBid);
+        const fired = firedExitRule(this.triggers, bestBid, this.highWaterMark);
+        if (fired) {
+          await this.exit({ ...fired, bestBid, highWaterMark: this.highWaterMark, legIds: openLegIds, timestamp: Date.now() });
+        }
+      }
+    } catch (error: any) {
+      this.logger.warn('Exit check failed', { component: 'Exit', error: error.message });
+      this.notify('onError', () => this.options.onError?.(error));
+    }
+    this.schedule(this.options.intervalMs ?? 10_000);
+  }
+
+  /**
+   * Unwind the watched legs; legs the unwind could not close stay watched
+   */
+  private async exit(event: ExitTriggerEvent): Promise<void> {
+    this.logger.info(`${event.rule} at ${event.bestBid} (level ${event.level.toFixed(4)}), unwinding ${event.legIds.length} legs`, { component: 'Exit' });
+    this.notify('onTrigger', () => this.options.onTrigger?.(event));
+
+    const report = await this.unwind(event.legIds);
+    const exit: PositionExit = { ...event, report };
+    this.exits.push(exit);
+    this.legIds = report.remainingLegIds;
+    this.notify('onExit', () => this.options.onExit?.(exit));
+
+    if (report.remainingLegIds.length > 0) {
+      this.logger.warn(`Unwind stopped with ${report.remainingLegIds.length} legs open: ${report.stopReason}`, { component: 'Exit' });
+      return;
+    }
+    this.stop();
+  }
+
+  /**
+   * Run a listener; a throwing listener never stops the monitor
+   */
+  private notify(listener: string, call: () => void): void {
+    try {
+      call();
+    } catch (error: any) {
+      this.logger.warn(`${listener} threw`, { component: 'Exit', error: error.message });
+    }
+  }
+}
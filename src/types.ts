@@ -1,40 +1,498 @@
+import { GasAction, LegData } from "./protocol";
+import { MarketMetadata } from "./metadata";
+import { ErrorCode } from "./errors";
+
 export interface TargetPositionParams {
-  marketConditionId: string;      // Polymarket condition ID (bytes32)
+  marketConditionId: string;      // Polymarket condition ID (bytes32 hex string)
   longYes: boolean;                // true = long YES, false = long NO
-  currentPrice: number;            // Current price (0.40 = 40¢)
+  currentPrice: number;            // Current price in decimals (0.40 = 40¢)
   targetPrice: number;             // Target price (0.44 = 44¢)
   timeframeSeconds: number;        // Time until target (3600 = 1 hour)
-  capitalUSDC: number;             // Capital in dollars (1000 = $1000)
-  maxSlippageBps: number;          // Max slippage in bps (100 = 1%)
+  capitalUSDC: number;             // Capital to deploy in dollars ($1000)
+  maxSlippageBps: number;          // Max slippage in basis points (100 = 1%)
+  orderType?: 'FOK' | 'GTC' | 'GTD'; // Order type (default: FOK for market-like execution)
+  maxRetries?: number;             // Max retries for failed orders (default: 3)
+  retryDelayMs?: number;           // Delay between retries in ms (default: 2000)
+  targetLeverage?: number;         // Stop once the loops have spent this multiple of capitalUSDC on tokens (set by openLeveragePosition)
+  stopPrice?: number;              // Exit price pnl.maxLoss is measured at (default: total loss at auto-close)
+}
+
+export interface RiskBudgetParams extends Omit<TargetPositionParams, 'capitalUSDC'> {
+  maxLossUSDC: number;             // Largest acceptable loss, at stopPrice or (without one) at auto-close
+  maxCapitalUSDC?: number;         // Upper bound on the capital to deploy (e.g. the wallet balance)
+}
+
+export interface RiskSizing {
+  params: TargetPositionParams;    // Sized params, ready for openTargetPosition
+  preview: LeveragePosition;       // simulatePosition(params)
+  lossUSDC: number;                // -preview.pnl.maxLoss: loss at the stop (or auto-close), <= maxLossUSDC
+  limitedBy: 'maxLoss' | 'maxCapital' | 'liquidity'; // What stopped the capital from growing
+}
+
+export interface LeveragePositionParams {
+  marketConditionId: string;      // Polymarket condition ID (bytes32 hex string)
+  longYes: boolean;                // true = long YES, false = long NO
+  currentPrice: number;            // Current price in decimals (0.40 = 40¢)
+  leverage?: number;               // Exposure value / capital (3 = 3x); exactly one of leverage or exposure
+  exposure?: number;               // Tokens to hold, valued at currentPrice
+  termSeconds: number;             // Leg term (172800 = 2 days)
+  capitalUSDC: number;             // Capital to deploy in dollars ($1000)
+  maxSlippageBps: number;          // Max slippage in basis points (100 = 1%)
+  targetPrice?: number;            // Price for the pnl.atTarget projection (default: currentPrice)
+  orderType?: 'FOK' | 'GTC' | 'GTD'; // Order type (default: FOK for market-like execution)
+  maxRetries?: number;             // Max retries for failed orders (default: 3)
+  retryDelayMs?: number;           // Delay between retries in ms (default: 2000)
 }
 
 export interface LeveragePosition {
-  legIds: bigint[];
-  totalExposure: number;
-  effectiveLeverage: number;
-  capitalDeployed: number;
+  legIds: bigint[];                // All protocol leg IDs
+  totalExposure: number;           // Total token exposure
+  effectiveLeverage: number;       // Actual leverage achieved
+  capitalDeployed: number;         // USDC spent
   fees: {
-    protocolSenior: number;
-    protocolJunior: number;
-    polymarketSlippage: number;
-    gas: number;
-    total: number;
+    protocolSenior: number;        // Interest to senior pool
+    protocolJunior: number;        // Interest to junior pool
+    polymarketSlippage: number;    // Slippage on token purchases
+    gas: number;                   // Approvals, opens and closing every leg, in USD
+    gasBreakdown: GasFees;         // Where `gas` comes from
+    total: number;                 // Sum of all fees
   };
   pnl: {
-    atTarget: number;
-    breakeven: number;
-    maxProfit: number;
-    maxLoss: number;
+    atTarget: number;              // PnL if target price hit
+    breakeven: number;             // Price needed to breakeven
+    maxProfit: number;             // Max profit (at $1.00)
+    maxLoss: number;               // Max loss (at stopPrice, else at $0.00 or auto-close)
   };
-  autoCloseTime: number;
-  F: number;
-  R: number;
+  autoCloseTime: number;           // Timestamp when position auto-closes
+  F: number;                       // Capital efficiency factor
+  R: number;                       // Total rate (rS + rJ)
+  params: TargetPositionParams;    // Parameters the position was opened (or last reduced) with
+  positionId?: string;             // PositionStore record ID (openTargetPosition / reducePosition)
+  simulation?: DepthSimulation;    // Order book walk (simulatePosition only)
+  reduction?: UnwindReport;        // Legs closed by the reducePosition call that returned this
+  execution?: ExecutionSummary;    // How the loop ran (openTargetPosition / resumeOpen only)
+}
+
+/**
+ * Gas behind `fees.gas`, in the chain's gas token (POL on Polygon)
+ */
+export interface GasFees {
+  source: 'estimate' | 'receipt';  // Approvals and opens: estimateGas (simulation) or receipts (after execution)
+  approvals: number;               // USDC approve and CTF setApprovalForAll, if the wallet lacked them
+  opens: number;                   // Every open transaction
+  closes: number;                  // Closing the legs still open (always estimated)
+  gasTokenPriceUSD: number | null; // null if the price source failed; `fees.gas` is then 0
+  defaulted: GasAction[];          // Calls priced at DEFAULT_GAS_UNITS because estimateGas or the receipt failed
+}
+
+export interface SimulatedLoop {
+  loop: number;                    // Loop index (0 = capital, 1+ = borrowed USDC)
+  usdcIn: number;                  // USDC spent this loop
+  tokens: number;                  // Tokens bought
+  bestAsk: number;                 // Best ask when the loop's order is placed
+  avgFillPrice: number;            // Depth-weighted fill price
+  worstPrice: number;              // Deepest ask level touched
+  slippage: number;                // USDC paid above best ask
+  slippageBps: number;             // Avg fill vs best ask in basis points
+  exceedsMaxSlippage: boolean;     // Order would not fill within maxSlippageBps
+  insufficientDepth: boolean;      // Book could not absorb the full USDC amount
+}
+
+export interface DepthSimulation {
+  loops: SimulatedLoop[];          // Per-loop fills, including the one that would stop execution
+  loopsFilled: number;             // Loops that would execute
+  maxSlippageBreached: boolean;    // Execution would stop early on slippage or depth
+  priceImpactBps: number;          // Last fill vs the initial best ask
 }
 
 export interface LeverageParams {
-  F: number;
-  R: number;
-  loops: number;
-  maxLeverage: number;
-  tokenId: string;
+  F: number;                       // Capital efficiency factor
+  R: number;                       // Total annual rate (rS + rJ)
+  rS: number;                      // Senior annual rate
+  rJ: number;                      // Junior annual rate
+  loops: number;                   // Number of loop iterations
+  maxLeverage: number;             // Maximum achievable leverage
+  tokenId: string;                 // Polymarket token ID
+  targetNotionalUSDC?: number;     // Leverage mode: USDC the loops spend on tokens in total
+  finalLoopUSDC?: number;          // Leverage mode: planned size of the last loop at currentPrice
+}
+
+export interface ReduceOptions {
+  percent?: number;                // Reduce token exposure by this percentage (0-100]
+  usdcAmount?: number;             // Or: release at least this much USDC to the wallet
+  maxSlippageBps?: number;         // Max sale price below best bid in bps (default: 100)
+}
+
+/**
+ * How an openTargetPosition loop ended
+ *
+ * - complete: every planned loop ran
+ * - partial: a loop failed after the first leg; `error` says why
+ * - stopped: borrowed USDC fell below the $1 loop threshold
+ */
+export type ExecutionStatus = 'complete' | 'partial' | 'stopped';
+
+export interface ExecutionSummary {
+  status: ExecutionStatus;
+  loopsPlanned: number;
+  loopsExecuted: number;           // Loops that opened a leg
+  leveragePlanned: number;         // USDC to spend on tokens per USDC of capital if every loop ran at the bought token's price (targetLeverage in leverage mode)
+  leverageAchieved: number;        // USDC the buys spent on escrowed tokens per USDC of capital
+  unescrowedTokens: number;        // Bought by a loop that failed before its leg; left in the wallet, not in totalExposure
+  error?: {                        // The failure that ended a partial run
+    code: ErrorCode;
+    message: string;
+    retryable: boolean;
+  };
+  unwound?: boolean;               // Partial position closed because of unwindOnPartial
+}
+
+export interface OpenOptions {
+  onProgress?: (event: OpenProgressEvent) => void; // Called at each step of the loop
+  unwindOnPartial?: boolean;       // Close every leg if the loop stops partway (default: keep the partial position)
+}
+
+/**
+ * Order steps reported by the buy inside each loop
+ */
+export type OrderProgressEvent =
+  | { type: 'orderPlaced'; orderId: string; orderType: 'FOK' | 'GTC' | 'GTD'; size: number; price: number; attempt: number }
+  | { type: 'orderFilled'; orderId: string; size: number; avgPrice: number; slippage: number }
+  | { type: 'orderRetry'; attempt: number; error: string; delayMs: number };
+
+/**
+ * Steps of openTargetPosition / resumeOpen, in order. `loop` is 0-based.
+ */
+export type OpenProgressEvent =
+  | { type: 'approvals' }
+  | { type: 'loopStarted'; executionId: string; loop: number; loops: number; usdcAmount: number }
+  | (OrderProgressEvent & { executionId: string; loop: number })
+  | { type: 'legOpened'; executionId: string; loop: number; legId: bigint; txHash: string; sets: number }
+  | { type: 'partialStop'; executionId: string; loop: number; legsOpened: number; reason: string }
+  | { type: 'completed'; executionId: string; position: LeveragePosition };
+
+export interface ResumeOptions extends OpenOptions {
+  unwind?: boolean;                // Exit the interrupted run instead of continuing it
+  maxSlippageBps?: number;         // Unwind sale price below best bid in bps (default: 100)
+}
+
+export interface UnwindOptions {
+  maxSlippageBps?: number;         // Max sale price below best bid in bps (default: 100)
+  capitalUSDC?: number;            // Capital the position was opened with (enables realizedPnl)
+}
+
+export interface UnwoundLeg {
+  legId: bigint;
+  tokenId: string;                 // Long token the leg escrowed
+  sets: number;                    // Whole tokens the leg escrowed
+  settled: boolean;                // Expired/resolved: protocol merged the set, no tokens returned
+  repaid: number;                  // USDC paid to close (principal + interest)
+  interest: number;                // Interest portion of repaid
+  settlementUSDC: number;          // Surplus paid out by a settled close
+  tokensSold: number;              // Freed long tokens sold on the book
+  saleProceeds: number;            // USDC received for the tokens
+  avgSalePrice: number;            // Average sale price (0 if nothing sold)
+  bestBid: number;                 // Best bid when the sale was placed
+  slippage: number;                // USDC given up below best bid
+  gas: number;                     // Gas cost of the close in USD, from its receipt
+  txHash: string;                  // Close transaction
+}
+
+export interface UnwindReport {
+  legs: UnwoundLeg[];              // In close order (newest leg first)
+  remainingLegIds: bigint[];       // Legs left open because the unwind stopped early
+  stopReason?: string;             // Why the unwind stopped early
+  totalRepaid: number;             // USDC repaid to the protocol
+  totalProceeds: number;           // Sale proceeds plus settlement payouts
+  netUSDC: number;                 // Wallet USDC change over the unwind
+  fees: {
+    protocolInterest: number;      // Interest paid on manual closes
+    polymarketSlippage: number;    // Slippage on token sales
+    gas: number;                   // Approvals and closes in USD, from receipts
+    total: number;                 // Sum of all fees
+  };
+  realizedPnl?: number;            // USDC out minus capitalUSDC and gas (only if capitalUSDC given)
+}
+
+export interface PositionQueryOptions {
+  fromBlock?: number;              // First block to scan (default: 0)
+  toBlock?: number;                // Last block to scan (default: latest)
+  blockRange?: number;             // Blocks per log query, for RPCs that cap ranges (default: 10,000)
+  includeClosed?: boolean;         // Include fully closed positions (default: true)
+  groupWindowSeconds?: number;     // Max gap between leg opens in one position (default: 600)
+}
+
+export interface RecoveredLeg {
+  legId: bigint;
+  open: boolean;                   // No LegClosed seen up to toBlock
+  openedBlock: number;
+  openTxHash: string;
+  closedBlock?: number;
+  closeTxHash?: string;
+  autoClose?: boolean;             // Closed by expiry/resolution settlement
+  data: LegData;                   // legs(legId) read
+}
+
+export interface RecoveredPosition extends LeveragePosition {
+  status: 'open' | 'partial' | 'closed';
+  conditionId: string;
+  longYes: boolean;
+  openedAt: number;                // Unix timestamp (seconds) of the first leg
+  legs: RecoveredLeg[];            // Every leg of the position, oldest first
+}
+
+export type HealthStatus = 'healthy' | 'warning' | 'critical' | 'expired';
+
+export interface HealthThresholds {
+  warningTimeLeft?: number;        // Warn when auto-close or runway is less than this fraction of the term away (default: 0.25)
+  criticalTimeLeft?: number;       // Critical below this fraction of the term (default: 0.10)
+  warningEquityUSD?: number;       // Warn when position equity falls below this (default: 0)
+  criticalEquityUSD?: number;      // Critical at or below this (default: off)
+}
+
+export interface LegHealth {
+  legId: bigint;
+  sets: number;                    // Whole tokens escrowed
+  principal: number;               // USDC lent
+  accruedInterest: number;         // Senior + junior interest so far
+  debt: number;                    // principal + accruedInterest: what closing now repays
+  collateralUsed: number;          // debt / sets: share of the $1-per-set collateral owed
+  timeToAutoClose: number;         // Seconds until opened + term (0: anyone can close it now)
+  runwayRemaining: number;         // Seconds until interest would consume the collateral
+  equity: number;                  // sets * mark - debt
+  status: HealthStatus;
+}
+
+export interface PositionHealth {
+  legs: LegHealth[];               // Open legs, in the order given
+  closedLegIds: bigint[];          // Closed per the PositionStore or the leg's emptied escrow, left out
+  timestamp: number;               // Chain time of the reading (Unix seconds)
+  mark: number;                    // Best bid of the long token (F if the book has no bids)
+  accruedInterest: number;
+  debt: number;
+  carriedLoan: number;             // Newest leg's loan, left in the wallet by openTargetPosition (0 unless the PositionStore confirms it)
+  equity: number;                  // Leg equity plus carriedLoan: USDC left after unwinding at the mark
+  timeToAutoClose: number;         // First leg to expire
+  runwayRemaining: number;         // Shortest leg runway
+  status: HealthStatus;            // Worst leg status, or the equity thresholds if worse
+  reasons: string[];               // Why the status is not 'healthy'
+}
+
+export interface HealthAlert {
+  status: HealthStatus;            // New status
+  previous: HealthStatus | null;   // null on the first reading
+  health: PositionHealth;
+}
+
+export interface HealthMonitorOptions {
+  intervalMs?: number;             // Polling interval (default: 60,000)
+  thresholds?: HealthThresholds;
+  onHealth?: (health: PositionHealth) => void; // Every reading
+  onAlert?: (alert: HealthAlert) => void;      // Status changes, and an unhealthy first reading
+  onError?: (error: Error) => void;            // Failed readings; polling continues
+}
+
+export type ExitRule = 'takeProfit' | 'stopLoss' | 'trailingStop';
+
+export interface ExitTriggers {
+  takeProfit?: number;             // Exit once the best bid reaches this price
+  stopLoss?: number;               // Exit once the best bid falls to this price
+  trailingStop?: number;           // Exit once the best bid falls this far below its high since attaching (0.03 = 3¢)
+}
+
+export interface ExitTriggerEvent {
+  rule: ExitRule;
+  level: number;                   // Price the rule fired at (for trailingStop: high water mark less the distance)
+  bestBid: number;
+  highWaterMark: number;           // Highest best bid seen since attaching
+  legIds: bigint[];                // Legs being unwound
+  timestamp: number;               // Unix timestamp (ms)
+}
+
+export interface PositionExit extends ExitTriggerEvent {
+  report: UnwindReport;            // unwindPosition's report; legs it could not close stay watched
+}
+
+export interface ExitMonitorOptions {
+  triggers?: ExitTriggers;         // Prices of the long token (default: takeProfit at params.targetPrice, stopLoss at params.stopPrice)
+  intervalMs?: number;             // Polling interval (default: 10,000)
+  maxSlippageBps?: number;         // Sale slippage limit for the unwind (default: 100)
+  onTrigger?: (event: ExitTriggerEvent) => void; // A rule fired; the unwind starts
+  onExit?: (exit: PositionExit) => void;         // An unwind finished
+  onError?: (error: Error) => void;              // Failed reading or unwind; polling continues
+}
+
+export interface ValuationOptions {
+  capitalUSDC?: number;            // Cost basis (default: capitalDeployed from the PositionStore record)
+}
+
+export interface MarkValuation {
+  price: number;                   // Per long token
+  value: number;                   // Long tokens sold at this price
+  equity: number;                  // value - debt + carriedLoan: USDC left after closing now
+  unrealizedPnl: number;           // equity - capitalUSDC
+  leverage: number;                // value / equity (Infinity once equity is gone)
+}
+
+export interface PositionValuation {
+  legIds: bigint[];                // Open legs valued, in the order given
+  closedLegIds: bigint[];          // Closed per the PositionStore or the leg's emptied escrow, left out
+  timestamp: number;               // Chain time of the reading (Unix seconds)
+  exposure: number;                // Long tokens escrowed in the open legs
+  principal: number;               // USDC lent
+  accruedInterest: number;         // Senior + junior interest so far
+  debt: number;                    // principal + accruedInterest
+  carriedLoan: number;             // Newest leg's loan, left in the wallet by openTargetPosition (0 unless the PositionStore confirms it)
+  capitalUSDC: number;             // Cost basis the PnL is measured against
+  atBid: MarkValuation;            // Every token at the best bid
+  atLiquidation: MarkValuation & {
+    unfilled: number;              // Tokens the bids cannot absorb, valued at 0
+  };                               // Depth-weighted sale of the exposure into the bids
+  breakeven: number;               // Best bid at which closing now returns capitalUSDC
+}
+
+export interface KeeperOptions {
+  borrower?: string;               // Only close this borrower's legs (default: every borrower)
+  fromBlock?: number;              // First block to scan for legs (default: 0)
+  blockRange?: number;             // Blocks per log query (default: 10,000)
+  intervalMs?: number;             // Time between runs after start() (default: 60,000)
+  maxLegsPerBatch?: number;        // Closes attempted per run (default: 20)
+  maxGasPerBatch?: number;         // Estimated close gas per run (default: 5,000,000)
+  gasLimitMultiplier?: number;     // Close gasLimit = estimate * this (default: 1.2)
+  maxGasPriceGwei?: number;        // Hold closes while gas costs more (default: no cap)
+  retryBackoffMs?: number;         // Delay before retrying a failed close, doubling per failure (default: 60,000)
+  maxBackoffMs?: number;           // Cap on leg and run backoff (default: 3,600,000)
+  onReport?: (report: KeeperRunReport) => void; // After every run started by start()
+  onError?: (error: Error) => void;             // Failed runs; the next run is backed off
+}
+
+export interface KeeperClosedLeg {
+  legId: bigint;
+  borrower: string;
+  conditionId: string;
+  reason: 'expired' | 'resolved';
+  txHash: string;
+  gasCost?: number;                // Gas token paid, from the receipt
+}
+
+export interface KeeperFailedLeg {
+  legId: bigint;
+  reason: 'expired' | 'resolved';
+  code: ErrorCode;
+  message: string;
+  attempts: number;                // Consecutive failed closes
+  retryAt: number;                 // Unix timestamp (ms) before which the leg is not retried
+}
+
+export interface KeeperRunReport {
+  timestamp: number;               // Chain time the legs were checked at (Unix seconds)
+  scannedToBlock: number;
+  tracked: number;                 // Open legs known after the scan
+  due: number;                     // Legs past their term or on a resolved market
+  closed: KeeperClosedLeg[];
+  failed: KeeperFailedLeg[];
+  deferred: bigint[];              // Due legs left for a later run (batch limits, backoff, gas price)
+  skippedReason?: string;          // Why no closes were attempted
+}
+
+export interface SeniorVaultStats {
+  totalAssets: number;             // USDC managed by the vault, lent out included
+  totalSupply: number;             // fUSDC shares outstanding
+  idle: number;                    // USDC held by the vault, available to lend or withdraw
+  borrowed: number;                // USDC lent to borrowers
+  sharePrice: number;              // USDC per fUSDC (1 while the vault is empty)
+  utilization: number;             // borrowed / totalAssets (0-1)
+}
+
+export interface SeniorVaultPosition {
+  account: string;
+  shares: number;                  // fUSDC held
+  value: number;                   // shares * sharePrice, in USDC
+  sharePrice: number;
+  maxWithdraw: number;             // USDC withdrawable now (limited by idle USDC)
+  maxRedeem: number;               // fUSDC redeemable now
+}
+
+export interface VaultTransaction {
+  txHash: string;
+  assets: number;                  // USDC deposited or paid out
+  shares: number;                  // fUSDC minted or burned
+  approvalTxHashes: string[];      // USDC approval sent before a deposit (empty if already approved)
+}
+
+export interface JuniorStakePosition {
+  conditionId: string;
+  stakeYes: boolean;               // YES pool (backs LONG NO legs) or NO pool
+  positionId: string;              // CTF position ID of the staked tokens
+  account: string;
+  staked: number;                  // Tokens staked
+  pendingRewards: number;          // fUSDC claimable
+  pendingRewardsValue: number;     // pendingRewards at the senior vault share price, in USDC
+}
+
+export interface JuniorStakeTransaction {
+  txHash: string;
+  positionId: string;
+  tokens: number;                  // Tokens staked or withdrawn
+  approvalTxHashes: string[];      // CTF approval sent before staking (empty if already approved)
+}
+
+export interface JuniorRewardClaim {
+  txHash: string;
+  positionId: string;
+  shares: number;                  // fUSDC received
+  value: number;                   // In USDC at the share price after the claim
+}
+
+export interface JuniorYieldOptions {
+  termSeconds?: number;            // Leg term F and rJ are quoted for (default: 30 days)
+  tokenPrice?: number;             // Price of the staked token (default: its best bid)
+}
+
+export interface JuniorYieldReport {
+  conditionId: string;
+  stakeYes: boolean;
+  positionId: string;
+  staked: number;                  // Tokens staked in the pool
+  lent: number;                    // Staked tokens escrowed in open legs
+  utilization: number;             // lent / staked (0-1)
+  F: number;                       // Quoted for a one-set leg drawing on the pool
+  rJ: number;                      // Junior annual rate, same quote
+  termSeconds: number;
+  rewardPerTokenYear: number;      // USDC a staked token earns per year: F * rJ * utilization
+  tokenPrice: number;
+  apr: number;                     // rewardPerTokenYear / tokenPrice
+  maxApr: number;                  // APR at full utilization: F * rJ / tokenPrice
+}
+
+export interface MarketEligibilityParams {
+  longYes: boolean;                // Token to buy: YES or NO
+  timeframeSeconds: number;        // Planned term of the position
+  capitalUSDC?: number;            // First buy the asks must absorb (default: any asks pass)
+  maxSlippageBps?: number;         // Ask depth counted up to this above the best ask (default: 100)
+}
+
+export type EligibilityCheckName = 'verification' | 'resolution' | 'orderBook' | 'marketClose';
+
+export type EligibilityStatus = 'pass' | 'warn' | 'fail' | 'skipped';
+
+export interface EligibilityCheck {
+  name: EligibilityCheckName;
+  status: EligibilityStatus;
+  reason?: string;                 // Why the check did not pass
+}
+
+export interface MarketEligibilityReport {
+  conditionId: string;
+  longYes: boolean;
+  tokenId: string | null;          // Token that would be bought (null if the market is unknown)
+  eligible: boolean;               // No check failed
+  checks: EligibilityCheck[];
+  reasons: string[];               // Failed checks
+  warnings: string[];              // Checks to weigh before opening
+  bestAsk: number | null;
+  bestBid: number | null;
+  askDepthUSDC: number;            // Asks within maxSlippageBps of the best ask
+  metadata: MarketMetadata | null;
+  timestamp: number;               // Chain time the checks ran at (Unix seconds)
 }
@@ -0,0 +1,64 @@
+/**
+ * Validation: Capital-isolated loop
+ *
+ * openTargetPosition spends only capitalUSDC plus what each leg lent. A
+ * wallet holding more than the capital (or receiving USDC mid-run) must end
+ * no more than capitalUSDC lighter, with the same position as a wallet
+ * holding exactly the capital.
+ *
+ * Usage:
+ *   npx ts-node test/budget.test.ts
+ */
+
+import { InMemoryPositionStore } from '../src';
+import { createHarness, crashOnCall, baseParams, runTest, assert, approx, finish, usdc, BORROWER } from './harness';
+
+async function main() {
+  console.log('\n=== CAPITAL BUDGET TESTS ===\n');
+
+  const reference = await createHarness().sdk.openTargetPosition(baseParams());
+
+  await runTest('Large wallet deploys only capitalUSDC', async () => {
+    const { sdk, ledger } = createHarness({ walletUSDC: 10_000 });
+    const position = await sdk.openTargetPosition(baseParams());
+
+    const spent = 10_000 - usdc(ledger.usdcBalanceOf(BORROWER));
+    assert(spent <= 1000, `wallet lost $${spent.toFixed(2)} for $1000 of capital`);
+    assert(position.legIds.length === reference.legIds.length, `expected ${reference.legIds.length} legs, got ${position.legIds.length}`);
+    assert(approx(position.totalExposure, reference.totalExposure, 1e-9), `exposure ${position.totalExposure} vs ${reference.totalExposure}`);
+  });
+
+  await runTest('USDC arriving mid-run is not spent', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams(), {
+      onProgress: event => {
+        if (event.type === 'legOpened' && event.loop === 0) ledger.mintUsdc(BORROWER, 5000n * 1_000_000n);
+      },
+    });
+
+    assert(usdc(ledger.usdcBalanceOf(BORROWER)) >= 5000, 'deposit was spent by the loop');
+    assert(approx(position.totalExposure, reference.totalExposure, 1e-9), `exposure ${position.totalExposure} vs ${reference.totalExposure}`);
+  });
+
+  await runTest('Resumed run keeps the original budget', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ walletUSDC: 10_000, sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.protocol.connect(BORROWER), 'open', 3);
+    harness.connect({ store, protocol: wrapped }).openTargetPosition(baseParams()).catch(() => undefined);
+    await crashed;
+
+    const [interrupted] = await harness.sdk.getInterruptedOpens();
+    const position = await harness.sdk.resumeOpen(interrupted.id);
+
+    const spent = 10_000 - usdc(harness.ledger.usdcBalanceOf(BORROWER));
+    assert(spent <= 1000, `wallet lost $${spent.toFixed(2)} for $1000 of capital`);
+    assert(approx(position.totalExposure, reference.totalExposure, 1e-3), `exposure ${position.totalExposure} vs ${reference.totalExposure}`);
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+/**
+ * Validation: Constructor config
+ *
+ * Network presets fill in chain, RPC, CLOB host and contract addresses;
+ * overrides win; invalid or missing fields are rejected in the constructor.
+ *
+ * Usage:
+ *   npx ts-node test/config.test.ts
+ */
+
+import { ethers } from 'ethers';
+import { ForecastLeverageSDK, NETWORKS, resolveNetworkConfig, ValidationError } from '../src';
+import { createHarness, baseParams, runTest, assert, finish, PRIVATE_KEY, BORROWER } from './harness';
+
+const BOTH = { needsContracts: true, needsClob: true };
+
+/**
+ * Message of the ValidationError thrown by `fn`
+ */
+function rejected(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (error: any) {
+    assert(error instanceof ValidationError && error.code === 'INVALID_PARAMS', `expected ValidationError, got ${error.message}`);
+    return error.message;
+  }
+  throw new Error('Should have thrown');
+}
+
+async function main() {
+  console.log('\n=== CONFIG TESTS ===\n');
+
+  await runTest('Polygon preset fills in addresses and CLOB host', async () => {
+    const resolved = resolveNetworkConfig({ polymarketFunderAddress: BORROWER }, BOTH);
+    assert(resolved.network === 'polygon' && resolved.chainId === 137, 'polygon should be the default');
+    assert(resolved.usdcAddress === NETWORKS.polygon.usdcAddress && resolved.ctfAddress === NETWORKS.polygon.ctfAddress, 'token addresses missing');
+    assert(resolved.protocolAddress === NETWORKS.polygon.protocolAddress, 'protocol address missing');
+    assert(resolved.clobHost === 'https://clob.polymarket.com' && resolved.signatureType === 1, 'CLOB defaults missing');
+  });
+
+  await runTest('Overrides win over the preset', async () => {
+    const provider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545');
+    const apiCreds = { key: 'key', secret: 'secret', passphrase: 'passphrase' };
+    const resolved = resolveNetworkConfig({
+      network: 'amoy',
+      provider,
+      chainId: 80001,
+      protocolAddress: BORROWER,
+      clobHost: 'https://clob.example.com',
+      signatureType: 0,
+      apiCreds,
+    }, BOTH);
+
+    assert(resolved.provider === provider && resolved.chainId === 80001, 'provider/chainId not overridden');
+    assert(resolved.usdcAddress === NETWORKS.amoy.usdcAddress, 'amoy USDC should come from the preset');
+    assert(resolved.clobHost === 'https://clob.example.com' && resolved.signatureType === 0 && resolved.apiCreds === apiCreds, 'CLOB overrides lost');
+  });
+
+  await runTest('Missing and malformed fields are all reported', async () => {
+    const message = rejected(() => resolveNetworkConfig({
+      network: 'local',
+      usdcAddress: '0x1234',
+      signatureType: 2,
+      apiCreds: { key: 'key', secret: '', passphrase: 'passphrase' },
+    }, BOTH));
+
+    for (const expected of ['protocolAddress is required', 'usdcAddress is not an address', 'ctfAddress is required', 'clobHost is required', 'polymarketFunderAddress is required', 'apiCreds']) {
+      assert(message.includes(expected), `"${expected}" missing from: ${message}`);
+    }
+    assert(rejected(() => resolveNetworkConfig({ network: 'mainnet' as any }, BOTH)).includes("unknown network 'mainnet'"), 'unknown network accepted');
+    assert(rejected(() => resolveNetworkConfig({ rpcUrl: 'polygon-rpc.com' }, BOTH)).includes('rpcUrl'), 'bad rpcUrl accepted');
+  });
+
+  await runTest('Injected collaborators skip their fields', async () => {
+    const resolved = resolveNetworkConfig({ network: 'local' }, { needsContracts: false, needsClob: false });
+    assert(resolved.chainId === 31337, `unexpected chainId ${resolved.chainId}`);
+    resolveNetworkConfig({ signatureType: 0 }, BOTH); // EOA orders need no funder
+  });
+
+  await runTest('Config constructor opens a position', async () => {
+    const { exchange, protocol } = createHarness();
+    const sdk = new ForecastLeverageSDK({ network: 'local', signer: PRIVATE_KEY, exchange, protocol: protocol.connect(BORROWER) });
+    const position = await sdk.simulatePosition(baseParams());
+    assert(position.legIds.length > 0, 'simulation returned no legs');
+  });
+
+  await runTest('Both constructors validate up front', async () => {
+    assert(rejected(() => new ForecastLeverageSDK({ network: 'amoy', signer: PRIVATE_KEY, polymarketFunderAddress: BORROWER })).includes('protocolAddress'), 'amoy needs a protocol address');
+    assert(rejected(() => new ForecastLeverageSDK(undefined as any)).includes('signer is required'), 'missing signer accepted');
+    assert(rejected(() => new ForecastLeverageSDK(
+      'http://127.0.0.1:8545', PRIVATE_KEY, 'not-an-address', BORROWER, BORROWER, BORROWER
+    )).includes('protocolAddress is not an address'), 'positional form skipped validation');
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
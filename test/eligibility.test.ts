@@ -0,0 +1,143 @@
+/**
+ * Validation: Market eligibility
+ *
+ * checkMarketEligibility reports verification, CTF resolution, ask depth
+ * for the token to buy and the market's close from a metadata source as
+ * separate checks. Failed checks make the market ineligible with a
+ * reason; a term running past the close is a warning only.
+ *
+ * Usage:
+ *   npx ts-node test/eligibility.test.ts
+ */
+
+import { ethers } from 'ethers';
+import {
+  ForecastLeverageSDK,
+  InMemoryPositionStore,
+  MarketMetadataSource,
+  ProtocolError,
+  ValidationError,
+  callbackMarketMetadata,
+  staticMarketMetadata,
+} from '../src';
+import { createHarness, runTest, assert, finish, MARKET, BORROWER, PRIVATE_KEY } from './harness';
+
+const NOW = 1_700_000_000;
+
+/**
+ * Harness SDK reading market metadata from `marketMetadata`
+ */
+function metadataHarness(marketMetadata: MarketMetadataSource) {
+  const harness = createHarness();
+  const sdk = new ForecastLeverageSDK({
+    network: 'local',
+    signer: PRIVATE_KEY,
+    exchange: harness.exchange,
+    protocol: harness.protocol.connect(BORROWER),
+    store: new InMemoryPositionStore(),
+    marketMetadata,
+  });
+  return { ...harness, sdk };
+}
+
+async function main() {
+  console.log('\n=== ELIGIBILITY TESTS ===\n');
+
+  await runTest('Verified, unresolved, liquid market before its close is eligible', async () => {
+    const marketMetadata = staticMarketMetadata({ [MARKET]: { question: 'Will it rain?', endDate: NOW + 86_400, active: true } });
+    const { sdk, yesTokenId } = metadataHarness(marketMetadata);
+
+    const report = await sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600, capitalUSDC: 1000 });
+    assert(report.eligible && report.reasons.length === 0 && report.warnings.length === 0, `report ${JSON.stringify(report)}`);
+    assert(report.checks.map(check => `${check.name}:${check.status}`).join(',') === 'verification:pass,resolution:pass,orderBook:pass,marketClose:pass',
+      `checks ${JSON.stringify(report.checks)}`);
+    assert(report.tokenId === yesTokenId && report.bestAsk === 0.40 && report.bestBid === 0.39, 'best prices should come from the YES book');
+    assert(report.askDepthUSDC === 40_000 && report.timestamp === NOW, `depth ${report.askDepthUSDC} at ${report.timestamp}`);
+    assert(report.metadata?.question === 'Will it rain?', 'metadata should be returned');
+  });
+
+  await runTest('A term past the market close warns without failing', async () => {
+    const marketMetadata = staticMarketMetadata({ [MARKET]: { endDate: NOW + 1800 } });
+    const { sdk } = metadataHarness(marketMetadata);
+
+    const report = await sdk.checkMarketEligibility(MARKET, { longYes: false, timeframeSeconds: 4 * 3600 });
+    assert(report.eligible, `report ${JSON.stringify(report)}`);
+    assert(report.warnings.length === 1 && report.warnings[0].startsWith('marketClose: timeframeSeconds runs 3.5h past market close'),
+      `warnings ${JSON.stringify(report.warnings)}`);
+    assert(report.bestAsk === 0.60, 'NO side should read the NO book');
+
+    const closed = metadataHarness(staticMarketMetadata({ [MARKET]: { endDate: NOW - 60 } }));
+    const after = await closed.sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600 });
+    assert(!after.eligible && after.reasons[0].startsWith('marketClose: market closed at'), `reasons ${JSON.stringify(after.reasons)}`);
+  });
+
+  await runTest('Resolved and unknown markets fail with reasons', async () => {
+    const { sdk, protocol } = createHarness();
+    protocol.resolveMarket(MARKET);
+
+    const resolved = await sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600 });
+    assert(!resolved.eligible, 'resolved market should not be eligible');
+    assert(resolved.reasons.some(reason => reason.includes('verifyMarket would revert')), `reasons ${JSON.stringify(resolved.reasons)}`);
+    assert(resolved.reasons.includes('resolution: market has resolved on the CTF'), `reasons ${JSON.stringify(resolved.reasons)}`);
+    const close = resolved.checks.find(check => check.name === 'marketClose');
+    assert(close?.status === 'skipped' && resolved.metadata === null, 'no metadata source should skip the close check');
+
+    const unknown = await sdk.checkMarketEligibility(ethers.constants.HashZero, { longYes: true, timeframeSeconds: 3600 });
+    assert(!unknown.eligible && unknown.tokenId === null, `unknown ${JSON.stringify(unknown)}`);
+    assert(unknown.checks.find(check => check.name === 'orderBook')?.status === 'skipped', 'book check should be skipped without a token');
+  });
+
+  await runTest('Thin asks fail and a missing bid side warns', async () => {
+    const { sdk, exchange, yesTokenId } = createHarness({ asks: [{ price: 0.40, size: 1000 }, { price: 0.45, size: 100000 }] });
+
+    const thin = await sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600, capitalUSDC: 1000 });
+    assert(!thin.eligible && thin.askDepthUSDC === 400, `depth ${thin.askDepthUSDC}`);
+    assert(thin.reasons[0].startsWith('orderBook: $400.00 of asks within 100bps'), `reasons ${JSON.stringify(thin.reasons)}`);
+
+    const wide = await sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600, capitalUSDC: 1000, maxSlippageBps: 2000 });
+    assert(wide.eligible && wide.askDepthUSDC === 45_400, `wide depth ${wide.askDepthUSDC}`);
+
+    exchange.setOrderBook(yesTokenId, { bids: [], asks: [{ price: 0.40, size: 100000 }] });
+    const oneSided = await sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600 });
+    assert(oneSided.eligible && oneSided.bestBid === null, 'missing bids should not fail the market');
+    assert(oneSided.warnings[0].startsWith(`orderBook: no bids for token ${yesTokenId}`), `warnings ${JSON.stringify(oneSided.warnings)}`);
+  });
+
+  await runTest('Bad params throw; metadata and RPC failures are handled', async () => {
+    const failing = callbackMarketMetadata(() => { throw new Error('gamma down'); });
+    const { sdk } = metadataHarness(failing);
+
+    for (const params of [
+      { longYes: true, timeframeSeconds: 0 },
+      { longYes: true, timeframeSeconds: 3600, capitalUSDC: -1 },
+      { longYes: true, timeframeSeconds: 3600, maxSlippageBps: 20_000 },
+    ]) {
+      try {
+        await sdk.checkMarketEligibility(MARKET, params);
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        assert(error instanceof ValidationError && error.code === 'INVALID_PARAMS', `${JSON.stringify(params)}: got ${error.message}`);
+      }
+    }
+
+    const report = await sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600 });
+    assert(report.eligible && report.warnings[0] === 'marketClose: market metadata unavailable: gamma down', `warnings ${JSON.stringify(report.warnings)}`);
+
+    const rpcDown = createHarness();
+    const backend = (rpcDown.sdk as any).protocol;
+    backend.isResolved = async () => { throw Object.assign(new Error('could not detect network'), { code: 'NETWORK_ERROR' }); };
+    try {
+      await rpcDown.sdk.checkMarketEligibility(MARKET, { longYes: true, timeframeSeconds: 3600 });
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError && error.code === 'RPC_ERROR', `got ${error.message}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
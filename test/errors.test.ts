@@ -0,0 +1,119 @@
+/**
+ * Validation: Error codes and context
+ *
+ * SDK errors carry a stable code, a retryable flag, the underlying cause
+ * and what had already executed when they were thrown.
+ *
+ * Usage:
+ *   npx ts-node test/errors.test.ts
+ */
+
+import {
+  classifyRevert,
+  ForecastError,
+  InMemoryPositionStore,
+  PolymarketError,
+  ProtocolError,
+  ValidationError,
+} from '../src';
+import { createHarness, crashOnCall, baseParams, runTest, assert, finish, BORROWER } from './harness';
+
+/**
+ * Run `fn` and return what it threw
+ */
+async function caught(fn: () => Promise<unknown>): Promise<ForecastError> {
+  try {
+    await fn();
+  } catch (error: any) {
+    assert(error instanceof ForecastError, `expected ForecastError, got ${error.constructor.name}: ${error.message}`);
+    return error;
+  }
+  throw new Error('Should have thrown');
+}
+
+async function main() {
+  console.log('\n=== ERROR TESTS ===\n');
+
+  await runTest('Invalid input and short balance are not retryable', async () => {
+    const { sdk } = createHarness({ walletUSDC: 50 });
+
+    const invalid = await caught(() => sdk.openTargetPosition(baseParams({ targetPrice: 0.30 })));
+    assert(invalid instanceof ValidationError && invalid.code === 'INVALID_PARAMS' && !invalid.retryable, `got ${invalid.code}`);
+
+    const balance = await caught(() => sdk.openTargetPosition(baseParams()));
+    assert(balance instanceof ValidationError && balance.code === 'INSUFFICIENT_BALANCE' && !balance.retryable, `got ${balance.code}`);
+  });
+
+  await runTest('Paused protocol is retryable with the revert as cause', async () => {
+    const { sdk, protocol } = createHarness();
+    protocol.paused = true;
+
+    const error = await caught(() => sdk.openTargetPosition(baseParams()));
+    assert(error instanceof ProtocolError && error.code === 'PROTOCOL_PAUSED' && error.retryable, `got ${error.code}`);
+    assert((error.cause as Error).message.includes('Pausable: paused'), 'revert not kept as cause');
+    assert(typeof error.context.executionId === 'string' && error.context.legIdsOpened!.length === 0, 'execution context missing');
+  });
+
+  await runTest('Thin senior pool reports INSUFFICIENT_POOL_LIQUIDITY', async () => {
+    const { sdk } = createHarness({ protocolConfig: { seniorLiquidityUSDC: 10 } });
+    const error = await caught(() => sdk.openTargetPosition(baseParams()));
+    assert(error.code === 'INSUFFICIENT_POOL_LIQUIDITY' && error.retryable, `got ${error.code}: ${error.message}`);
+  });
+
+  await runTest('Empty book fails fast with NO_BOOK_LIQUIDITY', async () => {
+    const { sdk, exchange, yesTokenId } = createHarness();
+    exchange.setOrderBook(yesTokenId, { bids: [], asks: [] });
+
+    const error = await caught(() => sdk.openTargetPosition(baseParams({ retryDelayMs: 60_000 })));
+    assert(error instanceof PolymarketError && error.code === 'NO_BOOK_LIQUIDITY', `got ${error.code}`);
+    assert(error.context.tokenId === yesTokenId, 'token ID missing from context');
+  });
+
+  await runTest('Unfundable close reports the leg and INSUFFICIENT_BALANCE', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.transferUsdc(BORROWER, '0x00000000000000000000000000000000000000bb', await ledger.usdcBalanceOf(BORROWER));
+
+    const error = await caught(() => sdk.unwindPosition(position.legIds));
+    assert(error.code === 'INSUFFICIENT_BALANCE' && !error.retryable, `got ${error.code}`);
+    assert(error.context.legId === position.legIds[position.legIds.length - 1], 'leg ID missing from context');
+    assert(error.message.includes('Insufficient USDC'), `message changed: ${error.message}`);
+  });
+
+  await runTest('Failed exit of an interrupted run lists the legs still open', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.protocol.connect(BORROWER), 'ctfBalanceOf', 4);
+    harness.connect({ store, protocol: wrapped }).openTargetPosition(baseParams()).catch(() => undefined);
+    await crashed;
+    harness.exchange.setOrderBook(harness.yesTokenId, { bids: [], asks: [] });
+
+    const [interrupted] = await store.list();
+    const error = await caught(() => harness.sdk.resumeOpen(interrupted.id, { unwind: true }));
+    assert(error.code === 'NO_BOOK_LIQUIDITY', `got ${error.code}`);
+    assert(error.context.executionId === interrupted.id, 'execution ID missing');
+    assert(error.context.legIdsOpened!.join() === interrupted.legs.map(leg => leg.legId).join(), 'opened legs missing');
+    assert(error.context.usdcBorrowed! > 900, `borrowed USDC missing: ${error.context.usdcBorrowed}`);
+  });
+
+  await runTest('classifyRevert maps RPC and revert failures', async () => {
+    assert(classifyRevert({ code: 'NETWORK_ERROR', message: 'could not detect network' }) === 'RPC_ERROR', 'network');
+    assert(classifyRevert({ code: 'INSUFFICIENT_FUNDS', message: 'insufficient funds for gas' }) === 'INSUFFICIENT_BALANCE', 'gas funds');
+    assert(classifyRevert(new Error('execution reverted: ForecastProtocol: market resolved')) === 'MARKET_INVALID', 'market');
+    assert(classifyRevert(new Error('execution reverted')) === 'REVERTED', 'generic revert');
+    assert(classifyRevert(new Error('execution reverted: ForecastProtocol: insufficient junior liquidity')) === 'INSUFFICIENT_POOL_LIQUIDITY', 'pool');
+    for (const reason of ['ERC20: insufficient allowance', 'ERC20: transfer amount exceeds allowance', 'ERC20InsufficientAllowance(0x1, 0, 5)', 'ERC1155: caller is not token owner or approved']) {
+      assert(classifyRevert({ reason }) === 'INSUFFICIENT_ALLOWANCE', reason);
+    }
+    for (const reason of ['ERC20: transfer amount exceeds balance', 'ERC20InsufficientBalance(0x1, 0, 5)', 'ERC1155: insufficient balance for transfer']) {
+      assert(classifyRevert({ reason }) === 'INSUFFICIENT_BALANCE', reason);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+/**
+ * Validation: In-memory exchange matching engine
+ *
+ * Covers the scripted order book used to run the leverage loop offline:
+ * ladder walking, FOK kills, GTC partial fills, cancels, rejects and sells.
+ * Also checks that CLOB sells never leave a remainder resting on the book.
+ *
+ * Usage:
+ *   npx ts-node test/exchange.test.ts
+ */
+
+import { ClobExchangeAdapter, InMemoryExchange, PolymarketError } from '../src';
+import { runTest, assert, approx, finish } from './harness';
+
+const TOKEN = '1001';
+
+/**
+ * CLOB adapter over a scripted client: the sell order reports `statuses`
+ * in turn (the last one repeating) until it is cancelled
+ */
+function clobAdapter(statuses: { status: string; sizeMatched: number }[]) {
+  const calls = { cancelled: [] as string[], polls: 0 };
+  const client = {
+    createAndPostOrder: async () => ({ orderID: 'sell-1' }),
+    getOrder: async () => {
+      const { status, sizeMatched } = calls.cancelled.length > 0
+        ? { status: 'CANCELED', sizeMatched: statuses[statuses.length - 1].sizeMatched }
+        : statuses[Math.min(calls.polls, statuses.length - 1)];
+      calls.polls++;
+      return { asset_id: TOKEN, side: 'SELL', price: '0.38', original_size: '100', size_matched: String(sizeMatched), status };
+    },
+    cancelOrder: async ({ orderID }: { orderID: string }) => { calls.cancelled.push(orderID); },
+  };
+  const adapter = new ClobExchangeAdapter('http://clob.local', 137, {} as any, '0x0000000000000000000000000000000000000001');
+  (adapter as any).client = client;
+  return { adapter, calls };
+}
+
+function newExchange(): InMemoryExchange {
+  const exchange = new InMemoryExchange();
+  exchange.setOrderBook(TOKEN, {
+    bids: [{ price: 0.39, size: 500 }, { price: 0.38, size: 1000 }],
+    asks: [{ price: 0.40, size: 100 }, { price: 0.41, size: 200 }, { price: 0.42, size: 1000 }],
+  });
+  return exchange;
+}
+
+async function main() {
+  console.log('\n=== IN-MEMORY EXCHANGE TESTS ===\n');
+
+  await runTest('Book is sorted best first', async () => {
+    const book = await newExchange().getOrderBook(TOKEN);
+    assert(book.asks[0].price === 0.40 && book.asks[2].price === 0.42, 'asks not ascending');
+    assert(book.bids[0].price === 0.39 && book.bids[1].price === 0.38, 'bids not descending');
+  });
+
+  await runTest('Marketable buy walks the ask ladder', async () => {
+    const exchange = newExchange();
+    const orderId = await exchange.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.41, size: 250, orderType: 'FOK' });
+    const order = await exchange.getOrder(orderId);
+
+    assert(order.status === 'MATCHED', `expected MATCHED, got ${order.status}`);
+    assert(approx(order.sizeMatched, 250), `expected 250 filled, got ${order.sizeMatched}`);
+    // 100 @ 0.40 + 150 @ 0.41
+    assert(approx(order.avgFillPrice, (100 * 0.40 + 150 * 0.41) / 250), `wrong avg price ${order.avgFillPrice}`);
+
+    const book = await exchange.getOrderBook(TOKEN);
+    assert(book.asks[0].price === 0.41 && approx(book.asks[0].size, 50), 'book not consumed');
+  });
+
+  await runTest('FOK without enough crossing size is killed', async () => {
+    const exchange = newExchange();
+    const orderId = await exchange.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.40, size: 150, orderType: 'FOK' });
+    const order = await exchange.getOrder(orderId);
+
+    assert(order.status === 'CANCELLED', `expected CANCELLED, got ${order.status}`);
+    assert(order.sizeMatched === 0, 'FOK should not partially fill');
+    const book = await exchange.getOrderBook(TOKEN);
+    assert(approx(book.asks[0].size, 100), 'killed FOK must not touch the book');
+  });
+
+  await runTest('GTC partially fills and rests the remainder', async () => {
+    const exchange = newExchange();
+    const orderId = await exchange.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.40, size: 150, orderType: 'GTC' });
+    let order = await exchange.getOrder(orderId);
+
+    assert(order.status === 'LIVE', `expected LIVE, got ${order.status}`);
+    assert(approx(order.sizeMatched, 100), `expected 100 filled, got ${order.sizeMatched}`);
+    const book = await exchange.getOrderBook(TOKEN);
+    assert(book.bids[0].price === 0.40 && approx(book.bids[0].size, 50), 'remainder not resting');
+
+    // New crossing liquidity completes the resting order
+    exchange.addLiquidity(TOKEN, 'SELL', 0.395, 80);
+    order = await exchange.getOrder(orderId);
+    assert(order.status === 'MATCHED', `expected MATCHED, got ${order.status}`);
+    const after = await exchange.getOrderBook(TOKEN);
+    assert(after.asks[0].price === 0.395 && approx(after.asks[0].size, 30), 'leftover liquidity not added');
+  });
+
+  await runTest('Cancel removes resting order', async () => {
+    const exchange = newExchange();
+    const orderId = await exchange.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.35, size: 10, orderType: 'GTC' });
+    await exchange.cancelOrder(orderId);
+
+    const order = await exchange.getOrder(orderId);
+    assert(order.status === 'CANCELLED', `expected CANCELLED, got ${order.status}`);
+    const book = await exchange.getOrderBook(TOKEN);
+    assert(!book.bids.some(level => level.price === 0.35), 'cancelled order still on book');
+  });
+
+  await runTest('Scripted rejection throws once', async () => {
+    const exchange = newExchange();
+    exchange.rejectNextOrder('not enough balance / allowance');
+
+    try {
+      await exchange.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.40, size: 10, orderType: 'FOK' });
+      throw new Error('Should have thrown PolymarketError');
+    } catch (error) {
+      assert(error instanceof PolymarketError, 'expected PolymarketError');
+    }
+
+    const orderId = await exchange.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.40, size: 10, orderType: 'FOK' });
+    assert((await exchange.getOrder(orderId)).status === 'MATCHED', 'rejection should only apply once');
+  });
+
+  await runTest('Sell respects minimum price', async () => {
+    const exchange = newExchange();
+    const filled = await exchange.sell(TOKEN, 600, 0.38);
+    assert(filled.status === 'MATCHED', `expected MATCHED, got ${filled.status}`);
+    assert(approx(filled.avgFillPrice, (500 * 0.39 + 100 * 0.38) / 600), `wrong avg price ${filled.avgFillPrice}`);
+
+    const killed = await exchange.sell(TOKEN, 1000, 0.38);
+    assert(killed.status === 'CANCELLED', 'sell below minimum price should be killed');
+  });
+
+  await runTest('CLOB sell cancels a partial fill instead of leaving it resting', async () => {
+    const partial = clobAdapter([{ status: 'LIVE', sizeMatched: 40 }]);
+    const order = await partial.adapter.sell(TOKEN, 100, 0.38, 0);
+    assert(partial.calls.cancelled.join() === 'sell-1', 'unfilled remainder should be cancelled');
+    assert(order.status === 'CANCELLED' && order.sizeMatched === 40, `order ${JSON.stringify(order)}`);
+
+    const filled = clobAdapter([{ status: 'LIVE', sizeMatched: 40 }, { status: 'MATCHED', sizeMatched: 100 }]);
+    const matched = await filled.adapter.sell(TOKEN, 100, 0.38, 5000);
+    assert(matched.status === 'MATCHED' && matched.sizeMatched === 100, `order ${JSON.stringify(matched)}`);
+    assert(filled.calls.cancelled.length === 0 && filled.calls.polls === 2, 'a matched sell should not be cancelled');
+  });
+
+  await runTest('Order IDs are deterministic', async () => {
+    const a = newExchange();
+    const b = newExchange();
+    const idA = await a.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.40, size: 1, orderType: 'FOK' });
+    const idB = await b.postOrder({ tokenId: TOKEN, side: 'BUY', price: 0.40, size: 1, orderType: 'FOK' });
+    assert(idA === idB, `${idA} !== ${idB}`);
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+/**
+ * Validation: Execution summary
+ *
+ * openTargetPosition reports whether the loop completed, stopped at the $1
+ * threshold or ended partway on an error, with leverage achieved vs
+ * planned, and can unwind a partial position automatically.
+ *
+ * Usage:
+ *   npx ts-node test/execution.test.ts
+ */
+
+import { ForecastError, OpenProgressEvent } from '../src';
+import { createHarness, baseParams, runTest, assert, finish, BORROWER } from './harness';
+
+const SINK = '0x00000000000000000000000000000000000000bb';
+const BIDS = [{ price: 0.39, size: 20000 }, { price: 0.38, size: 50000 }];
+
+async function main() {
+  console.log('\n=== EXECUTION SUMMARY TESTS ===\n');
+
+  await runTest('Full run is complete with leverage as planned', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    const execution = position.execution!;
+
+    assert(execution.status === 'complete' && execution.error === undefined, `status ${execution.status}`);
+    assert(execution.loopsExecuted === execution.loopsPlanned && execution.loopsPlanned === position.legIds.length, 'loop counts');
+    // Every fill is at the 0.40 ask, so USDC per USDC of capital is tokens per USDC at 0.40
+    assert(Math.abs(execution.leverageAchieved - position.effectiveLeverage * 0.40) < 1e-9, `achieved ${execution.leverageAchieved}`);
+    assert(Math.abs(execution.leverageAchieved / execution.leveragePlanned - 1) < 0.01, `planned ${execution.leveragePlanned} vs ${execution.leverageAchieved}`);
+  });
+
+  await runTest('Failure after the first leg is reported as partial with its error', async () => {
+    const { sdk, protocol } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams(), {
+      onProgress: event => {
+        if (event.type === 'legOpened' && event.loop === 1) protocol.paused = true;
+      },
+    });
+    const execution = position.execution!;
+
+    assert(execution.status === 'partial' && execution.loopsExecuted === 2, `${execution.status} after ${execution.loopsExecuted} loops`);
+    assert(execution.error!.code === 'PROTOCOL_PAUSED' && execution.error!.retryable, `error ${execution.error?.code}`);
+    assert(execution.leverageAchieved < execution.leveragePlanned * 0.7, `achieved ${execution.leverageAchieved} of ${execution.leveragePlanned}`);
+    assert(position.legIds.length === 2, 'partial legs should be kept');
+
+    // The third loop bought before its open reverted: those tokens stay in the wallet, outside the position
+    const escrowed = position.legIds.reduce((sum, legId) => sum + Number(protocol.legs(legId).sets), 0);
+    assert(execution.unescrowedTokens > 0, 'unescrowed tokens not reported');
+    assert(Math.abs(position.totalExposure - escrowed) < 2, `exposure ${position.totalExposure} vs escrowed ${escrowed}`);
+    assert(Math.abs(execution.leverageAchieved - position.totalExposure * 0.40 / 1000) < 0.01, `achieved ${execution.leverageAchieved}`);
+  });
+
+  await runTest('Running out of borrowed USDC stops at the threshold', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams(), {
+      onProgress: event => {
+        if (event.type === 'legOpened' && event.loop === 1) ledger.transferUsdc(BORROWER, SINK, ledger.usdcBalanceOf(BORROWER));
+      },
+    });
+    const execution = position.execution!;
+    assert(execution.status === 'stopped' && execution.loopsExecuted === 2 && !execution.error, `status ${execution.status}`);
+  });
+
+  await runTest('unwindOnPartial closes the partial position', async () => {
+    const { sdk, exchange, ledger, yesTokenId } = createHarness();
+    const events: OpenProgressEvent[] = [];
+    const position = await sdk.openTargetPosition(baseParams(), {
+      unwindOnPartial: true,
+      onProgress: event => {
+        events.push(event);
+        if (event.type === 'legOpened' && event.loop === 1) {
+          exchange.setOrderBook(yesTokenId, { bids: BIDS, asks: [] });
+          ledger.mintUsdc(BORROWER, 100n * 1_000_000n); // Spread and interest buffer for the unwind
+        }
+      },
+    });
+
+    assert(position.execution!.status === 'partial' && position.execution!.unwound === true, 'unwind not reported');
+    assert(position.execution!.error!.code === 'NO_BOOK_LIQUIDITY', `error ${position.execution!.error?.code}`);
+    assert(position.legIds.length === 0 && position.reduction!.legs.length === 2, 'partial legs not closed');
+    assert(events[events.length - 1].type === 'completed', 'completed should follow the unwind');
+  });
+
+  await runTest('unwindOnPartial sells tokens a failed loop left unescrowed', async () => {
+    const { sdk, ledger, yesTokenId } = createHarness();
+    const backend = (sdk as any).protocol;
+    const position = await sdk.openTargetPosition(baseParams(), {
+      unwindOnPartial: true,
+      onProgress: event => {
+        if (event.type === 'legOpened' && event.loop === 1) {
+          backend.open = async () => { throw new Error('ForecastProtocol: insufficient senior liquidity'); };
+          ledger.mintUsdc(BORROWER, 100n * 1_000_000n);
+        }
+      },
+    });
+
+    assert(position.execution!.unwound === true && position.legIds.length === 0, 'partial legs not closed');
+    assert(position.execution!.unescrowedTokens === 0, `unsold ${position.execution!.unescrowedTokens}`);
+    assert(ledger.ctfBalanceOf(BORROWER, yesTokenId) < 1_000000n, 'unescrowed tokens should be sold');
+    const record = (await sdk.getPositionStore().get(position.positionId!))!;
+    assert(record.fills.filter(fill => fill.side === 'SELL').length >= 1, 'sale not recorded');
+  });
+
+  await runTest('Failed automatic unwind reports the legs still open', async () => {
+    const { sdk, exchange, ledger, yesTokenId } = createHarness();
+    try {
+      await sdk.openTargetPosition(baseParams(), {
+        unwindOnPartial: true,
+        onProgress: event => {
+          if (event.type === 'legOpened' && event.loop === 1) exchange.setOrderBook(yesTokenId, { bids: BIDS, asks: [] });
+          if (event.type === 'partialStop') ledger.transferUsdc(BORROWER, SINK, ledger.usdcBalanceOf(BORROWER));
+        },
+      });
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ForecastError && error.code === 'INSUFFICIENT_BALANCE', `got ${error.code}: ${error.message}`);
+      assert(error.context.legIdsOpened!.length === 2, `legs ${error.context.legIdsOpened}`);
+      assert(error.context.usdcBorrowed! > 0, 'borrowed USDC missing');
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+/**
+ * Validation: Gas in fee reports
+ *
+ * Simulations price approvals, opens and closes with estimateGas (falling
+ * back to default gas units when a call would revert); executed positions
+ * and unwinds use gasUsed * gasPrice from receipts. The gas token is
+ * converted to USD through the configured price source.
+ *
+ * Usage:
+ *   npx ts-node test/gas.test.ts
+ */
+
+import { ethers } from 'ethers';
+import {
+  ForecastLeverageSDK,
+  GasTokenPriceSource,
+  InMemoryPositionStore,
+  ValidationError,
+  DEFAULT_GAS_UNITS,
+  callbackGasTokenPrice,
+  chainlinkGasTokenPrice,
+} from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish, PRIVATE_KEY, BORROWER } from './harness';
+
+const GWEI = 30e-9; // InMemoryProtocol default gas price, in gas token per gas unit
+
+/**
+ * Harness SDK pricing gas with `gasTokenPrice`
+ */
+function gasHarness(gasTokenPrice: GasTokenPriceSource | number) {
+  const harness = createHarness();
+  const sdk = new ForecastLeverageSDK({
+    network: 'local',
+    signer: PRIVATE_KEY,
+    exchange: harness.exchange,
+    protocol: harness.protocol.connect(BORROWER),
+    store: new InMemoryPositionStore(),
+    gasTokenPrice,
+  });
+  return { ...harness, sdk };
+}
+
+/**
+ * Provider answering a Chainlink aggregator's decimals() and latestRoundData()
+ */
+function chainlinkProvider(answer: number, updatedAt: number) {
+  const feed = new ethers.utils.Interface([
+    'function decimals() view returns (uint8)',
+    'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  ]);
+  const provider = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:1', { chainId: 137, name: 'matic' });
+  provider.send = async (method: string, params: any[]) => {
+    if (method !== 'eth_call') throw new Error(`Unexpected ${method}`);
+    const call = feed.parseTransaction({ data: params[0].data });
+    return call.name === 'decimals'
+      ? feed.encodeFunctionResult('decimals', [8])
+      : feed.encodeFunctionResult('latestRoundData', [1, Math.round(answer * 1e8), updatedAt, updatedAt, 1]);
+  };
+  return provider;
+}
+
+async function main() {
+  console.log('\n=== GAS TESTS ===\n');
+
+  await runTest('Simulation estimates approvals and falls back for opens', async () => {
+    const { sdk } = gasHarness(0.5);
+    const simulation = await sdk.simulatePosition(baseParams());
+    const gas = simulation.fees.gasBreakdown;
+    const legs = simulation.legIds.length;
+
+    assert(gas.source === 'estimate' && gas.gasTokenPriceUSD === 0.5, `unexpected breakdown ${JSON.stringify(gas)}`);
+    assert(approx(gas.approvals, 92_000 * GWEI, 1e-12), `approvals ${gas.approvals}`);
+    assert(approx(gas.opens, legs * DEFAULT_GAS_UNITS.open * GWEI, 1e-12), `opens ${gas.opens}`);
+    assert(approx(gas.closes, legs * DEFAULT_GAS_UNITS.close * GWEI, 1e-12), `closes ${gas.closes}`);
+    assert(gas.defaulted.includes('open') && gas.defaulted.includes('close') && !gas.defaulted.includes('approveUsdc'), `defaulted ${gas.defaulted}`);
+    assert(approx(simulation.fees.gas, (gas.approvals + gas.opens + gas.closes) * 0.5, 1e-12), `fees.gas ${simulation.fees.gas}`);
+  });
+
+  await runTest('Executed position uses receipts and prices breakeven with gas', async () => {
+    const { sdk } = gasHarness(0.5);
+    const position = await sdk.openTargetPosition(baseParams());
+    const gas = position.fees.gasBreakdown;
+    const legs = position.legIds.length;
+
+    assert(gas.source === 'receipt' && gas.defaulted.length === 0, `unexpected breakdown ${JSON.stringify(gas)}`);
+    assert(approx(gas.approvals, 92_000 * GWEI, 1e-12), `approvals ${gas.approvals}`);
+    assert(approx(gas.opens, legs * 310_000 * GWEI, 1e-12), `opens ${gas.opens}`);
+    assert(approx(gas.closes, legs * 170_000 * GWEI, 1e-12), `closes ${gas.closes}`);
+
+    const total = position.fees.protocolSenior + position.fees.protocolJunior + position.fees.polymarketSlippage + position.fees.gas;
+    assert(approx(position.fees.total, total, 1e-9), 'fees.total should include gas');
+    assert(approx(position.pnl.breakeven, 0.40 + total / position.totalExposure, 1e-12), `breakeven ${position.pnl.breakeven}`);
+  });
+
+  await runTest('Unwind charges close receipts and skips approvals already granted', async () => {
+    const { sdk, ledger } = gasHarness(callbackGasTokenPrice(() => 2));
+    const position = await sdk.openTargetPosition(baseParams());
+    const report = await sdk.unwindPosition(position.legIds, { capitalUSDC: 1000 });
+
+    for (const leg of report.legs) {
+      assert(approx(leg.gas, 170_000 * GWEI * 2, 1e-12), `leg ${leg.legId} gas ${leg.gas}`);
+    }
+    const expected = report.legs.length * 170_000 * GWEI * 2;
+    assert(approx(report.fees.gas, expected, 1e-12), `report gas ${report.fees.gas} vs ${expected}`);
+
+    // A later open and its simulation pay for no approvals either
+    ledger.mintUsdc(BORROWER, 1000_000000n);
+    assert((await sdk.simulatePosition(baseParams())).fees.gasBreakdown.approvals === 0, 'simulation should not price granted approvals');
+    assert((await sdk.openTargetPosition(baseParams())).fees.gasBreakdown.approvals === 0, 'open should not resend approvals');
+  });
+
+  await runTest('Chainlink feed prices gas; a stale feed leaves it out', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const fresh = chainlinkGasTokenPrice(ethers.constants.AddressZero, chainlinkProvider(0.25, now));
+    assert(await fresh.getPriceUSD() === 0.25, 'feed answer not scaled by decimals');
+
+    const { sdk } = gasHarness(chainlinkGasTokenPrice(ethers.constants.AddressZero, chainlinkProvider(0.25, now - 7200)));
+    const simulation = await sdk.simulatePosition(baseParams());
+    const gas = simulation.fees.gasBreakdown;
+    assert(gas.gasTokenPriceUSD === null && simulation.fees.gas === 0, 'stale price should not be used');
+    assert(gas.opens > 0, 'gas token amounts should still be reported');
+  });
+
+  await runTest('Invalid gas token price is rejected', async () => {
+    const { exchange, protocol } = createHarness();
+    try {
+      new ForecastLeverageSDK({ network: 'local', signer: PRIVATE_KEY, exchange, protocol: protocol.connect(BORROWER), gasTokenPrice: -1 });
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.message.includes('gasTokenPrice'), `got ${error.message}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,148 @@
+/**
+ * Shared offline harness for script-style test suites.
+ *
+ * Wires ForecastLeverageSDK to an InMemoryProtocol and an InMemoryExchange
+ * settling against the same ledger, with a funded borrower wallet.
+ */
+
+import { ethers } from 'ethers';
+import {
+  ForecastLeverageSDK,
+  ForecastLeverageSDKOptions,
+  InMemoryExchange,
+  InMemoryLedger,
+  InMemoryPositionStore,
+  InMemoryProtocol,
+  InMemoryProtocolConfig,
+  InMemoryMarketConfig,
+  TargetPositionParams,
+} from '../src';
+
+export const MARKET = '0x7cb031787d1693f8e0a40859f6a192bddc9280a25263946c6040179eb50267dc';
+export const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+export const BORROWER = new ethers.Wallet(PRIVATE_KEY).address;
+
+export interface Harness {
+  sdk: ForecastLeverageSDK;
+  ledger: InMemoryLedger;
+  protocol: InMemoryProtocol;
+  exchange: InMemoryExchange;
+  yesTokenId: string;
+  noTokenId: string;
+  /** Another SDK on the same ledger, book and protocol (e.g. a restarted process) */
+  connect(sdkOptions?: ForecastLeverageSDKOptions): ForecastLeverageSDK;
+}
+
+export function createHarness(
+  options: {
+    walletUSDC?: number;
+    asks?: { price: number; size: number }[];
+    sdkOptions?: ForecastLeverageSDKOptions;
+    protocolConfig?: InMemoryProtocolConfig;
+    marketConfig?: InMemoryMarketConfig;
+  } = {}
+): Harness {
+  const ledger = new InMemoryLedger(1_700_000_000);
+  const protocol = new InMemoryProtocol({ ...options.protocolConfig, ledger });
+  protocol.addMarket(MARKET, { yesPrice: 0.40, ...options.marketConfig });
+
+  const exchange = new InMemoryExchange({ ledger, account: BORROWER });
+  const yesTokenId = protocol.yesPositionId(MARKET);
+  const noTokenId = protocol.noPositionId(MARKET);
+  exchange.setOrderBook(yesTokenId, {
+    bids: [{ price: 0.39, size: 20000 }, { price: 0.38, size: 50000 }],
+    asks: options.asks || [{ price: 0.40, size: 100000 }],
+  });
+  exchange.setOrderBook(noTokenId, {
+    bids: [{ price: 0.59, size: 20000 }],
+    asks: [{ price: 0.60, size: 100000 }],
+  });
+
+  ledger.mintUsdc(BORROWER, BigInt(Math.round((options.walletUSDC ?? 1000) * 1e6)));
+
+  const connect = (sdkOptions: ForecastLeverageSDKOptions = {}) => new ForecastLeverageSDK({
+    network: 'local',
+    signer: PRIVATE_KEY,
+    exchange,
+    protocol: protocol.connect(BORROWER),
+    store: new InMemoryPositionStore(),
+    ...sdkOptions,
+  });
+  const sdk = connect(options.sdkOptions);
+
+  return { sdk, ledger, protocol, exchange, yesTokenId, noTokenId, connect };
+}
+
+/**
+ * Wrap a collaborator so its Nth call to `method` runs, then hangs forever,
+ * like a process that died after the call took effect. Resolves `crashed`
+ * at that point.
+ */
+export function crashOnCall<T extends object>(target: T, method: keyof T, call: number) {
+  let calls = 0;
+  let signal: () => void = () => undefined;
+  const crashed = new Promise<void>(resolve => { signal = resolve; });
+
+  const wrapped = new Proxy(target, {
+    get(object, property) {
+      const value = (object as any)[property];
+      if (typeof value !== 'function') return value;
+      if (property !== method) return value.bind(object);
+      return async (...args: any[]) => {
+        const result = await value.apply(object, args);
+        if (++calls < call) return result;
+        signal();
+        return new Promise(() => undefined);
+      };
+    },
+  });
+
+  return { wrapped, crashed };
+}
+
+export function baseParams(overrides: Partial<TargetPositionParams> = {}): TargetPositionParams {
+  return {
+    marketConditionId: MARKET,
+    longYes: true,
+    currentPrice: 0.40,
+    targetPrice: 0.44,
+    timeframeSeconds: 3600,
+    capitalUSDC: 1000,
+    maxSlippageBps: 0,
+    retryDelayMs: 1,
+    ...overrides,
+  };
+}
+
+export function usdc(amount: bigint): number {
+  return Number(amount) / 1e6;
+}
+
+const results: Record<string, boolean> = {};
+
+export async function runTest(name: string, testFn: () => Promise<void>): Promise<void> {
+  try {
+    await testFn();
+    results[name] = true;
+    console.log(`✓ ${name}`);
+  } catch (error: any) {
+    results[name] = false;
+    console.log(`✗ ${name}`);
+    console.log(`  Error: ${error.message}`);
+  }
+}
+
+export function assert(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+export function approx(a: number, b: number, tolerance: number = 1e-6): boolean {
+  return Math.abs(a - b) <= tolerance;
+}
+
+export function finish(): void {
+  const total = Object.keys(results).length;
+  const failed = Object.values(results).filter(passed => !passed).length;
+  console.log(`\n${total - failed}/${total} tests passed\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,155 @@
+/**
+ * Validation: Position health and runway
+ *
+ * getPositionHealth reports accrued interest, time to auto-close, runway
+ * ((1 - F) / (F * R) * year from opening) and equity at the best bid on the
+ * chain clock; monitorPositionHealth polls it and reports status changes.
+ *
+ * Usage:
+ *   npx ts-node test/health.test.ts
+ */
+
+import { HealthAlert, InMemoryPositionStore, ValidationError } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish, BORROWER } from './harness';
+
+const YEAR = 365 * 24 * 3600;
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for monitor');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+async function main() {
+  console.log('\n=== HEALTH TESTS ===\n');
+
+  await runTest('Fresh position is healthy and worth its capital at the bid', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    const health = await sdk.getPositionHealth(position.legIds);
+
+    assert(health.status === 'healthy' && health.reasons.length === 0, `status ${health.status}: ${health.reasons}`);
+    assert(health.legs.length === position.legIds.length && health.timeToAutoClose === 3600, `timeToAutoClose ${health.timeToAutoClose}`);
+    assert(health.accruedInterest === 0 && health.mark === 0.39, `interest ${health.accruedInterest}, mark ${health.mark}`);
+
+    const newest = health.legs[health.legs.length - 1];
+    assert(approx(health.carriedLoan, newest.principal, 1e-9), 'newest loan should be carried');
+    // Bought at the 0.40 ask, marked at the 0.39 bid
+    const spread = position.totalExposure * 0.01;
+    assert(health.equity <= 1000 && health.equity > 1000 - spread - 1, `equity ${health.equity}`);
+  });
+
+  await runTest('Interest accrues and status follows the term', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+
+    ledger.advanceTime(2800); // 800s left, inside 25% of the term
+    let health = await sdk.getPositionHealth(position.legIds);
+    const leg = health.legs[0];
+    const F = leg.principal / leg.sets;
+    const R = leg.accruedInterest / (leg.principal * 2800 / YEAR);
+    assert(health.status === 'warning' && health.reasons[0].includes('auto-closes'), `status ${health.status}: ${health.reasons}`);
+    assert(leg.timeToAutoClose === 800 && leg.accruedInterest > 0, `leg ${JSON.stringify(leg, (_, v) => typeof v === 'bigint' ? v.toString() : v)}`);
+    assert(approx(leg.runwayRemaining, (1 - F) / (F * R) * YEAR - 2800, 1), `runway ${leg.runwayRemaining}`);
+    assert(approx(leg.debt, leg.principal + leg.accruedInterest, 1e-9), 'debt is principal plus interest');
+
+    ledger.advanceTime(500);
+    health = await sdk.getPositionHealth(position.legIds);
+    assert(health.status === 'critical', `expected critical with 300s left, got ${health.status}`);
+
+    ledger.advanceTime(600);
+    health = await sdk.getPositionHealth(position.legIds);
+    assert(health.status === 'expired' && health.timeToAutoClose === 0, `expected expired, got ${health.status}`);
+  });
+
+  await runTest('Equity thresholds raise the status', async () => {
+    const { sdk, exchange, yesTokenId } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    exchange.setOrderBook(yesTokenId, { bids: [{ price: 0.10, size: 100000 }], asks: [{ price: 0.40, size: 100000 }] });
+
+    const health = await sdk.getPositionHealth(position.legIds);
+    assert(health.equity < 0 && health.status === 'warning', `equity ${health.equity}, status ${health.status}`);
+    assert(health.reasons.some(reason => reason.includes('equity')), `reasons ${health.reasons}`);
+
+    const strict = await sdk.getPositionHealth(position.legIds, { criticalEquityUSD: 0 });
+    assert(strict.status === 'critical', `expected critical, got ${strict.status}`);
+  });
+
+  await runTest('Closed legs are left out', async () => {
+    const { sdk } = createHarness({ walletUSDC: 1100 });
+    const position = await sdk.openTargetPosition(baseParams());
+    const reduced = await sdk.reducePosition(position, { percent: 50 });
+    const health = await sdk.getPositionHealth(position.legIds);
+
+    assert(health.closedLegIds.length === position.legIds.length - reduced.legIds.length, `closed ${health.closedLegIds}`);
+    assert(health.legs.length === reduced.legIds.length && health.carriedLoan === 0, 'remaining legs or carried loan wrong');
+  });
+
+  await runTest('Legs closed outside the SDK are left out and recorded', async () => {
+    const store = new InMemoryPositionStore();
+    // Range-capped RPC: the check reads each leg's escrow, never the logs
+    const { sdk, protocol, connect } = createHarness({ sdkOptions: { store }, protocolConfig: { maxLogBlockRange: 1 } });
+    const position = await sdk.openTargetPosition(baseParams());
+    const newest = position.legIds[position.legIds.length - 1];
+    protocol.close(BORROWER, newest); // Another process, or auto-close
+
+    const health = await sdk.getPositionHealth(position.legIds);
+    assert(health.closedLegIds.join() === newest.toString() && health.legs.length === position.legIds.length - 1,
+      `closed ${health.closedLegIds}`);
+    assert(health.carriedLoan === 0, 'loan of a closed leg should not be carried');
+    const record = (await store.findByLegId(newest))!;
+    assert(!record.legs[record.legs.length - 1].open, 'store should record the close');
+
+    // Without a record the carried loan is unconfirmed
+    const unrecorded = await connect().getPositionHealth(position.legIds.slice(0, -1));
+    assert(unrecorded.legs.length === position.legIds.length - 1 && unrecorded.carriedLoan === 0, `carried ${unrecorded.carriedLoan}`);
+  });
+
+  await runTest('Monitor alerts on status changes and stops when closed', async () => {
+    const { sdk, ledger } = createHarness({ walletUSDC: 1100 });
+    const position = await sdk.openTargetPosition(baseParams());
+    const alerts: HealthAlert[] = [];
+    let readings = 0;
+    const monitor = sdk.monitorPositionHealth(position.legIds, {
+      intervalMs: 5,
+      onHealth: () => { readings++; },
+      onAlert: alert => alerts.push(alert),
+    });
+
+    await waitFor(() => readings >= 2);
+    assert(alerts.length === 0, 'a healthy first reading should not alert');
+
+    ledger.advanceTime(3000);
+    await waitFor(() => alerts.length === 1);
+    assert(alerts[0].status === 'warning' && alerts[0].previous === 'healthy', `alert ${alerts[0].previous} → ${alerts[0].status}`);
+
+    await sdk.unwindPosition(position.legIds);
+    await waitFor(() => monitor.stopped);
+    assert(monitor.last!.legs.length === 0, 'last reading should have no open legs');
+  });
+
+  await runTest('Invalid thresholds are rejected', async () => {
+    const { sdk } = createHarness();
+    for (const call of [
+      () => sdk.monitorPositionHealth([1n], { thresholds: { warningTimeLeft: 0.1, criticalTimeLeft: 0.2 } }),
+      () => sdk.monitorPositionHealth([1n], { intervalMs: 0 }),
+      () => sdk.monitorPositionHealth([]),
+    ]) {
+      try {
+        call().stop();
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        assert(error instanceof ValidationError, `got ${error.message}`);
+      }
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -11,7 +11,6 @@
  *   TEST_MODE=live npm test         # Run with real transactions (requires setup)
  */
 
-import { ethers } from 'ethers';
 import {
   ForecastLeverageSDK,
   ValidationError,
@@ -47,15 +46,15 @@ class IntegratorTestSuite {
 
   constructor() {
     // Initialize SDK (integrator would do this)
-    this.sdk = new ForecastLeverageSDK(
-      RPC_URL,
-      PRIVATE_KEY,
-      PROTOCOL_ADDRESS,
-      USDC_ADDRESS,
-      CTF_ADDRESS,
-      {}, // Polymarket API creds (not needed for simulation)
-      ethers.ZeroAddress // Funder address (not needed for simulation)
-    );
+    this.sdk = new ForecastLeverageSDK({
+      network: 'polygon',
+      rpcUrl: RPC_URL,
+      signer: PRIVATE_KEY,
+      protocolAddress: PROTOCOL_ADDRESS,
+      usdcAddress: USDC_ADDRESS,
+      ctfAddress: CTF_ADDRESS,
+      signatureType: 0, // EOA: no funder needed for simulation
+    });
   }
 
   private async runTest(name: string, testFn: () => Promise<void>): Promise<void> {
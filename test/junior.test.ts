@@ -0,0 +1,178 @@
+/**
+ * Validation: Junior pool staking
+ *
+ * Staked outcome tokens are lent as the short side of legs (staked NO
+ * backs LONG YES). Junior interest repaid on close is paid to stakers as
+ * fUSDC pro rata to their stake; withdrawals are limited to tokens not in
+ * open legs. The yield report prices F * rJ * utilization against the
+ * staked token.
+ *
+ * Usage:
+ *   npx ts-node test/junior.test.ts
+ */
+
+import { ethers } from 'ethers';
+import { InMemoryProtocol, PolymarketError, ProtocolError, ValidationError } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish, MARKET, BORROWER } from './harness';
+
+const YEAR = 365 * 24 * 3600;
+
+/**
+ * Short tokens escrowed by a position's legs
+ */
+function escrowed(protocol: InMemoryProtocol, legIds: bigint[]): number {
+  return legIds.reduce((sum, legId) => sum + Number(protocol.legs(legId).sets), 0);
+}
+
+async function main() {
+  console.log('\n=== JUNIOR STAKING TESTS ===\n');
+
+  await runTest('Staking approves once and moves tokens into the pool', async () => {
+    const { sdk, ledger, protocol, noTokenId } = createHarness();
+    ledger.mintCtf(BORROWER, noTokenId, 5000_000000n);
+    const junior = sdk.getJuniorStaking();
+
+    const first = await junior.stake(MARKET, false, 3000);
+    assert(first.positionId === noTokenId && first.tokens === 3000, `unexpected stake ${JSON.stringify(first)}`);
+    assert(first.approvalTxHashes.length === 1, 'first stake should approve CTF only');
+    const second = await junior.stake(MARKET, false, 1000);
+    assert(second.approvalTxHashes.length === 0, 'approved wallet should not approve again');
+
+    const stake = await junior.getStake(MARKET, false);
+    assert(stake.account === BORROWER && stake.staked === 4000 && stake.pendingRewards === 0, `stake ${JSON.stringify(stake)}`);
+    assert(ledger.ctfBalanceOf(BORROWER, noTokenId) === 1000_000000n, 'wallet should keep the unstaked tokens');
+    assert(protocol.juniorPoolTotals(noTokenId).staked === 1_004_000_000000n, 'pool total should include the stake');
+
+    try {
+      await junior.stake(MARKET, false, 2000);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.code === 'INSUFFICIENT_BALANCE', `got ${error.message}`);
+    }
+  });
+
+  await runTest('Junior interest is paid pro rata as claimable fUSDC', async () => {
+    const { sdk, ledger, protocol, noTokenId } = createHarness();
+    ledger.mintCtf(BORROWER, noTokenId, 1_000_000_000000n);
+    const junior = sdk.getJuniorStaking();
+    await junior.stake(MARKET, false, 1_000_000); // Half the NO pool
+
+    const position = await sdk.openTargetPosition(baseParams());
+    let juniorInterest = 0;
+    for (const legId of position.legIds) {
+      const leg = protocol.legs(legId);
+      const principal = Math.floor(Number(leg.sets) * Number(leg.F_e18) / 1e18 * 1e6) / 1e6;
+      juniorInterest += principal * Number(leg.rJ_e18) / 1e18 * leg.term / YEAR;
+    }
+    ledger.advanceTime(3601);
+    await sdk.createKeeper().runOnce();
+
+    const stake = await junior.getStake(MARKET, false);
+    assert(approx(stake.pendingRewardsValue, juniorInterest / 2, juniorInterest * 1e-3), `rewards $${stake.pendingRewardsValue} vs $${juniorInterest / 2}`);
+    assert(stake.pendingRewardsValue > 0, 'stake should earn rewards');
+
+    const claim = await junior.claimRewards(MARKET, false);
+    assert(claim.shares === stake.pendingRewards && approx(claim.value, stake.pendingRewardsValue, 1e-6), `claim ${JSON.stringify(claim)}`);
+    const vaultPosition = await sdk.getSeniorVault().getPosition();
+    assert(vaultPosition.shares === claim.shares, 'claimed rewards should be fUSDC in the wallet');
+    assert((await junior.getStake(MARKET, false)).pendingRewards === 0, 'pending rewards should reset');
+
+    try {
+      await junior.claimRewards(MARKET, false);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.message.includes('No junior rewards'), `got ${error.message}`);
+    }
+  });
+
+  await runTest('Withdrawals are limited by the stake and tokens not lent out', async () => {
+    const { sdk, ledger, protocol, noTokenId } = createHarness({ marketConfig: { juniorNo: 0 } });
+    ledger.mintCtf(BORROWER, noTokenId, 20_000_000000n);
+    const junior = sdk.getJuniorStaking();
+    await junior.stake(MARKET, false, 20_000);
+
+    try {
+      await junior.withdraw(MARKET, false, 25_000);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.code === 'INSUFFICIENT_BALANCE', `got ${error.message}`);
+    }
+
+    const position = await sdk.openTargetPosition(baseParams());
+    const lent = escrowed(protocol, position.legIds);
+    try {
+      await junior.withdraw(MARKET, false, 20_000);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError && error.code === 'INSUFFICIENT_POOL_LIQUIDITY' && error.retryable, `got ${error.message}`);
+    }
+
+    const withdrawal = await junior.withdraw(MARKET, false, 20_000 - lent);
+    assert(withdrawal.tokens === 20_000 - lent, `withdrew ${withdrawal.tokens}`);
+    assert(ledger.ctfBalanceOf(BORROWER, noTokenId) === BigInt(Math.round((20_000 - lent) * 1e6)), 'tokens should return to the wallet');
+    assert((await junior.getStake(MARKET, false)).staked === lent, 'lent tokens should stay staked');
+  });
+
+  await runTest('Yield report prices quoted rJ at the pool utilization', async () => {
+    const { sdk, protocol, noTokenId } = createHarness({ marketConfig: { juniorNo: 100_000 } });
+    const junior = sdk.getJuniorStaking();
+
+    const idle = await junior.getYieldReport(MARKET, false, { termSeconds: 3600 });
+    assert(idle.utilization === 0 && idle.apr === 0 && idle.tokenPrice === 0.59, `idle report ${JSON.stringify(idle)}`);
+    assert(approx(idle.maxApr, idle.F * idle.rJ / 0.59, 1e-12), `maxApr ${idle.maxApr}`);
+
+    const position = await sdk.openTargetPosition(baseParams());
+    const report = await junior.getYieldReport(MARKET, false, { termSeconds: 3600, tokenPrice: 0.5 });
+    const quote = protocol.quote(1, 3600, MARKET, true);
+    const lent = escrowed(protocol, position.legIds);
+    assert(report.positionId === noTokenId && report.lent === lent, `lent ${report.lent} vs ${lent}`);
+    assert(approx(report.utilization, lent / 100_000, 1e-9), `utilization ${report.utilization}`);
+    assert(report.F === Number(quote.F) / 1e18 && report.rJ === Number(quote.rJ) / 1e18, 'F and rJ should come from the quote');
+    assert(report.rJ > idle.rJ, 'rJ should rise with utilization');
+    assert(approx(report.apr, report.F * report.rJ * report.utilization / 0.5, 1e-12), `apr ${report.apr}`);
+  });
+
+  await runTest('Bad inputs and missing prices surface as typed errors', async () => {
+    const { sdk, exchange, noTokenId } = createHarness();
+    const junior = sdk.getJuniorStaking();
+
+    for (const tokens of [0, -1, NaN]) {
+      try {
+        await junior.stake(MARKET, false, tokens);
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        assert(error instanceof ValidationError && error.code === 'INVALID_PARAMS', `tokens ${tokens}: got ${error.message}`);
+      }
+    }
+    for (const options of [{ termSeconds: 0 }, { tokenPrice: 1.2 }]) {
+      try {
+        await junior.getYieldReport(MARKET, false, options);
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        assert(error instanceof ValidationError, `${JSON.stringify(options)}: got ${error.message}`);
+      }
+    }
+
+    exchange.setOrderBook(noTokenId, { bids: [], asks: [{ price: 0.60, size: 1000 }] });
+    try {
+      await junior.getYieldReport(MARKET, false);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof PolymarketError && error.code === 'NO_BOOK_LIQUIDITY', `got ${error.message}`);
+    }
+
+    try {
+      await junior.getStake(ethers.constants.HashZero, true);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError && error.code === 'MARKET_INVALID', `got ${error.message}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
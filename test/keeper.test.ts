@@ -0,0 +1,141 @@
+/**
+ * Validation: Keeper
+ *
+ * The keeper tracks open legs from logs, closes those past their term or
+ * on a resolved market in bounded batches, backs off failed closes and
+ * keeps the PositionStore in step. Settled legs pay their surplus to the
+ * borrower.
+ *
+ * Usage:
+ *   npx ts-node test/keeper.test.ts
+ */
+
+import { ethers } from 'ethers';
+import { InMemoryPositionStore, KeeperRunReport, ValidationError } from '../src';
+import { createHarness, baseParams, runTest, assert, finish, usdc, MARKET, BORROWER } from './harness';
+
+const OTHER = ethers.Wallet.createRandom().address;
+
+/**
+ * Harness with an open position for BORROWER and one leg for OTHER
+ */
+async function keeperHarness(sdkOptions = {}) {
+  const store = new InMemoryPositionStore();
+  const harness = createHarness({ sdkOptions: { store, ...sdkOptions } });
+  const position = await harness.sdk.openTargetPosition(baseParams());
+
+  harness.ledger.mintCtf(OTHER, harness.yesTokenId, 100_000_000n);
+  const other = harness.protocol.connect(OTHER);
+  await other.setupApprovals();
+  const otherLeg = await other.open(100, 7200, MARKET, true);
+
+  return { ...harness, store, position, otherLegId: otherLeg.legId };
+}
+
+async function main() {
+  console.log('\n=== KEEPER TESTS ===\n');
+
+  await runTest('Closes expired legs protocol-wide and records them', async () => {
+    const { sdk, ledger, store, position, otherLegId } = await keeperHarness();
+    const keeper = sdk.createKeeper();
+
+    let report = await keeper.runOnce();
+    assert(report.tracked === position.legIds.length + 1 && report.due === 0, `tracked ${report.tracked}, due ${report.due}`);
+
+    ledger.advanceTime(3600);
+    const before = ledger.usdcBalanceOf(BORROWER);
+    report = await keeper.runOnce();
+    const closed = report.closed.map(leg => leg.legId);
+    assert(closed.length === position.legIds.length && !closed.includes(otherLegId), `closed ${closed}`);
+    assert(report.closed.every(leg => leg.reason === 'expired' && leg.gasCost! > 0), 'closes should be expired with receipt gas');
+    assert(ledger.usdcBalanceOf(BORROWER) > before, 'borrower should receive the settlement surplus');
+
+    const record = await store.get(position.positionId!);
+    assert(record!.status === 'closed' && record!.legs.every(leg => !leg.open && leg.closeTxHash), 'store not updated');
+
+    ledger.advanceTime(3600);
+    report = await keeper.runOnce();
+    assert(report.closed.length === 1 && report.closed[0].borrower === OTHER, 'other borrower leg should close at its own expiry');
+    report = await keeper.runOnce();
+    assert(report.tracked === 0, `nothing left to track, got ${report.tracked}`);
+  });
+
+  await runTest('Borrower filter and resolved markets', async () => {
+    const { sdk, protocol, position } = await keeperHarness();
+    const keeper = sdk.createKeeper({ borrower: OTHER });
+
+    protocol.resolveMarket(MARKET);
+    const report = await keeper.runOnce();
+    assert(report.tracked === 1 && report.closed.length === 1, `tracked ${report.tracked}, closed ${report.closed.length}`);
+    assert(report.closed[0].reason === 'resolved' && report.closed[0].borrower === OTHER, `reason ${report.closed[0].reason}`);
+    assert(position.legIds.length > 0, 'borrower legs left alone');
+  });
+
+  await runTest('Batches are bounded by leg count and gas', async () => {
+    const { sdk, ledger, position } = await keeperHarness();
+    ledger.advanceTime(7200);
+
+    const byCount = await sdk.createKeeper({ maxLegsPerBatch: 2 }).runOnce();
+    assert(byCount.closed.length === 2 && byCount.deferred.length === position.legIds.length - 1, `closed ${byCount.closed.length}, deferred ${byCount.deferred.length}`);
+
+    const byGas = await sdk.createKeeper({ maxGasPerBatch: 400_000 }).runOnce(); // 170k per close
+    assert(byGas.closed.length === 2, `closed ${byGas.closed.length} within 400k gas`);
+  });
+
+  await runTest('Failed closes back off, then retry', async () => {
+    const { sdk, ledger, protocol } = await keeperHarness();
+    const keeper = sdk.createKeeper({ borrower: OTHER, retryBackoffMs: 60_000 });
+    ledger.advanceTime(7200);
+
+    protocol.paused = true;
+    let report = await keeper.runOnce();
+    assert(report.failed.length === 1 && report.failed[0].code === 'PROTOCOL_PAUSED' && report.failed[0].attempts === 1, `failed ${JSON.stringify(report.failed[0]?.code)}`);
+    assert(report.failed[0].retryAt >= Date.now() + 59_000, 'retry should wait the backoff');
+
+    protocol.paused = false;
+    report = await keeper.runOnce();
+    assert(report.deferred.length === 1 && report.closed.length === 0, 'leg should wait out its backoff');
+
+    const eager = sdk.createKeeper({ borrower: OTHER, retryBackoffMs: 0 });
+    report = await eager.runOnce();
+    assert(report.closed.length === 1, 'leg should close once retried');
+  });
+
+  await runTest('Gas price cap holds closes', async () => {
+    const { sdk, ledger, position } = await keeperHarness();
+    ledger.advanceTime(7200);
+    const report = await sdk.createKeeper({ maxGasPriceGwei: 10 }).runOnce(); // In-memory gas is 30 gwei
+    assert(report.closed.length === 0 && report.deferred.length === position.legIds.length + 1, `deferred ${report.deferred.length}`);
+    assert(report.skippedReason!.includes('30.0 gwei'), `reason ${report.skippedReason}`);
+  });
+
+  await runTest('Long-lived keeper settles legs as they expire', async () => {
+    const { sdk, ledger, position } = await keeperHarness();
+    const reports: KeeperRunReport[] = [];
+    const keeper = sdk.createKeeper({ intervalMs: 5, onReport: report => reports.push(report) });
+    keeper.start();
+
+    ledger.advanceTime(3600);
+    const start = Date.now();
+    while (reports.reduce((sum, report) => sum + report.closed.length, 0) < position.legIds.length) {
+      if (Date.now() - start > 2000) throw new Error('keeper did not close the legs');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    keeper.stop();
+    assert(!keeper.isRunning, 'keeper should stop');
+
+    try {
+      sdk.createKeeper({ maxLegsPerBatch: 0 });
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError, `got ${error.message}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
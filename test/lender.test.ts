@@ -0,0 +1,130 @@
+/**
+ * Validation: Senior vault lender API
+ *
+ * Deposits mint fUSDC at the share price (approving USDC first when
+ * needed), interest repaid by borrowers raises that price, and
+ * withdrawals are limited to the lender's shares and the USDC the pool
+ * has not lent out.
+ *
+ * Usage:
+ *   npx ts-node test/lender.test.ts
+ */
+
+import { ProtocolError, ValidationError } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish, BORROWER } from './harness';
+
+async function main() {
+  console.log('\n=== LENDER TESTS ===\n');
+
+  await runTest('Deposit approves once and mints fUSDC at the share price', async () => {
+    const { sdk, ledger } = createHarness({ walletUSDC: 3000 });
+    const vault = sdk.getSeniorVault();
+
+    assert(await vault.previewDeposit(1000) === 1000, 'empty-interest vault should mint 1:1');
+    const first = await vault.deposit(1000);
+    assert(first.shares === 1000 && first.assets === 1000, `unexpected deposit ${JSON.stringify(first)}`);
+    assert(first.approvalTxHashes.length === 1, 'first deposit should approve USDC only');
+
+    const second = await vault.deposit(500);
+    assert(second.approvalTxHashes.length === 0, 'approved wallet should not approve again');
+    assert(Number(ledger.usdcBalanceOf(BORROWER)) / 1e6 === 1500, 'wallet should pay both deposits');
+
+    const position = await vault.getPosition();
+    assert(position.account === BORROWER && position.shares === 1500, `position ${JSON.stringify(position)}`);
+    assert(position.value === 1500 && position.maxWithdraw === 1500 && position.maxRedeem === 1500, 'whole position should be withdrawable');
+    const stats = await vault.getStats();
+    assert(stats.totalAssets === 1_001_500 && stats.sharePrice === 1 && stats.utilization === 0, `stats ${JSON.stringify(stats)}`);
+  });
+
+  await runTest('Legs draw on the pool and show as utilization', async () => {
+    const { sdk, protocol } = createHarness();
+    await sdk.openTargetPosition(baseParams());
+    const stats = await sdk.getSeniorVault().getStats();
+
+    assert(stats.borrowed > 0 && approx(stats.borrowed + stats.idle, stats.totalAssets, 1e-6), `borrowed ${stats.borrowed}`);
+    assert(approx(stats.utilization, protocol.seniorUtilization(), 1e-12), `utilization ${stats.utilization}`);
+    assert(approx(await sdk.getSeniorVault().utilization(), stats.borrowed / stats.totalAssets, 1e-12), 'utilization() should match getStats()');
+  });
+
+  await runTest('Repaid interest raises the share price and redemptions', async () => {
+    const { sdk, ledger } = createHarness({ walletUSDC: 2000, protocolConfig: { seniorLiquidityUSDC: 20_000 } });
+    const vault = sdk.getSeniorVault();
+    await vault.deposit(1000);
+
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.advanceTime(3601);
+    const report = await sdk.createKeeper().runOnce();
+    assert(report.closed.length === position.legIds.length, `keeper closed ${report.closed.length}`);
+
+    const price = await vault.sharePrice();
+    assert(price > 1, `share price ${price} should rise with repaid interest`);
+    const preview = await vault.previewRedeem(1000);
+    assert(approx(preview, 1000 * price, 1e-6), `preview ${preview} vs ${1000 * price}`);
+
+    const redeemed = await vault.redeem(1000);
+    assert(redeemed.assets === preview && redeemed.assets > 1000, `redeemed ${redeemed.assets}`);
+    assert((await vault.getPosition()).shares === 0, 'shares should be burned');
+  });
+
+  await runTest('Withdrawals are limited by shares held and idle USDC', async () => {
+    const { sdk } = createHarness({ walletUSDC: 2000, protocolConfig: { seniorLiquidityUSDC: 4000 } });
+    const vault = sdk.getSeniorVault();
+    await vault.deposit(1000);
+
+    try {
+      await vault.withdraw(1500);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.code === 'INSUFFICIENT_BALANCE', `got ${error.message}`);
+    }
+
+    await sdk.openTargetPosition(baseParams());
+    const { maxWithdraw } = await vault.getPosition();
+    assert(maxWithdraw < 1000, `maxWithdraw ${maxWithdraw} should be capped by idle USDC`);
+    try {
+      await vault.withdraw(1000);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError && error.code === 'INSUFFICIENT_POOL_LIQUIDITY' && error.retryable, `got ${error.message}`);
+    }
+
+    const partial = await vault.withdraw(maxWithdraw);
+    assert(partial.assets === maxWithdraw && partial.shares <= 1000, `partial withdrawal ${JSON.stringify(partial)}`);
+    assert((await vault.getPosition()).maxWithdraw === 0, 'idle USDC should be used up');
+  });
+
+  await runTest('Bad amounts and reverts surface as typed errors', async () => {
+    const { sdk, protocol } = createHarness();
+    const vault = sdk.getSeniorVault();
+
+    for (const amount of [0, -5, NaN]) {
+      try {
+        await vault.deposit(amount);
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        assert(error instanceof ValidationError && error.code === 'INVALID_PARAMS', `amount ${amount}: got ${error.message}`);
+      }
+    }
+    try {
+      await vault.deposit(5000);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.code === 'INSUFFICIENT_BALANCE', `got ${error.message}`);
+    }
+
+    protocol.paused = true;
+    try {
+      await vault.deposit(100);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError && error.code === 'PROTOCOL_PAUSED', `got ${error.message}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,131 @@
+/**
+ * Validation: Target-leverage entry
+ *
+ * simulateLeveragePosition / openLeveragePosition take a leverage (or
+ * exposure) and a term instead of a price target. The loop count and the
+ * size of the last loop are planned so the loops spend leverage * capital
+ * on tokens; requests above 1/(1-F) are rejected. Execution, resume and
+ * reporting are openTargetPosition's.
+ *
+ * Usage:
+ *   npx ts-node test/leverage.test.ts
+ */
+
+import { InMemoryPositionStore, LeveragePositionParams, ValidationError } from '../src';
+import { createHarness, crashOnCall, runTest, assert, approx, finish, MARKET, BORROWER } from './harness';
+
+// Harness quotes F = 0.38 (price less a 5% haircut), so leverage is capped at 1/(1-F) ≈ 1.61x
+function leverageParams(overrides: Partial<LeveragePositionParams> = {}): LeveragePositionParams {
+  return {
+    marketConditionId: MARKET,
+    longYes: true,
+    currentPrice: 0.40,
+    leverage: 1.5,
+    termSeconds: 2 * 24 * 3600,
+    capitalUSDC: 1000,
+    maxSlippageBps: 0,
+    retryDelayMs: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * ValidationError message thrown by `call`
+ */
+async function rejected(call: () => Promise<unknown>): Promise<string> {
+  try {
+    await call();
+  } catch (error: any) {
+    assert(error instanceof ValidationError, `expected ValidationError, got ${error.message}`);
+    return error.message;
+  }
+  throw new Error('Should have thrown');
+}
+
+async function main() {
+  console.log('\n=== LEVERAGE MODE TESTS ===\n');
+
+  await runTest('Simulation plans full loops and a smaller last loop', async () => {
+    const { sdk } = createHarness();
+    const simulation = await sdk.simulateLeveragePosition(leverageParams({ leverage: 1.6 }));
+    const loops = simulation.simulation!.loops.map(loop => loop.usdcIn);
+
+    // Loop i spends (F / price)^i = 0.95^i of the capital until the last one tops up to 1.6x
+    assert(loops.length === 2 && approx(loops[0], 1000, 1e-6) && approx(loops[1], 600, 1e-6), `loop sizes ${loops}`);
+    assert(approx(simulation.totalExposure * 0.40, 1600, 1e-6), `exposure ${simulation.totalExposure}`);
+    assert(simulation.params.targetLeverage === 1.6 && simulation.params.timeframeSeconds === 2 * 24 * 3600, 'params not mapped');
+    assert(simulation.params.targetPrice === 0.40, 'targetPrice should default to currentPrice');
+  });
+
+  await runTest('Open hits the requested leverage exactly', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openLeveragePosition(leverageParams());
+
+    assert(position.legIds.length === 2 && approx(position.totalExposure * 0.40, 1500, 1e-6), `exposure ${position.totalExposure}`);
+    const execution = position.execution!;
+    assert(execution.status === 'complete' && execution.loopsExecuted === 2, `execution ${JSON.stringify(execution)}`);
+    assert(approx(execution.leverageAchieved, 1.5, 1e-9) && approx(execution.leveragePlanned, 1.5, 1e-9),
+      `planned ${execution.leveragePlanned}, achieved ${execution.leverageAchieved} for 1.5x`);
+
+    const record = await sdk.getPositionStore().get(position.positionId!);
+    assert(record!.status === 'open' && record!.params.targetLeverage === 1.5, 'record should keep the leverage request');
+  });
+
+  await runTest('Exposure in tokens maps to leverage at currentPrice', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openLeveragePosition(leverageParams({ leverage: undefined, exposure: 3000, targetPrice: 0.44 }));
+    assert(approx(position.totalExposure, 3000, 1e-6), `exposure ${position.totalExposure}`);
+    assert(approx(position.params.targetLeverage!, 1.2, 1e-12), `leverage ${position.params.targetLeverage}`);
+    assert(position.pnl.atTarget > 0, 'targetPrice should drive the PnL projection');
+  });
+
+  await runTest('LONG NO plans loops at the NO price', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openLeveragePosition(leverageParams({ longYes: false, leverage: 2 }));
+
+    // NO costs 0.60 and borrows F = 0.57, so loops spend 1, 0.95 and the last 0.05 of the capital
+    const execution = position.execution!;
+    assert(execution.status === 'complete' && execution.loopsExecuted === 3, `execution ${JSON.stringify(execution)}`);
+    assert(approx(execution.leverageAchieved, 2, 1e-9) && approx(execution.leveragePlanned, 2, 1e-9),
+      `planned ${execution.leveragePlanned}, achieved ${execution.leverageAchieved} for 2x`);
+    assert(approx(position.totalExposure * 0.60, 2000, 1e-6), `exposure ${position.totalExposure}`);
+  });
+
+  await runTest('Running every loop short of the target reports stopped', async () => {
+    // Asks at 0.65 against a 0.40 plan: the first buy gets fewer tokens, so the leg lends too little for the second
+    const { sdk } = createHarness({ asks: [{ price: 0.65, size: 100000 }] });
+    const position = await sdk.openLeveragePosition(leverageParams({ leverage: 1.61 }));
+
+    const execution = position.execution!;
+    assert(execution.loopsExecuted === execution.loopsPlanned && execution.leverageAchieved < 1.6, `execution ${JSON.stringify(execution)}`);
+    assert(execution.status === 'stopped' && !execution.error, `status ${execution.status}`);
+  });
+
+  await runTest('Resumed run stops at the target', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.protocol.connect(BORROWER), 'open', 1);
+    harness.connect({ store, protocol: wrapped }).openLeveragePosition(leverageParams()).catch(() => undefined);
+    await crashed;
+
+    const [interrupted] = await harness.sdk.getInterruptedOpens();
+    const position = await harness.sdk.resumeOpen(interrupted.id);
+    assert(position.execution!.status === 'complete' && approx(position.totalExposure * 0.40, 1500, 1e-6), `exposure ${position.totalExposure}`);
+  });
+
+  await runTest('Leverage above 1/(1-F) and malformed requests are rejected', async () => {
+    const { sdk } = createHarness();
+    assert((await rejected(() => sdk.openLeveragePosition(leverageParams({ leverage: 3 })))).includes('1/(1-F) = 1.61x'), 'cap not enforced');
+    assert((await rejected(() => sdk.simulateLeveragePosition(leverageParams({ exposure: 3000 })))).includes('exactly one'), 'both accepted');
+    assert((await rejected(() => sdk.simulateLeveragePosition(leverageParams({ leverage: 0.5 })))).includes('must be >= 1'), 'leverage below 1 accepted');
+    assert((await rejected(() => sdk.simulateLeveragePosition(leverageParams({ leverage: undefined, exposure: 1000 })))).includes('capital alone'), 'exposure below capital accepted');
+    assert((await rejected(() => sdk.simulateLeveragePosition(leverageParams({ targetPrice: 0.30 })))).includes('price direction'), 'wrong-way target accepted');
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+/**
+ * Validation: Injectable logger
+ *
+ * SDK diagnostics go through the configured Logger with structured fields;
+ * the default logger is silent.
+ *
+ * Usage:
+ *   npx ts-node test/logger.test.ts
+ */
+
+import { consoleLogger, LogFields, Logger, LogLevel } from '../src';
+import { createHarness, baseParams, runTest, assert, finish, BORROWER } from './harness';
+
+interface Entry {
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+}
+
+function captureLogger(): { logger: Logger; entries: Entry[] } {
+  const entries: Entry[] = [];
+  const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    entries.push({ level, message, fields });
+  };
+  return {
+    logger: { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') },
+    entries,
+  };
+}
+
+/**
+ * Collect console output while `fn` runs
+ */
+async function captureConsole(fn: () => Promise<void>): Promise<string[]> {
+  const lines: string[] = [];
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  console.log = console.warn = console.error = (...args: any[]) => { lines.push(args.join(' ')); };
+  try {
+    await fn();
+  } finally {
+    Object.assign(console, original);
+  }
+  return lines;
+}
+
+async function main() {
+  console.log('\n=== LOGGER TESTS ===\n');
+
+  await runTest('Order and leg diagnostics carry structured fields', async () => {
+    const { logger, entries } = captureLogger();
+    const { sdk, exchange, ledger, yesTokenId } = createHarness({ sdkOptions: { logger } });
+    exchange.rejectNextOrder('not enough balance / allowance');
+    const position = await sdk.openTargetPosition(baseParams());
+
+    const failed = entries.find(entry => entry.level === 'warn' && entry.fields.component === 'Polymarket');
+    assert(failed !== undefined && failed.fields.attempt === 1, 'failed attempt not logged with its attempt number');
+    assert(failed!.fields.error!.includes('not enough balance'), `unexpected error field: ${failed!.fields.error}`);
+
+    const filled = entries.filter(entry => entry.message.startsWith('Order filled'));
+    assert(filled.length === position.legIds.length, `expected ${position.legIds.length} fills, got ${filled.length}`);
+    assert(filled.every(entry => entry.fields.tokenId === yesTokenId && typeof entry.fields.orderId === 'string'), 'fill fields missing');
+
+    ledger.mintUsdc(BORROWER, 150n * 1_000_000n);
+    await sdk.unwindPosition(position.legIds);
+    const unwound = entries.filter(entry => entry.fields.component === 'Unwind');
+    assert(unwound.map(entry => entry.fields.legId).join() === [...position.legIds].reverse().join(), 'unwind entries should carry leg IDs');
+  });
+
+  await runTest('Simulation logs through the logger', async () => {
+    const { logger, entries } = captureLogger();
+    const { sdk } = createHarness({ sdkOptions: { logger } });
+    await sdk.simulatePosition(baseParams());
+
+    const simulation = entries.filter(entry => entry.fields.component === 'Simulation');
+    assert(simulation.some(entry => entry.fields.conditionId === baseParams().marketConditionId), 'conditionId missing');
+    assert(simulation.some(entry => entry.level === 'debug' && entry.message.startsWith('Loop')), 'per-loop detail should be debug');
+  });
+
+  await runTest('Default logger is silent', async () => {
+    const { sdk, exchange } = createHarness();
+    exchange.rejectNextOrder('not enough balance / allowance');
+    const lines = await captureConsole(async () => {
+      await sdk.simulatePosition(baseParams());
+      await sdk.openTargetPosition(baseParams());
+    });
+    assert(lines.length === 0, `unexpected console output: ${lines[0]}`);
+  });
+
+  await runTest('consoleLogger prefixes the component and honours minLevel', async () => {
+    const lines = await captureConsole(async () => {
+      const logger = consoleLogger('warn');
+      logger.info('dropped', { component: 'Polymarket' });
+      logger.warn('Order timed out', { component: 'Polymarket', orderId: 'order-1' });
+    });
+    assert(lines.length === 1, `expected one line, got ${lines.length}`);
+    assert(lines[0].startsWith('[Polymarket] Order timed out'), `unexpected line: ${lines[0]}`);
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
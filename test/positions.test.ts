@@ -0,0 +1,107 @@
+/**
+ * Validation: getPositions
+ *
+ * Rebuilds positions from LegOpened/LegClosed logs with paging, grouping
+ * and open/closed status, without the legIds openTargetPosition returned.
+ *
+ * Usage:
+ *   npx ts-node test/positions.test.ts
+ */
+
+import { ProtocolError } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish, MARKET, BORROWER } from './harness';
+
+async function main() {
+  console.log('\n=== POSITION RECOVERY TESTS ===\n');
+
+  await runTest('Recovers an open position from logs', async () => {
+    const { sdk } = createHarness();
+    const opened = await sdk.openTargetPosition(baseParams());
+
+    const positions = await sdk.getPositions();
+    assert(positions.length === 1, `expected 1 position, got ${positions.length}`);
+
+    const position = positions[0];
+    assert(position.status === 'open', `status ${position.status}`);
+    assert(position.conditionId === MARKET && position.longYes, 'market or side wrong');
+    assert(position.legIds.join() === opened.legIds.join(), 'leg IDs not recovered');
+    assert(position.legs.every(leg => leg.open && leg.openTxHash.startsWith('0x')), 'leg details missing');
+    assert(approx(position.totalExposure, position.legs.reduce((sum, leg) => sum + Number(leg.data.sets), 0)), 'exposure mismatch');
+    assert(position.autoCloseTime === opened.autoCloseTime, 'auto-close time mismatch');
+    assert(position.capitalDeployed > 800 && position.capitalDeployed < 1000, `capital estimate ${position.capitalDeployed}`);
+  });
+
+  await runTest('Groups legs by open time and tracks closes', async () => {
+    const { sdk, ledger } = createHarness({ walletUSDC: 3000 });
+    const first = await sdk.openTargetPosition(baseParams({ capitalUSDC: 500 }));
+    ledger.advanceTime(1800);
+    const second = await sdk.openTargetPosition(baseParams({ capitalUSDC: 500 }));
+
+    ledger.mintUsdc(BORROWER, 1000n * 1_000_000n); // Spread and interest buffer
+    ledger.advanceTime(60);
+    await sdk.reducePosition(second, { percent: 30 });
+    await sdk.unwindPosition(first.legIds, { maxSlippageBps: 500 }); // Bids at 0.39 are used up by then
+
+    const positions = await sdk.getPositions();
+    assert(positions.length === 2, `expected 2 positions, got ${positions.length}`);
+    assert(positions[0].status === 'closed' && positions[0].legIds.length === 0, 'first position should be closed');
+    assert(positions[0].legs.every(leg => !leg.open && leg.closeTxHash !== undefined), 'closes not recorded');
+    assert(positions[1].status === 'partial', `second position status ${positions[1].status}`);
+    assert(positions[1].legs.length === second.legIds.length, 'second position legs not grouped');
+    assert(positions[1].legIds.every(legId => second.legIds.includes(legId)), 'open legs wrong');
+
+    const openOnly = await sdk.getPositions(BORROWER, { includeClosed: false });
+    assert(openOnly.length === 1 && openOnly[0].status === 'partial', 'includeClosed=false should drop closed positions');
+  });
+
+  await runTest('Pages log queries for range-limited RPCs', async () => {
+    const { sdk, ledger } = createHarness({ protocolConfig: { maxLogBlockRange: 5 } });
+    await sdk.openTargetPosition(baseParams());
+    ledger.advanceTime(60);
+
+    try {
+      await sdk.getPositions();
+      throw new Error('Unpaged query should exceed the RPC range');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError, `expected ProtocolError, got ${error.constructor.name}: ${error.message}`);
+    }
+
+    const paged = await sdk.getPositions(undefined, { blockRange: 5 });
+    assert(paged.length === 1 && paged[0].legIds.length > 1, 'paged query should recover the position');
+  });
+
+  await runTest('Block range bounds the scan', async () => {
+    const { sdk, ledger, protocol } = createHarness({ walletUSDC: 3000 });
+    await sdk.openTargetPosition(baseParams({ capitalUSDC: 500 }));
+    ledger.advanceTime(1800);
+    const fromBlock = ledger.blockNumber + 1;
+    const second = await sdk.openTargetPosition(baseParams({ capitalUSDC: 500 }));
+
+    const positions = await sdk.getPositions(undefined, { fromBlock });
+    assert(positions.length === 1 && positions[0].legIds.join() === second.legIds.join(), 'fromBlock not honoured');
+
+    const opens = protocol.getEvents().filter(event => event.name === 'LegOpened');
+    const early = await sdk.getPositions(undefined, { toBlock: opens[0].blockNumber });
+    assert(early.length === 1 && early[0].legIds.length === 1, 'toBlock not honoured');
+  });
+
+  await runTest('Ignores other borrowers', async () => {
+    const { sdk, ledger, protocol, yesTokenId } = createHarness();
+    const other = '0x00000000000000000000000000000000000000cc';
+    const backend = protocol.connect(other);
+    ledger.mintCtf(other, yesTokenId, 100n * 1_000_000n);
+    await backend.setupApprovals();
+    await backend.verifyMarket(MARKET);
+    await backend.open(100, 3600, MARKET, true);
+
+    assert((await sdk.getPositions()).length === 0, 'other borrower legs included');
+    assert((await sdk.getPositions(other)).length === 1, 'other borrower position not found');
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
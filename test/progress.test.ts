@@ -0,0 +1,76 @@
+/**
+ * Validation: onProgress events
+ *
+ * openTargetPosition reports approvals, each loop's order and leg, retries,
+ * partial stops and completion through the onProgress callback.
+ *
+ * Usage:
+ *   npx ts-node test/progress.test.ts
+ */
+
+import { OpenProgressEvent } from '../src';
+import { createHarness, baseParams, runTest, assert, finish } from './harness';
+
+async function main() {
+  console.log('\n=== PROGRESS EVENT TESTS ===\n');
+
+  await runTest('Full run reports every step in order', async () => {
+    const { sdk } = createHarness();
+    const events: OpenProgressEvent[] = [];
+    const position = await sdk.openTargetPosition(baseParams(), { onProgress: event => events.push(event) });
+
+    const loopSteps = ['loopStarted', 'orderPlaced', 'orderFilled', 'legOpened'];
+    const expected = ['approvals', ...position.legIds.flatMap(() => loopSteps), 'completed'];
+    assert(events.map(event => event.type).join() === expected.join(), `unexpected sequence: ${events.map(event => event.type)}`);
+
+    const legs = events.filter((event): event is Extract<OpenProgressEvent, { type: 'legOpened' }> => event.type === 'legOpened');
+    assert(legs.map(event => event.legId).join() === position.legIds.join(), 'leg IDs do not match the position');
+    assert(legs.every((event, i) => event.loop === i && event.txHash.startsWith('0x') && event.sets > 0), 'leg details missing');
+
+    const completed = events[events.length - 1] as Extract<OpenProgressEvent, { type: 'completed' }>;
+    assert(completed.position === position && completed.executionId === position.positionId, 'completed event should carry the position');
+  });
+
+  await runTest('Rejected order reports a retry', async () => {
+    const { sdk, exchange } = createHarness();
+    exchange.rejectNextOrder('not enough balance / allowance');
+    const events: OpenProgressEvent[] = [];
+    await sdk.openTargetPosition(baseParams(), { onProgress: event => events.push(event) });
+
+    const retry = events.find(event => event.type === 'orderRetry') as Extract<OpenProgressEvent, { type: 'orderRetry' }>;
+    assert(retry !== undefined && retry.loop === 0 && retry.attempt === 1, 'retry not reported');
+    assert(retry.error.includes('not enough balance'), `unexpected error: ${retry.error}`);
+    assert(events.findIndex(event => event.type === 'orderRetry') < events.findIndex(event => event.type === 'orderFilled'), 'retry should precede the fill');
+  });
+
+  await runTest('Failed leg after the first reports a partial stop', async () => {
+    const { sdk, protocol } = createHarness();
+    const events: OpenProgressEvent[] = [];
+    const position = await sdk.openTargetPosition(baseParams(), {
+      onProgress: event => {
+        events.push(event);
+        if (event.type === 'legOpened' && event.loop === 1) protocol.paused = true;
+      },
+    });
+
+    const stop = events.find(event => event.type === 'partialStop') as Extract<OpenProgressEvent, { type: 'partialStop' }>;
+    assert(stop !== undefined && stop.loop === 2 && stop.legsOpened === 2, 'partial stop not reported');
+    assert(stop.reason.includes('paused'), `unexpected reason: ${stop.reason}`);
+    assert(position.legIds.length === 2 && events[events.length - 1].type === 'completed', 'partial position should still complete');
+  });
+
+  await runTest('Throwing listener does not interrupt the loop', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams(), {
+      onProgress: () => { throw new Error('UI unmounted'); },
+    });
+    assert(position.legIds.length === 5, `expected 5 legs, got ${position.legIds.length}`);
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,190 @@
+/**
+ * Validation: In-memory protocol and full borrower lifecycle
+ *
+ * Runs quote/open/close against InMemoryProtocol directly, then the whole
+ * SDK flow (simulate → open → close) offline with InMemoryExchange.
+ *
+ * Usage:
+ *   npx ts-node test/protocol.test.ts
+ */
+
+import { InMemoryLedger, InMemoryProtocol, ProtocolError } from '../src';
+import { createHarness, baseParams, usdc, runTest, assert, approx, finish, MARKET, BORROWER } from './harness';
+
+const YEAR = 365 * 24 * 3600;
+
+function newProtocol(): { protocol: InMemoryProtocol; ledger: InMemoryLedger } {
+  const ledger = new InMemoryLedger(1_700_000_000);
+  const protocol = new InMemoryProtocol({ ledger, seniorLiquidityUSDC: 100_000 });
+  protocol.addMarket(MARKET, { yesPrice: 0.99 }); // High price so F is bound by runway, not price
+  return { protocol, ledger };
+}
+
+async function main() {
+  console.log('\n=== IN-MEMORY PROTOCOL TESTS ===\n');
+
+  await runTest('Quote keeps debt at expiry inside collateral', async () => {
+    const { protocol } = newProtocol();
+    for (const term of [3600, 7 * 24 * 3600, 365 * 24 * 3600]) {
+      const quote = protocol.quote(1, term, MARKET, true);
+      const F = Number(quote.F) / 1e18;
+      const R = (Number(quote.rS) + Number(quote.rJ)) / 1e18;
+      assert(quote.converged, `quote did not converge for term ${term}`);
+      assert(F > 0 && F < 1, `F out of range: ${F}`);
+      assert(F * (1 + R * term / YEAR) <= 0.99 + 1e-9, `debt exceeds collateral for term ${term}`);
+    }
+
+    const short = Number(protocol.quote(1, 3600, MARKET, true).F);
+    const long = Number(protocol.quote(1, 365 * 24 * 3600, MARKET, true).F);
+    assert(long < short, 'longer terms should get a lower F');
+  });
+
+  await runTest('Senior rate rises with utilization', async () => {
+    const { protocol } = newProtocol();
+    const small = protocol.quote(100, 3600, MARKET, true);
+    const large = protocol.quote(100_000, 3600, MARKET, true);
+    assert(large.rS > small.rS, 'rS should increase with borrowed size');
+  });
+
+  await runTest('Open lends USDC and escrows tokens', async () => {
+    const { protocol, ledger } = newProtocol();
+    const backend = protocol.connect(BORROWER);
+    const yes = protocol.yesPositionId(MARKET);
+    ledger.mintCtf(BORROWER, yes, 1000n * 1_000_000n);
+
+    await backend.setupApprovals();
+    await backend.verifyMarket(MARKET);
+    const { legId, txHash } = await backend.open(1000, 3600, MARKET, true);
+
+    const leg = await backend.legs(legId);
+    const lent = usdc(await backend.usdcBalanceOf(BORROWER));
+    assert(leg.sets === 1000n && leg.borrower === BORROWER, 'leg not recorded');
+    assert(approx(lent, 1000 * Number(leg.F_e18) / 1e18, 1e-5), `wrong USDC lent: ${lent}`);
+    assert(ledger.ctfBalanceOf(BORROWER, yes) === 0n, 'long tokens not escrowed');
+
+    const events = protocol.getEvents();
+    assert(events.length === 1 && events[0].name === 'LegOpened' && events[0].txHash === txHash, 'LegOpened not emitted');
+  });
+
+  await runTest('Manual close repays principal plus accrued interest', async () => {
+    const { protocol, ledger } = newProtocol();
+    const backend = protocol.connect(BORROWER);
+    const yes = protocol.yesPositionId(MARKET);
+    ledger.mintCtf(BORROWER, yes, 1000n * 1_000_000n);
+    ledger.mintUsdc(BORROWER, 100n * 1_000_000n); // Cover interest
+
+    await backend.setupApprovals();
+    await backend.verifyMarket(MARKET);
+    const { legId } = await backend.open(1000, 7 * 24 * 3600, MARKET, true);
+    const leg = await backend.legs(legId);
+    const before = await backend.usdcBalanceOf(BORROWER);
+
+    ledger.advanceTime(24 * 3600);
+    await backend.close(legId);
+
+    const principal = 1000 * Number(leg.F_e18) / 1e18;
+    const interest = principal * (Number(leg.rS_e18) + Number(leg.rJ_e18)) / 1e18 * (24 * 3600) / YEAR;
+    const paid = usdc(before - await backend.usdcBalanceOf(BORROWER));
+    assert(approx(paid, principal + interest, 1e-5), `paid ${paid}, expected ${principal + interest}`);
+    assert(ledger.ctfBalanceOf(BORROWER, yes) === 1000n * 1_000_000n, 'long tokens not returned');
+
+    const closed = protocol.getEvents().find(event => event.name === 'LegClosed');
+    assert(closed !== undefined && closed.autoClose === false, 'LegClosed(autoClose=false) not emitted');
+  });
+
+  await runTest('Expired leg auto-closes for anyone with surplus to borrower', async () => {
+    const { protocol, ledger } = newProtocol();
+    const backend = protocol.connect(BORROWER);
+    ledger.mintCtf(BORROWER, protocol.yesPositionId(MARKET), 1000n * 1_000_000n);
+
+    await backend.setupApprovals();
+    await backend.verifyMarket(MARKET);
+    const { legId } = await backend.open(1000, 3600, MARKET, true);
+    const leg = await backend.legs(legId);
+    const before = await backend.usdcBalanceOf(BORROWER);
+
+    const keeper = protocol.connect('0x00000000000000000000000000000000000000aa');
+    try {
+      await keeper.close(legId);
+      throw new Error('Non-borrower close before expiry should revert');
+    } catch (error: any) {
+      assert(error.message.includes('only borrower'), `unexpected revert: ${error.message}`);
+    }
+
+    ledger.advanceTime(3600);
+    await keeper.close(legId);
+
+    const principal = 1000 * Number(leg.F_e18) / 1e18;
+    const debt = principal * (1 + (Number(leg.rS_e18) + Number(leg.rJ_e18)) / 1e18 * 3600 / YEAR);
+    const surplus = usdc(await backend.usdcBalanceOf(BORROWER) - before);
+    assert(approx(surplus, 1000 - debt, 1e-5), `surplus ${surplus}, expected ${1000 - debt}`);
+    assert(protocol.getEvents().some(event => event.name === 'LegClosed' && event.autoClose), 'auto-close not flagged');
+  });
+
+  await runTest('Insufficient senior liquidity reverts', async () => {
+    const ledger = new InMemoryLedger();
+    const protocol = new InMemoryProtocol({ ledger, seniorLiquidityUSDC: 10 });
+    protocol.addMarket(MARKET);
+    const backend = protocol.connect(BORROWER);
+    ledger.mintCtf(BORROWER, protocol.yesPositionId(MARKET), 1000n * 1_000_000n);
+    await backend.setupApprovals();
+    await backend.verifyMarket(MARKET);
+
+    try {
+      await backend.open(1000, 3600, MARKET, true);
+      throw new Error('Should have reverted');
+    } catch (error: any) {
+      assert(error.message.includes('insufficient senior liquidity'), `unexpected revert: ${error.message}`);
+    }
+  });
+
+  console.log('\n=== OFFLINE SDK LIFECYCLE TESTS ===\n');
+
+  await runTest('simulatePosition runs offline', async () => {
+    const { sdk } = createHarness();
+    const preview = await sdk.simulatePosition(baseParams());
+    assert(preview.effectiveLeverage > 1, `leverage ${preview.effectiveLeverage}`);
+  });
+
+  await runTest('openTargetPosition loops through the in-memory stack', async () => {
+    const { sdk, protocol, exchange } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+
+    assert(position.legIds.length > 1, `expected several legs, got ${position.legIds.length}`);
+    assert(position.effectiveLeverage > 2, `leverage ${position.effectiveLeverage}`);
+    assert(protocol.getEvents().filter(event => event.name === 'LegOpened').length === position.legIds.length,
+      'legs and LegOpened events disagree');
+    assert(exchange.getOrders().every(order => order.status === 'MATCHED'), 'unfilled orders left behind');
+  });
+
+  await runTest('openTargetPosition surfaces paused protocol', async () => {
+    const { sdk, protocol } = createHarness();
+    protocol.paused = true;
+    try {
+      await sdk.openTargetPosition(baseParams());
+      throw new Error('Should have thrown ProtocolError');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError, `expected ProtocolError, got ${error.constructor.name}: ${error.message}`);
+      assert(error.message.includes('paused'), `unexpected message: ${error.message}`);
+    }
+  });
+
+  await runTest('closePosition returns net USDC paid to close', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams({ capitalUSDC: 500 }));
+
+    // Only the newest leg can be closed from wallet USDC without selling tokens
+    const newest = position.legIds[position.legIds.length - 1];
+    ledger.mintUsdc(BORROWER, 10n * 1_000_000n); // Cover accrued interest
+    ledger.advanceTime(600);
+    const delta = await sdk.closePosition([newest]);
+    assert(delta < 0, `closing should cost USDC, got ${delta}`);
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
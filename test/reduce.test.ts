@@ -0,0 +1,90 @@
+/**
+ * Validation: reducePosition
+ *
+ * Partial exits by percentage of exposure or by USDC released, closing the
+ * newest legs first and recalculating the remaining position.
+ *
+ * Usage:
+ *   npx ts-node test/reduce.test.ts
+ */
+
+import { ValidationError } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish, BORROWER } from './harness';
+
+async function main() {
+  console.log('\n=== REDUCE TESTS ===\n');
+
+  await runTest('Percent reduce closes newest legs covering the target', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.mintUsdc(BORROWER, 100n * 1_000_000n); // Spread and interest buffer
+    ledger.advanceTime(600);
+
+    const reduced = await sdk.reducePosition(position, { percent: 40 });
+    const report = reduced.reduction!;
+    const closedSets = report.legs.reduce((sum, leg) => sum + leg.sets, 0);
+
+    assert(report.remainingLegIds.length === 0, `unwind stopped early: ${report.stopReason}`);
+    assert(closedSets >= position.totalExposure * 0.4 - 1, `closed ${closedSets} of ${position.totalExposure}`);
+    assert(reduced.legIds.join() === position.legIds.slice(0, reduced.legIds.length).join(), 'oldest legs should remain');
+    assert(approx(reduced.totalExposure, position.totalExposure - closedSets, 1e-6), 'exposure not reduced by tokens sold');
+    assert(approx(reduced.capitalDeployed, position.capitalDeployed - report.netUSDC, 1e-6), 'capital not reduced by USDC released');
+    assert(reduced.effectiveLeverage < position.effectiveLeverage, 'leverage should drop');
+    assert(reduced.fees.protocolSenior < position.fees.protocolSenior, 'fees should shrink with the legs');
+  });
+
+  await runTest('USDC reduce releases at least the requested amount', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.mintUsdc(BORROWER, 100n * 1_000_000n);
+    ledger.advanceTime(600);
+
+    const reduced = await sdk.reducePosition(position, { usdcAmount: 30 });
+    assert(reduced.reduction!.netUSDC >= 30, `released only $${reduced.reduction!.netUSDC}`);
+    assert(reduced.legIds.length > 0 && reduced.legIds.length < position.legIds.length, 'should close some legs, not all');
+  });
+
+  await runTest('Auto-close time follows the remaining legs', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    assert(position.autoCloseTime === (ledger.timestamp + 3600) * 1000, 'auto-close should come from leg expiry');
+
+    ledger.mintUsdc(BORROWER, 100n * 1_000_000n);
+    ledger.advanceTime(600);
+    const reduced = await sdk.reducePosition(position, { percent: 10 });
+    assert(reduced.autoCloseTime === position.autoCloseTime, 'reducing should not restart the term');
+  });
+
+  await runTest('Full reduce leaves an empty position', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.mintUsdc(BORROWER, 150n * 1_000_000n);
+    ledger.advanceTime(600);
+
+    const reduced = await sdk.reducePosition(position, { percent: 100 });
+    assert(reduced.legIds.length === 0, 'legs left');
+    assert(reduced.totalExposure < position.legIds.length, `only sub-set loop dust should remain, got ${reduced.totalExposure}`);
+    assert(Number.isFinite(reduced.fees.total), 'fees should stay finite');
+  });
+
+  await runTest('Rejects ambiguous or unreachable targets', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+
+    for (const options of [{}, { percent: 10, usdcAmount: 10 }, { percent: 0 }, { percent: 120 }, { usdcAmount: 1_000_000 }]) {
+      try {
+        await sdk.reducePosition(position, options);
+        throw new Error(`Should have rejected ${JSON.stringify(options)}`);
+      } catch (error: any) {
+        assert(error instanceof ValidationError, `expected ValidationError for ${JSON.stringify(options)}, got ${error.message}`);
+      }
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,148 @@
+/**
+ * Validation: resumeOpen
+ *
+ * openTargetPosition checkpoints after every buy and every leg. A process
+ * that dies mid-loop is simulated by a collaborator whose Nth call takes
+ * effect but never returns; a second SDK on the same store then resumes
+ * (or unwinds) the run from the checkpoint.
+ *
+ * Usage:
+ *   npx ts-node test/resume.test.ts
+ */
+
+import { InMemoryPositionStore, ValidationError } from '../src';
+import { createHarness, crashOnCall, baseParams, runTest, assert, approx, finish, BORROWER } from './harness';
+
+async function main() {
+  console.log('\n=== RESUME TESTS ===\n');
+
+  const reference = await createHarness().sdk.openTargetPosition(baseParams());
+
+  await runTest('Leg opened after the last checkpoint is adopted', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.protocol.connect(BORROWER), 'open', 3);
+    harness.connect({ store, protocol: wrapped }).openTargetPosition(baseParams()).catch(() => undefined);
+    await crashed;
+
+    const [interrupted] = await harness.sdk.getInterruptedOpens();
+    assert(interrupted && interrupted.legs.length === 2, 'crashed run should show two recorded legs');
+
+    const position = await harness.sdk.resumeOpen(interrupted.id);
+    const opened = harness.protocol.getEvents().filter(event => event.name === 'LegOpened');
+    assert(opened.length === reference.legIds.length, `expected ${reference.legIds.length} legs on-chain, got ${opened.length}`);
+    assert(position.legIds.join() === opened.map(event => event.legId).join(), 'position should hold every on-chain leg');
+    assert(approx(position.totalExposure, reference.totalExposure, 1e-3), `exposure ${position.totalExposure} vs ${reference.totalExposure}`);
+
+    const record = (await store.get(interrupted.id))!;
+    assert(record.status === 'open' && !record.checkpoint, `status ${record.status}`);
+    assert((await harness.sdk.getInterruptedOpens()).length === 0, 'run still listed as interrupted');
+  });
+
+  await runTest('Tokens bought by an unrecorded order stop the resume until it unwinds', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.exchange, 'postOrder', 2);
+    harness.connect({ store, exchange: wrapped }).openTargetPosition(baseParams()).catch(() => undefined);
+    await crashed;
+
+    const [interrupted] = await store.list();
+    assert(interrupted.checkpoint!.stage === 'buy' && interrupted.legs.length === 1, 'crash should precede the buy checkpoint');
+    const budget = interrupted.checkpoint!.remainingUSDC;
+
+    try {
+      await harness.sdk.resumeOpen(interrupted.id);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.message.includes('unknown') && error.message.includes('{ unwind: true }'),
+        `got ${error.message}`);
+    }
+    const checkpoint = (await store.get(interrupted.id))!.checkpoint!;
+    assert(checkpoint.remainingUSDC === budget && checkpoint.pendingTokens > 0, 'budget should be kept and the tokens held as pending');
+
+    harness.ledger.mintUsdc(BORROWER, 150n * 1_000_000n); // Spread and interest buffer
+    const exited = await harness.sdk.resumeOpen(interrupted.id, { unwind: true });
+    assert(exited.legIds.length === 0 && (await store.get(interrupted.id))!.status === 'closed', 'unwind should close the run');
+    assert(harness.ledger.ctfBalanceOf(BORROWER, harness.yesTokenId) < 2_000_000n, 'bought tokens left in the wallet');
+  });
+
+  await runTest('A recovered fill under one token carries into the first leg', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ walletUSDC: 1001, asks: [{ price: 0.40, size: 0.5 }], sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.exchange, 'getOrder', 1);
+    const params = baseParams({ orderType: 'GTC', capitalUSDC: 1000.1 }); // 2500.25 tokens: the first leg needs the fraction
+    harness.connect({ store, exchange: wrapped }).openTargetPosition(params).catch(() => undefined);
+    await crashed;
+
+    const [interrupted] = await store.list();
+    await harness.exchange.cancelOrder(interrupted.checkpoint!.pendingOrderId!);
+    harness.exchange.addLiquidity(harness.yesTokenId, 'SELL', 0.40, 100_000);
+
+    await harness.sdk.resumeOpen(interrupted.id);
+    const record = (await store.get(interrupted.id))!;
+    assert(record.fills[0].size === 0.5, 'recovered fill not recorded');
+    assert(record.legs[0].sets === 2500, `first leg escrowed ${record.legs[0].sets} sets`);
+  });
+
+  await runTest('Live order left by the crash is cancelled and its fill kept', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ asks: [{ price: 0.40, size: 1500 }], sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.exchange, 'getOrder', 1);
+    harness.connect({ store, exchange: wrapped }).openTargetPosition(baseParams({ orderType: 'GTC' })).catch(() => undefined);
+    await crashed;
+
+    const [interrupted] = await store.list();
+    const orderId = interrupted.checkpoint!.pendingOrderId!;
+    assert(orderId !== undefined, 'pending order not checkpointed');
+    assert((await harness.exchange.getOrder(orderId)).status === 'LIVE', 'order should rest after a partial fill');
+
+    const position = await harness.sdk.resumeOpen(interrupted.id);
+    assert((await harness.exchange.getOrder(orderId)).status === 'CANCELLED', 'pending order not cancelled');
+    assert(position.legIds.length === 1 && approx(position.totalExposure, 1500), `exposure ${position.totalExposure}`);
+
+    const record = (await store.get(interrupted.id))!;
+    assert(record.fills[0].orderId === orderId && record.fills[0].size === 1500, 'partial fill not recorded');
+  });
+
+  await runTest('Unwind sells unescrowed tokens and closes every leg', async () => {
+    const store = new InMemoryPositionStore();
+    const harness = createHarness({ sdkOptions: { store } });
+    const { wrapped, crashed } = crashOnCall(harness.protocol.connect(BORROWER), 'ctfBalanceOf', 4);
+    harness.connect({ store, protocol: wrapped }).openTargetPosition(baseParams()).catch(() => undefined);
+    await crashed;
+
+    const [interrupted] = await store.list();
+    assert(interrupted.legs.length === 1 && interrupted.fills.length === 1, 'crash should land between the second buy and its checkpoint');
+    harness.ledger.mintUsdc(BORROWER, 150n * 1_000_000n); // Spread and interest buffer
+
+    const exited = await harness.sdk.resumeOpen(interrupted.id, { unwind: true });
+    assert(exited.legIds.length === 0, 'legs left open');
+    assert(exited.reduction!.remainingLegIds.length === 0, `unwind stopped: ${exited.reduction!.stopReason}`);
+    assert(harness.ledger.ctfBalanceOf(BORROWER, harness.yesTokenId) < 2_000_000n, 'bought tokens left in the wallet');
+
+    const record = (await store.get(interrupted.id))!;
+    assert(record.status === 'closed', `status ${record.status}`);
+    assert(record.fills.filter(fill => fill.side === 'SELL').length === 2, 'expected a sale for the pending tokens and the leg');
+  });
+
+  await runTest('Rejects unknown and finished runs', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+
+    for (const id of ['0xdead', position.positionId!]) {
+      try {
+        await sdk.resumeOpen(id);
+        throw new Error(`Should have rejected ${id}`);
+      } catch (error: any) {
+        assert(error instanceof ValidationError, `expected ValidationError, got ${error.constructor.name}: ${error.message}`);
+      }
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
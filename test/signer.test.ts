@@ -0,0 +1,150 @@
+/**
+ * Validation: Remote signers
+ *
+ * ethers v6 Signers and EIP-1193 providers are used as-is for EIP-712
+ * typed data (Polymarket orders and API-key derivation), messages and
+ * contract transactions, without extracting a private key.
+ *
+ * Usage:
+ *   npx ts-node test/signer.test.ts
+ */
+
+import { ethers } from 'ethers';
+import { ForecastLeverageSDK, InMemoryPositionStore, RemoteSigner, ValidationError } from '../src';
+import { ERC20_ABI } from '../src/protocol';
+import { createHarness, baseParams, runTest, assert, finish, PRIVATE_KEY, BORROWER } from './harness';
+
+// Same shape as the CLOB API-key derivation payload
+const DOMAIN = { name: 'ClobAuthDomain', version: '1', chainId: 137 };
+const TYPES = {
+  ClobAuth: [
+    { name: 'address', type: 'address' },
+    { name: 'timestamp', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'message', type: 'string' },
+  ],
+};
+const VALUE = { address: BORROWER, timestamp: '1700000000', nonce: 0, message: 'This message attests that I control the given wallet' };
+
+const TX_HASH = '0x' + '11'.repeat(32);
+
+/**
+ * EIP-1193 provider whose key stays inside its closure, like an embedded wallet
+ */
+function eip1193Wallet() {
+  const wallet = new ethers.Wallet(PRIVATE_KEY);
+  const sent: any[] = [];
+  const provider = {
+    request: async ({ method, params }: { method: string; params?: any }) => {
+      switch (method) {
+        case 'eth_accounts':
+          return [wallet.address.toLowerCase()];
+        case 'eth_signTypedData_v4': {
+          const { domain, types, message } = JSON.parse(params[1]);
+          delete types.EIP712Domain;
+          return wallet._signTypedData(domain, types, message);
+        }
+        case 'personal_sign':
+          return wallet.signMessage(ethers.utils.arrayify(params[0]));
+        case 'eth_sendTransaction':
+          sent.push(params[0]);
+          return TX_HASH;
+        default:
+          throw new Error(`Unsupported method ${method}`);
+      }
+    },
+  };
+  return { provider, sent };
+}
+
+/**
+ * Object with the ethers v6 Signer surface (bigint transaction fields)
+ */
+function v6Signer() {
+  const wallet = new ethers.Wallet(PRIVATE_KEY);
+  const sent: any[] = [];
+  const signer = {
+    getAddress: async () => wallet.address,
+    signTypedData: (domain: any, types: any, value: any) => wallet._signTypedData(domain, types, value),
+    signMessage: (message: string | Uint8Array) => wallet.signMessage(message),
+    sendTransaction: async (tx: any) => {
+      sent.push(tx);
+      return { hash: TX_HASH };
+    },
+  };
+  return { signer, sent };
+}
+
+/**
+ * Read provider that already knows every transaction hash
+ */
+const readProvider = { getTransaction: async (hash: string) => ({ hash, wait: async () => ({ status: 1 }) }) } as any;
+
+async function main() {
+  console.log('\n=== REMOTE SIGNER TESTS ===\n');
+
+  await runTest('EIP-1193 provider signs typed data and messages for its account', async () => {
+    const { provider } = eip1193Wallet();
+    const signer = new RemoteSigner(provider, readProvider);
+
+    assert(await signer.getAddress() === BORROWER, 'address should be checksummed from eth_accounts');
+    const signature = await signer._signTypedData(DOMAIN, TYPES, VALUE);
+    assert(ethers.utils.verifyTypedData(DOMAIN, TYPES, VALUE, signature) === BORROWER, 'typed data signature does not recover');
+    const message = await signer.signMessage('hello');
+    assert(ethers.utils.verifyMessage('hello', message) === BORROWER, 'message signature does not recover');
+  });
+
+  await runTest('Contract transactions go through eth_sendTransaction', async () => {
+    const { provider, sent } = eip1193Wallet();
+    const usdc = new ethers.Contract(ethers.constants.AddressZero, ERC20_ABI, new RemoteSigner(provider, readProvider));
+    const tx = await usdc.approve(BORROWER, 5);
+
+    assert(tx.hash === TX_HASH && sent.length === 1, 'transaction not sent');
+    assert(sent[0].from === BORROWER.toLowerCase(), `unexpected from: ${sent[0].from}`);
+    assert(sent[0].data === usdc.interface.encodeFunctionData('approve', [BORROWER, 5]), 'calldata mismatch');
+  });
+
+  await runTest('ethers v6 signer gets typed data and bigint transactions', async () => {
+    const { signer: remote, sent } = v6Signer();
+    const signer = new RemoteSigner(remote, readProvider);
+
+    const signature = await signer._signTypedData(DOMAIN, TYPES, VALUE);
+    assert(ethers.utils.verifyTypedData(DOMAIN, TYPES, VALUE, signature) === BORROWER, 'typed data signature does not recover');
+
+    await signer.sendTransaction({ to: BORROWER, value: ethers.BigNumber.from(7), gasLimit: 100_000 });
+    assert(sent[0].value === 7n && sent[0].gasLimit === 100_000n, 'v6 signers expect bigint fields');
+    assert(sent[0].from === BORROWER, `unexpected from: ${sent[0].from}`);
+  });
+
+  await runTest('SDK opens a position with an EIP-1193 provider', async () => {
+    const { exchange, protocol } = createHarness();
+    const { provider } = eip1193Wallet();
+    const sdk = new ForecastLeverageSDK({
+      network: 'local',
+      signer: provider,
+      exchange,
+      protocol: protocol.connect(BORROWER),
+      store: new InMemoryPositionStore(),
+    });
+
+    const position = await sdk.openTargetPosition(baseParams());
+    assert(position.legIds.length === 5, `expected 5 legs, got ${position.legIds.length}`);
+  });
+
+  await runTest('Unsupported signer is rejected', async () => {
+    const { exchange, protocol } = createHarness();
+    try {
+      new ForecastLeverageSDK({ network: 'local', signer: {} as any, exchange, protocol: protocol.connect(BORROWER) });
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.code === 'INVALID_PARAMS', `got ${error.message}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+/**
+ * Validation: Order-book-depth-aware simulatePosition
+ *
+ * Each loop's USDC walks the ask ladder, earlier loops eat depth, and the
+ * preview stops where execution would stop on maxSlippageBps.
+ *
+ * Usage:
+ *   npx ts-node test/simulation.test.ts
+ */
+
+import { PolymarketError, walkBook } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish } from './harness';
+
+const LADDER = [
+  { price: 0.40, size: 2000 },
+  { price: 0.41, size: 2000 },
+  { price: 0.42, size: 3000 },
+  { price: 0.45, size: 50000 },
+];
+
+async function main() {
+  console.log('\n=== DEPTH-AWARE SIMULATION TESTS ===\n');
+
+  await runTest('walkBook spends USDC across levels', async () => {
+    const walk = walkBook(LADDER, 1000, 'asks');
+    // $800 buys 2000 @ 0.40, $200 buys 487.8 @ 0.41
+    assert(approx(walk.filled, 2000 + 200 / 0.41), `filled ${walk.filled}`);
+    assert(walk.worstPrice === 0.41, `worst ${walk.worstPrice}`);
+    assert(approx(walk.levels[0].size, 2000 - 200 / 0.41), 'level not consumed');
+    assert(LADDER[0].size === 2000, 'input book mutated');
+  });
+
+  await runTest('Deep flat book has no slippage', async () => {
+    const { sdk } = createHarness();
+    const preview = await sdk.simulatePosition(baseParams());
+    const simulation = preview.simulation!;
+
+    assert(simulation.loops.every(loop => approx(loop.slippage, 0)), 'unexpected slippage on flat book');
+    assert(!simulation.maxSlippageBreached, 'flat book should not breach');
+    assert(approx(preview.fees.polymarketSlippage, 0), 'fees should carry no slippage');
+  });
+
+  await runTest('Later loops pay for depth eaten by earlier loops', async () => {
+    const { sdk } = createHarness({ asks: LADDER });
+    const preview = await sdk.simulatePosition(baseParams({ maxSlippageBps: 2000 }));
+    const loops = preview.simulation!.loops;
+
+    assert(loops.length > 2, `expected several loops, got ${loops.length}`);
+    assert(loops[0].bestAsk === 0.40, 'first loop should start at best ask');
+    assert(loops[1].avgFillPrice > loops[0].avgFillPrice, 'second loop should fill higher');
+    assert(loops[loops.length - 1].bestAsk > loops[0].bestAsk, 'best ask should move up as depth is eaten');
+
+    const totalSlippage = loops.reduce((sum, loop) => sum + loop.slippage, 0);
+    assert(totalSlippage > 0, 'ladder should produce slippage');
+    assert(approx(preview.fees.polymarketSlippage, totalSlippage), 'slippage not carried into fees');
+    assert(preview.simulation!.priceImpactBps > 0, 'price impact should be positive');
+  });
+
+  await runTest('Tight maxSlippageBps stops the preview where execution would', async () => {
+    const { sdk } = createHarness({ asks: LADDER });
+    const loose = await sdk.simulatePosition(baseParams({ maxSlippageBps: 2000 }));
+    const tight = await sdk.simulatePosition(baseParams({ maxSlippageBps: 300 }));
+    const simulation = tight.simulation!;
+    const breaching = simulation.loops[simulation.loops.length - 1];
+
+    assert(simulation.maxSlippageBreached, 'breach not reported');
+    assert(breaching.exceedsMaxSlippage, 'last loop should be the breaching one');
+    assert(simulation.loopsFilled === simulation.loops.length - 1, 'breaching loop counted as filled');
+    assert(tight.totalExposure < loose.totalExposure, 'stopped preview should have less exposure');
+  });
+
+  await runTest('Book that cannot fill the first loop throws', async () => {
+    const { sdk } = createHarness({ asks: [{ price: 0.40, size: 100 }] });
+    try {
+      await sdk.simulatePosition(baseParams());
+      throw new Error('Should have thrown PolymarketError');
+    } catch (error: any) {
+      assert(error instanceof PolymarketError, `expected PolymarketError, got ${error.constructor.name}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
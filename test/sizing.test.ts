@@ -0,0 +1,85 @@
+/**
+ * Validation: Risk-budget sizing
+ *
+ * sizePositionForRisk solves for the largest capital whose simulated loss
+ * (at stopPrice, or the whole capital at auto-close) fits the budget,
+ * using the same depth walk and fee model as simulatePosition.
+ *
+ * Usage:
+ *   npx ts-node test/sizing.test.ts
+ */
+
+import { RiskBudgetParams, ValidationError } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish } from './harness';
+
+function riskParams(overrides: Partial<RiskBudgetParams> = {}): RiskBudgetParams {
+  const { capitalUSDC, ...target } = baseParams();
+  return { ...target, stopPrice: 0.35, maxLossUSDC: 200, ...overrides };
+}
+
+async function main() {
+  console.log('\n=== SIZING TESTS ===\n');
+
+  await runTest('Capital is the largest that keeps the stop loss in budget', async () => {
+    const { sdk } = createHarness();
+    const sizing = await sdk.sizePositionForRisk(riskParams());
+    const { preview } = sizing;
+
+    assert(sizing.limitedBy === 'maxLoss' && sizing.lossUSDC <= 200, `loss ${sizing.lossUSDC}, limited by ${sizing.limitedBy}`);
+    const expected = 0.05 * preview.totalExposure + preview.fees.total;
+    assert(approx(sizing.lossUSDC, expected, 1e-9), `loss ${sizing.lossUSDC} vs move plus fees ${expected}`);
+    assert(sizing.params.capitalUSDC > 200, 'a stop should let more capital than the budget be deployed');
+
+    const oneCentMore = await sdk.simulatePosition({ ...sizing.params, capitalUSDC: sizing.params.capitalUSDC + 0.01 });
+    assert(-oneCentMore.pnl.maxLoss > 200, 'a cent more capital should break the budget');
+  });
+
+  await runTest('Without a stop the whole capital is at risk', async () => {
+    const { sdk } = createHarness();
+    const sizing = await sdk.sizePositionForRisk(riskParams({ stopPrice: undefined }));
+    assert(sizing.params.capitalUSDC === 200 && sizing.lossUSDC === 200, `capital ${sizing.params.capitalUSDC}`);
+    assert(sizing.params.stopPrice === undefined && !('maxLossUSDC' in sizing.params), 'params should be plain target params');
+  });
+
+  await runTest('Capital cap and book depth bound the size', async () => {
+    const capped = await createHarness().sdk.sizePositionForRisk(riskParams({ maxCapitalUSDC: 300 }));
+    assert(capped.params.capitalUSDC === 300 && capped.limitedBy === 'maxCapital' && capped.lossUSDC < 200, `capped ${capped.params.capitalUSDC}`);
+
+    // $1,200 of asks and a tight stop: the first loop runs out of book before the loss budget
+    const { sdk } = createHarness({ asks: [{ price: 0.40, size: 3000 }] });
+    const thin = await sdk.sizePositionForRisk(riskParams({ stopPrice: 0.39 }));
+    assert(thin.limitedBy === 'liquidity' && thin.params.capitalUSDC <= 1200, `thin ${thin.params.capitalUSDC} (${thin.limitedBy})`);
+  });
+
+  await runTest('Opened positions report the loss at their stop', async () => {
+    const { sdk } = createHarness();
+    const sizing = await sdk.sizePositionForRisk(riskParams());
+    const position = await sdk.openTargetPosition(sizing.params);
+    // Legs escrow whole tokens, so the executed loss is a little under the preview
+    assert(-position.pnl.maxLoss <= 200 && approx(-position.pnl.maxLoss, sizing.lossUSDC, 0.5), `opened ${-position.pnl.maxLoss} vs sized ${sizing.lossUSDC}`);
+  });
+
+  await runTest('Invalid budgets and stops are rejected', async () => {
+    const { sdk } = createHarness();
+    for (const [overrides, expected] of [
+      [{ maxLossUSDC: 5 }, 'minimum $10'],
+      [{ maxLossUSDC: -1 }, 'maxLossUSDC'],
+      [{ stopPrice: 0.45 }, 'stopPrice < currentPrice'],
+      [{ maxCapitalUSDC: 0 }, 'maxCapitalUSDC'],
+    ] as [Partial<RiskBudgetParams>, string][]) {
+      try {
+        await sdk.sizePositionForRisk(riskParams(overrides));
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        assert(error instanceof ValidationError && error.message.includes(expected), `expected "${expected}", got ${error.message}`);
+      }
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+/**
+ * Validation: Position store
+ *
+ * openTargetPosition, closePosition, reducePosition and unwindPosition
+ * write params, fills, legs and metrics to the configured PositionStore.
+ *
+ * Usage:
+ *   npx ts-node test/store.test.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryPositionStore, JsonFilePositionStore, PositionRecord } from '../src';
+import { createHarness, baseParams, runTest, assert, finish, BORROWER } from './harness';
+
+async function main() {
+  console.log('\n=== POSITION STORE TESTS ===\n');
+
+  await runTest('openTargetPosition records params, fills, legs and metrics', async () => {
+    const store = new InMemoryPositionStore();
+    const { sdk } = createHarness({ sdkOptions: { store } });
+    const position = await sdk.openTargetPosition(baseParams());
+
+    const record = (await store.get(position.positionId!))!;
+    assert(record.status === 'open', `status ${record.status}`);
+    assert(record.params.capitalUSDC === 1000 && record.params.targetPrice === 0.44, 'params not recorded');
+    assert(record.legs.map(leg => leg.legId).join() === position.legIds.join(), 'leg IDs not recorded');
+    assert(record.legs.every(leg => leg.open && leg.txHash.startsWith('0x') && leg.sets > 0), 'leg details missing');
+    assert(record.fills.length === position.legIds.length && record.fills.every(fill => fill.side === 'BUY'), 'fills not recorded');
+    assert(record.position!.totalExposure === position.totalExposure, 'final position not recorded');
+  });
+
+  await runTest('Failed open is recorded with its fills', async () => {
+    const store = new InMemoryPositionStore();
+    const { sdk, protocol } = createHarness({ sdkOptions: { store } });
+    protocol.paused = true;
+
+    try {
+      await sdk.openTargetPosition(baseParams());
+    } catch {
+      // Expected: protocol paused
+    }
+
+    const [record] = await store.list();
+    assert(record.status === 'failed' && record.error!.includes('paused'), `status ${record.status}: ${record.error}`);
+    assert(record.fills.length === 1 && record.legs.length === 0, 'tokens were bought before the open reverted');
+  });
+
+  await runTest('Close, reduce and unwind update the record', async () => {
+    const store = new InMemoryPositionStore();
+    const { sdk, ledger } = createHarness({ sdkOptions: { store } });
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.mintUsdc(BORROWER, 150n * 1_000_000n);
+    ledger.advanceTime(600);
+
+    const reduced = await sdk.reducePosition(position, { percent: 30 });
+    let record = (await store.get(position.positionId!))!;
+    assert(record.position!.legIds.join() === reduced.legIds.join(), 'reduced position not recorded');
+    assert(record.fills.some(fill => fill.side === 'SELL'), 'sale fills not recorded');
+
+    const newest = reduced.legIds[reduced.legIds.length - 1];
+    ledger.mintUsdc(BORROWER, 1000n * 1_000_000n); // closePosition keeps the tokens, so fund the repayment
+    await sdk.closePosition([newest]);
+    record = (await store.findByLegId(newest))!;
+    assert(!record.legs.find(leg => leg.legId === newest)!.open, 'closePosition not recorded');
+    assert(record.status === 'open', 'other legs still open');
+
+    await sdk.unwindPosition(reduced.legIds.slice(0, -1));
+    record = (await store.get(position.positionId!))!;
+    assert(record.status === 'closed' && record.legs.every(leg => !leg.open && leg.closeTxHash), 'unwind not recorded');
+  });
+
+  await runTest('JSON file store survives a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'forecast-store-'));
+    const file = path.join(dir, 'positions.json');
+    try {
+      const { sdk } = createHarness({ sdkOptions: { store: new JsonFilePositionStore(file) } });
+      const position = await sdk.openTargetPosition(baseParams());
+
+      const reopened = new JsonFilePositionStore(file);
+      const record = (await reopened.get(position.positionId!))!;
+      assert(record.status === 'open', 'record not persisted');
+      assert(typeof record.legs[0].legId === 'bigint', 'bigint leg IDs not restored');
+      assert((await reopened.findByLegId(position.legIds[0]))!.id === record.id, 'findByLegId failed after reload');
+      assert(!fs.existsSync(`${file}.tmp`), 'temporary file left behind');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  await runTest('Concurrent first calls to a file store share one load', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'forecast-store-'));
+    const file = path.join(dir, 'positions.json');
+    try {
+      const store = new JsonFilePositionStore(file);
+      const records: PositionRecord[] = ['record-0', 'record-1'].map(id => ({
+        id, status: 'opening', params: baseParams(), fills: [], legs: [], createdAt: 0, updatedAt: 0,
+      }));
+      await Promise.all(records.map(record => store.save(record)));
+
+      const reopened = await new JsonFilePositionStore(file).list();
+      assert(reopened.map(record => record.id).sort().join() === 'record-0,record-1', `saved ${reopened.map(record => record.id)}`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  await runTest('File stores sharing a path keep each other\'s records', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'forecast-store-'));
+    const file = path.join(dir, 'positions.json');
+    try {
+      const app = new JsonFilePositionStore(file);
+      const keeper = new JsonFilePositionStore(file);
+      const record = (id: string): PositionRecord => ({
+        id, status: 'opening', params: baseParams(), fills: [], legs: [], createdAt: 0, updatedAt: 0,
+      });
+      await keeper.list(); // Read before the app saves
+      await app.save(record('app-0'));
+      await keeper.save(record('keeper-0'));
+      await Promise.all([1, 2, 3].flatMap(i => [app.save(record(`app-${i}`)), keeper.save(record(`keeper-${i}`))]));
+
+      const ids = (await new JsonFilePositionStore(file).list()).map(saved => saved.id).sort();
+      assert(ids.length === 8 && (await app.get('keeper-3')) !== null, `saved ${ids}`);
+      assert(fs.readdirSync(dir).join() === 'positions.json', `left behind ${fs.readdirSync(dir)}`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  await runTest('Store failures never break trading', async () => {
+    const store = new InMemoryPositionStore();
+    store.save = async (_record: PositionRecord) => {
+      throw new Error('disk full');
+    };
+    const { sdk } = createHarness({ sdkOptions: { store } });
+    const position = await sdk.openTargetPosition(baseParams());
+    assert(position.legIds.length > 1, 'position should still open');
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,139 @@
+/**
+ * Validation: Exit triggers
+ *
+ * watchExitTriggers polls the long token's best bid and unwinds the
+ * position when take-profit, stop-loss or a trailing stop fires. Legs the
+ * unwind cannot close stay watched and are retried.
+ *
+ * Usage:
+ *   npx ts-node test/triggers.test.ts
+ */
+
+import { ExitMonitor, ValidationError } from '../src';
+import { firedExitRule } from '../src/triggers';
+import { createHarness, baseParams, runTest, assert, finish, BORROWER } from './harness';
+
+const ASKS = [{ price: 0.50, size: 100000 }];
+
+/**
+ * Resolve once `condition` holds, polling every few ms
+ */
+async function waitFor(condition: () => boolean, what: string, timeoutMs: number = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+async function finished(monitor: ExitMonitor) {
+  const timeout = new Promise<never>((_, reject) => setTimeout(() => reject(new Error('monitor did not finish')), 3000));
+  return Promise.race([monitor.finished, timeout]);
+}
+
+async function main() {
+  console.log('\n=== EXIT TRIGGER TESTS ===\n');
+
+  await runTest('Rules fire on the best bid, stops first', async () => {
+    const triggers = { takeProfit: 0.44, stopLoss: 0.36, trailingStop: 0.03 };
+    assert(firedExitRule(triggers, 0.40, 0.41) === null, 'nothing should fire inside the band');
+    assert(firedExitRule(triggers, 0.44, 0.44)!.rule === 'takeProfit', 'take-profit at the target');
+    assert(firedExitRule(triggers, 0.36, 0.40)!.rule === 'stopLoss', 'stop-loss at the stop');
+    const trailing = firedExitRule(triggers, 0.39, 0.42)!;
+    assert(trailing.rule === 'trailingStop' && Math.abs(trailing.level - 0.39) < 1e-12, `trailing ${JSON.stringify(trailing)}`);
+  });
+
+  await runTest('Take-profit at targetPrice unwinds the whole position', async () => {
+    const { sdk, exchange, yesTokenId } = createHarness({ walletUSDC: 6000 });
+    const position = await sdk.openTargetPosition(baseParams());
+    const events: string[] = [];
+    const monitor = sdk.watchExitTriggers(position, {
+      intervalMs: 5,
+      onTrigger: event => events.push(event.rule),
+      onExit: () => { throw new Error('listener bug'); },
+    });
+
+    await waitFor(() => monitor.lastBid === 0.39, 'first reading');
+    assert(monitor.exits.length === 0, 'nothing should fire at the entry bid');
+    exchange.setOrderBook(yesTokenId, { bids: [{ price: 0.44, size: 50000 }], asks: ASKS });
+
+    const exit = (await finished(monitor))!;
+    assert(exit.rule === 'takeProfit' && exit.bestBid === 0.44 && events.join() === 'takeProfit', `exit ${exit?.rule}`);
+    assert(exit.report.legs.length === position.legIds.length && exit.report.remainingLegIds.length === 0, 'every leg should close');
+    assert(exit.report.legs.every(leg => leg.avgSalePrice === 0.44), 'tokens should sell at the take-profit bid');
+    assert(exit.report.realizedPnl! > 0, `realized ${exit.report.realizedPnl}`);
+
+    const record = await sdk.getPositionStore().get(position.positionId!);
+    assert(record!.status === 'closed' && monitor.stopped, 'position should be closed and the monitor stopped');
+  });
+
+  await runTest('Stop-loss from params and trailing stop', async () => {
+    const { sdk, exchange, yesTokenId } = createHarness({ walletUSDC: 6000 });
+    const stopped = await sdk.openTargetPosition(baseParams({ stopPrice: 0.36 }));
+    const monitor = sdk.watchExitTriggers(stopped, { intervalMs: 5 });
+    exchange.setOrderBook(yesTokenId, { bids: [{ price: 0.35, size: 50000 }], asks: ASKS });
+    assert((await finished(monitor))!.rule === 'stopLoss', 'stop-loss should fire below the stop');
+
+    // New position; the bid rises to 0.43, then gives back 3¢
+    exchange.setOrderBook(yesTokenId, { bids: [{ price: 0.39, size: 50000 }], asks: [{ price: 0.40, size: 100000 }] });
+    const trailed = await sdk.openTargetPosition(baseParams());
+    const trailing = sdk.watchExitTriggers(trailed, { intervalMs: 5, triggers: { trailingStop: 0.03 } });
+    exchange.setOrderBook(yesTokenId, { bids: [{ price: 0.43, size: 50000 }], asks: ASKS });
+    await waitFor(() => trailing.highWaterMark === 0.43, 'new high');
+    exchange.setOrderBook(yesTokenId, { bids: [{ price: 0.40, size: 50000 }], asks: ASKS });
+
+    const exit = (await finished(trailing))!;
+    assert(exit.rule === 'trailingStop' && exit.highWaterMark === 0.43 && exit.bestBid === 0.40, `exit ${exit.rule} @ ${exit.bestBid}`);
+  });
+
+  await runTest('Legs left by a stalled unwind are retried', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+
+    // At the 0.39 bid the wallet only funds the newest close; older legs wait for more USDC
+    const monitor = sdk.watchExitTriggers(position, { intervalMs: 5, triggers: { stopLoss: 0.39 } });
+
+    await waitFor(() => monitor.exits.length === 1, 'first unwind');
+    const first = monitor.exits[0].report;
+    assert(first.remainingLegIds.length > 0 && !monitor.stopped, 'unwind should stall with legs left');
+    assert(monitor.openLegIds.join() === first.remainingLegIds.join(), 'remaining legs should stay watched');
+
+    ledger.mintUsdc(BORROWER, 5000_000000n);
+    const exit = (await finished(monitor))!;
+    assert(exit.report.remainingLegIds.length === 0 && monitor.exits.length >= 2, `exits ${monitor.exits.length}`);
+  });
+
+  await runTest('Missing or inverted rules are rejected', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openLeveragePosition({
+      marketConditionId: baseParams().marketConditionId,
+      longYes: true,
+      currentPrice: 0.40,
+      leverage: 1.5,
+      termSeconds: 3600,
+      capitalUSDC: 1000,
+      maxSlippageBps: 0,
+      retryDelayMs: 1,
+    });
+
+    for (const [triggers, expected] of [
+      [undefined, 'No exit triggers'],
+      [{ takeProfit: 0.40, stopLoss: 0.45 }, 'must be below takeProfit'],
+      [{ trailingStop: 1.5 }, 'trailingStop'],
+    ] as const) {
+      try {
+        sdk.watchExitTriggers(position, { triggers }).stop();
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        assert(error instanceof ValidationError && error.message.includes(expected), `expected "${expected}", got ${error.message}`);
+      }
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Validation: unwindPosition
+ *
+ * Opens a looped position offline, then reverses it: newest leg first,
+ * freed tokens sold into the bids, proceeds funding the next close.
+ *
+ * Usage:
+ *   npx ts-node test/unwind.test.ts
+ */
+
+import { ProtocolError, ValidationError } from '../src';
+import { createHarness, baseParams, usdc, runTest, assert, approx, finish, BORROWER } from './harness';
+
+async function main() {
+  console.log('\n=== UNWIND TESTS ===\n');
+
+  await runTest('Unwind closes every leg and returns to USDC', async () => {
+    const { sdk, ledger, protocol, yesTokenId } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    const tokensBefore = ledger.ctfBalanceOf(BORROWER, yesTokenId);
+    ledger.mintUsdc(BORROWER, 150n * 1_000_000n); // Each close pays the bid/ask spread plus interest
+
+    ledger.advanceTime(600);
+    const report = await sdk.unwindPosition(position.legIds, { capitalUSDC: 1000 });
+
+    assert(report.remainingLegIds.length === 0, `legs left open: ${report.remainingLegIds}`);
+    assert(report.legs.length === position.legIds.length, 'not every leg unwound');
+    assert(report.legs[0].legId === position.legIds[position.legIds.length - 1], 'newest leg should close first');
+    assert(report.legs.every(leg => !leg.settled && leg.tokensSold === leg.sets), 'freed tokens not sold');
+    assert(report.legs.every(leg => leg.avgSalePrice >= 0.39 * 0.99), 'sold below slippage limit');
+    assert(ledger.ctfBalanceOf(BORROWER, yesTokenId) === tokensBefore, 'escrowed tokens left in wallet');
+
+    const closed = protocol.getEvents().filter(event => event.name === 'LegClosed');
+    assert(closed.length === position.legIds.length, 'LegClosed count mismatch');
+
+    assert(approx(report.netUSDC, report.totalProceeds - report.totalRepaid, 1e-4), 'net USDC does not reconcile');
+    assert(report.fees.protocolInterest > 0, 'interest not reported');
+    assert(report.realizedPnl! < 0, `selling at the bid after buying at the ask should lose, got ${report.realizedPnl}`);
+  });
+
+  await runTest('Expired legs settle without selling', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+
+    ledger.advanceTime(3600);
+    const report = await sdk.unwindPosition(position.legIds);
+
+    assert(report.legs.every(leg => leg.settled && leg.tokensSold === 0), 'expired legs should settle');
+    assert(report.legs.every(leg => leg.settlementUSDC > 0), 'settlement surplus not reported');
+    assert(approx(report.totalProceeds, report.netUSDC, 1e-4), 'settlement proceeds do not reconcile');
+    assert(report.realizedPnl === undefined, 'realizedPnl needs capitalUSDC');
+  });
+
+  await runTest('Failed sale stops the unwind with legs left open', async () => {
+    const { sdk, ledger, exchange, yesTokenId } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    exchange.setOrderBook(yesTokenId, { bids: [], asks: [] });
+    ledger.mintUsdc(BORROWER, 10n * 1_000_000n); // Cover interest on the newest leg
+
+    ledger.advanceTime(600);
+    const report = await sdk.unwindPosition(position.legIds, { maxSlippageBps: 100 });
+
+    assert(report.legs.length === 1 && report.legs[0].tokensSold === 0, 'newest leg should close without a sale');
+    assert(report.remainingLegIds.length === position.legIds.length - 1, 'older legs should stay open');
+    assert(report.stopReason !== undefined, 'stop reason missing');
+    assert(ledger.ctfBalanceOf(BORROWER, yesTokenId) > 0n, 'unsold tokens should stay in the wallet');
+  });
+
+  await runTest('Unwind stops when sale proceeds cannot fund the next leg', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.mintUsdc(BORROWER, 10n * 1_000_000n); // Enough for the newest leg only
+
+    ledger.advanceTime(600);
+    const report = await sdk.unwindPosition(position.legIds);
+
+    assert(report.legs.length === 1, `expected one leg unwound, got ${report.legs.length}`);
+    assert(report.legs[0].tokensSold > 0, 'newest leg tokens should be sold');
+    assert(report.stopReason!.includes('Insufficient USDC'), `unexpected stop reason: ${report.stopReason}`);
+    assert(report.remainingLegIds.join() === position.legIds.slice(0, -1).join(), 'older legs should stay open in order');
+  });
+
+  await runTest('Unfundable newest leg throws ProtocolError', async () => {
+    const { sdk, ledger } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    ledger.transferUsdc(BORROWER, '0x00000000000000000000000000000000000000bb', await ledger.usdcBalanceOf(BORROWER));
+
+    try {
+      await sdk.unwindPosition(position.legIds);
+      throw new Error('Should have thrown ProtocolError');
+    } catch (error: any) {
+      assert(error instanceof ProtocolError, `expected ProtocolError, got ${error.constructor.name}: ${error.message}`);
+      assert(error.message.includes('Insufficient USDC'), `unexpected message: ${error.message}`);
+    }
+    assert(usdc(ledger.usdcBalanceOf(BORROWER)) === 0, 'wallet should be untouched');
+  });
+
+  await runTest('Rejects empty leg list', async () => {
+    const { sdk } = createHarness();
+    try {
+      await sdk.unwindPosition([]);
+      throw new Error('Should have thrown ValidationError');
+    } catch (error: any) {
+      assert(error instanceof ValidationError, `expected ValidationError, got ${error.constructor.name}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,115 @@
+/**
+ * Validation: Mark-to-market valuation
+ *
+ * valuePosition prices the long exposure at the best bid and at the
+ * depth-weighted sale into the bids, subtracts principal and interest
+ * accrued so far, and reports unrealized PnL, current leverage and
+ * breakeven against the position's cost basis.
+ *
+ * Usage:
+ *   npx ts-node test/valuation.test.ts
+ */
+
+import { ValidationError, PolymarketError } from '../src';
+import { createHarness, baseParams, runTest, assert, approx, finish } from './harness';
+
+const YEAR = 365 * 24 * 3600;
+
+async function main() {
+  console.log('\n=== VALUATION TESTS ===\n');
+
+  await runTest('Liquidation value matches an unwind right after opening', async () => {
+    const { sdk } = createHarness({ walletUSDC: 6000 }); // Spare USDC funds the closes
+    const position = await sdk.openTargetPosition(baseParams());
+    const value = await sdk.valuePosition(position.legIds);
+
+    const wholeTokens = value.exposure <= position.totalExposure && value.exposure > position.totalExposure - position.legIds.length;
+    assert(value.capitalUSDC === 1000 && wholeTokens, `exposure ${value.exposure} vs ${position.totalExposure}`);
+    assert(value.accruedInterest === 0 && value.carriedLoan > 0, 'no interest yet; newest loan is in the wallet');
+    assert(value.atBid.price === 0.39 && approx(value.atBid.value, value.exposure * 0.39, 1e-6), `bid value ${value.atBid.value}`);
+    assert(approx(value.atBid.equity, value.atBid.value - value.debt + value.carriedLoan, 1e-6), 'equity');
+    assert(approx(value.atBid.leverage, value.atBid.value / value.atBid.equity, 1e-9), 'leverage');
+
+    const report = await sdk.unwindPosition(position.legIds, { capitalUSDC: 1000 });
+    const realizedBeforeGas = report.realizedPnl! + report.fees.gas;
+    assert(approx(value.atLiquidation.unrealizedPnl, realizedBeforeGas, 0.01), `valued ${value.atLiquidation.unrealizedPnl}, unwound ${realizedBeforeGas}`);
+  });
+
+  await runTest('Interest accrues with chain time until the term ends', async () => {
+    const { sdk, ledger, protocol } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    const before = await sdk.valuePosition(position.legIds);
+
+    // Interest per second, at each leg's own rates
+    const legs = position.legIds.map(legId => protocol.legs(legId));
+    const perSecond = legs.reduce((sum, leg) => sum + Number(leg.sets) * Number(leg.F_e18) / 1e18 * Number(leg.rS_e18 + leg.rJ_e18) / 1e18 / YEAR, 0);
+
+    ledger.advanceTime(1800);
+    const later = await sdk.valuePosition(position.legIds);
+    const expected = perSecond * 1800;
+    assert(approx(later.accruedInterest, expected, 1e-6), `interest ${later.accruedInterest} vs ${expected}`);
+    assert(approx(later.atBid.unrealizedPnl, before.atBid.unrealizedPnl - expected, 1e-6), 'PnL should fall by the interest');
+    assert(later.breakeven > before.breakeven, 'breakeven should rise with interest');
+
+    ledger.advanceTime(7200);
+    const expired = await sdk.valuePosition(position.legIds);
+    assert(approx(expired.accruedInterest, perSecond * 3600, 1e-6), 'interest stops at the end of the term');
+  });
+
+  await runTest('Thin bids pull the liquidation price below the bid', async () => {
+    const { sdk, exchange, yesTokenId } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    exchange.setOrderBook(yesTokenId, { bids: [{ price: 0.39, size: 1000 }, { price: 0.30, size: 500 }], asks: [{ price: 0.40, size: 100000 }] });
+
+    const value = await sdk.valuePosition(position.legIds);
+    assert(approx(value.atLiquidation.unfilled, value.exposure - 1500, 1e-6), `unfilled ${value.atLiquidation.unfilled}`);
+    assert(approx(value.atLiquidation.value, 1000 * 0.39 + 500 * 0.30, 1e-6), `liquidation value ${value.atLiquidation.value}`);
+    assert(approx(value.atLiquidation.price, value.atLiquidation.value / 1500, 1e-9), `liquidation price ${value.atLiquidation.price}`);
+    assert(value.atLiquidation.unrealizedPnl < value.atBid.unrealizedPnl, 'depth should cost');
+    assert(value.atLiquidation.equity > 0 || value.atLiquidation.leverage === Infinity, 'no leverage without equity');
+
+    const atBreakeven = value.exposure * value.breakeven - value.debt + value.carriedLoan - value.capitalUSDC;
+    assert(approx(atBreakeven, 0, 1e-6), `PnL at breakeven ${atBreakeven}`);
+  });
+
+  await runTest('Reduced legs drop out and the cost basis follows the store', async () => {
+    const { sdk } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+    const reduced = await sdk.reducePosition(position, { percent: 40 });
+
+    const value = await sdk.valuePosition(position.legIds);
+    assert(value.legIds.length === reduced.legIds.length && value.closedLegIds.length === position.legIds.length - reduced.legIds.length, 'closed legs not left out');
+    assert(approx(value.capitalUSDC, reduced.capitalDeployed, 1e-9), `capital ${value.capitalUSDC} vs ${reduced.capitalDeployed}`);
+    assert(value.carriedLoan === 0, 'newest loan was repaid by the reduction');
+
+    const overridden = await sdk.valuePosition(position.legIds, { capitalUSDC: 500 });
+    assert(approx(overridden.atBid.unrealizedPnl, value.atBid.equity - 500, 1e-9), 'capitalUSDC should override the store');
+  });
+
+  await runTest('Unknown cost basis and empty bids are rejected', async () => {
+    const { sdk, exchange, yesTokenId, connect } = createHarness();
+    const position = await sdk.openTargetPosition(baseParams());
+
+    try {
+      await connect().valuePosition(position.legIds);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof ValidationError && error.message.includes('capitalUSDC'), `got ${error.message}`);
+    }
+
+    exchange.setOrderBook(yesTokenId, { bids: [], asks: [{ price: 0.40, size: 100000 }] });
+    try {
+      await sdk.valuePosition(position.legIds);
+      throw new Error('Should have thrown');
+    } catch (error: any) {
+      assert(error instanceof PolymarketError && error.code === 'NO_BOOK_LIQUIDITY', `got ${error.message}`);
+    }
+  });
+
+  finish();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});